@@ -10,6 +10,8 @@ import MainMenu from './components/MainMenu';
 import StatusBar from './components/common/StatusBar';
 import HelpScreen from './components/common/HelpScreen';
 import { ErrorProvider } from './components/common';
+import ExpirationReminder from './components/org/ExpirationReminder';
+import SandboxNotifier from './components/org/SandboxNotifier';
 
 // AppContent component that uses the context
 const AppContent: React.FC = () => {
@@ -37,6 +39,8 @@ const AppContent: React.FC = () => {
       <ThemeProvider theme={state.theme}>
         <HelpProvider>
           <NotificationProvider>
+            <ExpirationReminder />
+            <SandboxNotifier />
             <ErrorProvider position="top" maxVisibleErrors={2}>
               <Box flexDirection="column" height="100%">
                 <Box flexGrow={1}>
@@ -6,6 +6,7 @@ import { FirstTimeWizardWithErrorBoundary } from '../components/FirstTimeWizard'
 import SplashScreen from '../components/SplashScreen';
 import { loadConfig, markFirstRunComplete } from '../utils/config';
 import { logger } from '../utils/logger';
+import { enableDemoMode } from '../utils/sfSimulator';
 import ErrorBoundary from '../components/common/ErrorBoundary';
 
 export default class SFTUI extends Command {
@@ -15,6 +16,7 @@ export default class SFTUI extends Command {
     `$ sft`, // Default command
     `$ sft --help`,
     `$ sft --version`,
+    `$ sft --demo`,
   ];
 
   static flags = {
@@ -28,6 +30,10 @@ export default class SFTUI extends Command {
       description: 'Enable debug mode',
       default: false,
     }),
+    demo: Flags.boolean({
+      description: 'Run against a simulated Salesforce CLI (no sf install, org or network needed)',
+      default: false,
+    }),
   };
 
   async run() {
@@ -38,6 +44,10 @@ export default class SFTUI extends Command {
       return;
     }
 
+    if (flags.demo) {
+      enableDemoMode();
+    }
+
     // Show splash screen first
     const renderMainMenu = () => React.createElement(MainMenu);
     
@@ -16,6 +16,8 @@ import { AuthManager } from './auth/AuthManager';
 import { MetadataTools } from './metadata/MetadataTools';
 import { RunTools } from './run/RunTools';
 import { PluginsPanel } from './plugins/PluginsPanel';
+import { JobsPanel } from './jobs/JobsPanel';
+import { HistoryPanel } from './history/HistoryPanel';
 import { SettingsMenu } from './settings/SettingsMenu';
 import { ErrorProvider, ErrorBoundary, Transition } from './common';
 import { Breadcrumb } from './common/Breadcrumb';
@@ -74,6 +76,16 @@ const menuItems: MenuItem[] = [
     value: 'run',
     description: 'Run Apex, Flows, and more'
   },
+  {
+    label: '📋  Jobs',
+    value: 'jobs',
+    description: 'Follow, cancel and re-run long-running commands'
+  },
+  {
+    label: '🕘  History',
+    value: 'history',
+    description: 'Browse, re-run and edit previously run commands'
+  },
   {
     label: '🧩  Plugins',
     value: 'plugins',
@@ -113,10 +125,18 @@ const MENU_ITEM_NAMES: Record<string, string> = {
   alias: 'Alias Manager',
   metadata: 'Metadata Tools',
   run: 'Run Tools',
+  jobs: 'Jobs',
+  history: 'History',
   plugins: 'Plugins',
   settings: 'Settings'
 };
 
+// Map of panel names recorded in the command history to their menu item values
+const PANEL_MENU_ITEMS: Record<string, string> = {
+  RunTools: 'run',
+  MetadataTools: 'metadata'
+};
+
 export const MainMenu = () => {
   const [selectedItem, setSelectedItem] = useState<string | null>(null);
   const [showSplash, setShowSplash] = useState<boolean>(true);
@@ -124,6 +144,8 @@ export const MainMenu = () => {
   const [showContent, setShowContent] = useState<boolean>(false);
   const [transitionComplete, setTransitionComplete] = useState<boolean>(false);
   const [showShortcuts, setShowShortcuts] = useState<boolean>(false);
+  // Form values to open the selected panel with (set when editing a command from History)
+  const [initialForm, setInitialForm] = useState<Record<string, string> | undefined>(undefined);
   const { exit } = useApp();
   const { setContextualHelp } = useHelp();
   
@@ -273,6 +295,7 @@ export const MainMenu = () => {
                 exit();
                 return;
               }
+              setInitialForm(undefined);
               setSelectedItem(item.value);
             }}
             itemComponent={({ isSelected = false, label = '' }) => {
@@ -302,9 +325,21 @@ export const MainMenu = () => {
       case 'alias':
         return <AliasManager onBack={() => setSelectedItem(null)} />;
       case 'metadata':
-        return <MetadataTools onBack={() => setSelectedItem(null)} />;
+        return <MetadataTools onBack={() => setSelectedItem(null)} initialForm={initialForm} />;
       case 'run':
-        return <RunTools onBack={() => setSelectedItem(null)} />;
+        return <RunTools onBack={() => setSelectedItem(null)} initialForm={initialForm} />;
+      case 'jobs':
+        return <JobsPanel onBack={() => setSelectedItem(null)} />;
+      case 'history':
+        return (
+          <HistoryPanel
+            onBack={() => setSelectedItem(null)}
+            onOpenInPanel={(entry) => {
+              setInitialForm(entry.params);
+              setSelectedItem(PANEL_MENU_ITEMS[entry.panel] || null);
+            }}
+          />
+        );
       case 'plugins':
         return <PluginsPanel onBack={() => setSelectedItem(null)} />;
       case 'settings':
@@ -2,14 +2,12 @@ import React, { useState, useEffect } from 'react';
 import { Box, Text, useInput, useApp, Newline } from 'ink';
 import SelectInput from 'ink-select-input';
 import chalk from 'chalk';
-import { execa } from 'execa';
 import Spinner from 'ink-spinner';
 import { TextInput } from '../common/TextInput';
+import { listAliases, streamSfCommand } from '../../utils/sfCli';
+import type { SfAlias } from '../../types/sf';
 
-type Alias = {
-  alias: string;
-  value: string;
-};
+type Alias = SfAlias;
 
 type AliasManagerProps = {
   onBack: () => void;
@@ -36,20 +34,8 @@ export const AliasManager = ({ onBack }: AliasManagerProps) => {
       setError('');
       
       // Run sf alias list command
-      const { stdout } = await execa('sf', ['alias', 'list', '--json']);
-      const result = JSON.parse(stdout);
-      
-      if (result.status === 0 && result.result) {
-        // Convert the result to an array of aliases
-        const aliasList = Object.entries(result.result).map(([alias, value]) => ({
-          alias,
-          value: String(value)
-        }));
-        
-        setAliases(aliasList);
-      } else {
-        setAliases([]);
-      }
+      const aliasList = await listAliases({ context: 'AliasManager.loadAliases' });
+      setAliases(aliasList);
     } catch (err) {
       setError(`Failed to load aliases: ${err instanceof Error ? err.message : String(err)}`);
       setAliases([]);
@@ -62,19 +48,12 @@ export const AliasManager = ({ onBack }: AliasManagerProps) => {
     try {
       setOutput('');
       
-      const process = execa('sf', [command, ...args]);
-      
       // Stream output
-      process.stdout?.on('data', (data) => {
-        setOutput(prev => prev + data.toString());
-      });
-      
-      process.stderr?.on('data', (data) => {
-        setOutput(prev => prev + data.toString());
+      await streamSfCommand([command, ...args], {
+        context: 'AliasManager.runCommand',
+        onOutput: (chunk) => setOutput(prev => prev + chunk),
       });
       
-      await process;
-      
       // Refresh aliases after command completes
       await loadAliases();
       return true;
@@ -2,11 +2,13 @@ import React, { useState, useEffect } from 'react';
 import { Box, Text, useInput, useApp, Newline } from 'ink';
 import SelectInput from 'ink-select-input';
 import chalk from 'chalk';
-import { execa } from 'execa';
 import Spinner from 'ink-spinner';
 import open from 'open';
 import { TextInput } from '../common/TextInput';
 import { SelectInputItem } from 'ink-select-input';
+import { streamSfCommand, formatSfCommand } from '../../utils/sfCli';
+import { copyToClipboard } from '../../utils/clipboard';
+import CommandPreview from '../common/CommandPreview';
 
 interface AuthMethodItem extends SelectInputItem {
   description: string;
@@ -52,6 +54,50 @@ const AUTH_METHODS = [
   },
 ];
 
+/**
+ * Build the sf arguments for an authentication method from the form values
+ */
+export const buildAuthArgs = (
+  method: AuthMethod,
+  values: { alias: string; username: string }
+): string[] => {
+  const { alias, username } = values;
+  const args = ['org', 'login'];
+  
+  switch (method) {
+    case 'web':
+      args.push('web', '--browser', 'chrome');
+      if (alias) args.push('--alias', alias);
+      if (username) args.push('--username', username);
+      break;
+      
+    case 'jwt':
+      // This is a simplified example - in a real app, you'd collect these values
+      args.push('jwt', '--username', username, '--jwt-key-file', 'path/to/server.key');
+      if (alias) args.push('--alias', alias);
+      break;
+      
+    case 'device':
+      args.push('device', '--browser', 'chrome');
+      if (alias) args.push('--alias', alias);
+      break;
+      
+    case 'token':
+      // This would be collected from user input
+      args.push('access-token', '--instance-url', 'https://login.salesforce.com', '--access-token', 'YOUR_TOKEN');
+      if (alias) args.push('--alias', alias);
+      break;
+      
+    case 'soap':
+      // This would be collected from user input
+      args.push('soap', '--username', username, '--password', 'YOUR_PASSWORD');
+      if (alias) args.push('--alias', alias);
+      break;
+  }
+  
+  return args;
+};
+
 export const AuthManager = ({ onBack }: AuthManagerProps) => {
   const [step, setStep] = useState<'method' | 'input' | 'authenticating' | 'success' | 'error'>('method');
   const [selectedMethod, setSelectedMethod] = useState<AuthMethod>('web');
@@ -62,6 +108,19 @@ export const AuthManager = ({ onBack }: AuthManagerProps) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [authUrl, setAuthUrl] = useState('');
   const [deviceCode, setDeviceCode] = useState('');
+  // Method under the cursor in the method list, previewed before it is chosen
+  const [highlightedMethod, setHighlightedMethod] = useState<AuthMethod>('web');
+  const [copyNote, setCopyNote] = useState('');
+  
+  const previewArgs = buildAuthArgs(step === 'method' ? highlightedMethod : selectedMethod, {
+    alias,
+    username,
+  });
+  
+  const copyCommand = () => {
+    const copied = copyToClipboard(formatSfCommand(previewArgs));
+    setCopyNote(copied ? 'Copied to clipboard' : 'Clipboard is not available outside a terminal');
+  };
 
   useInput((input, key) => {
     if (key.escape) {
@@ -70,6 +129,13 @@ export const AuthManager = ({ onBack }: AuthManagerProps) => {
       } else {
         setStep('method');
       }
+      setCopyNote('');
+      return;
+    }
+    
+    // The method list has no text fields, so a plain key can copy the command
+    if (step === 'method' && input === 'c') {
+      copyCommand();
     }
   });
 
@@ -79,45 +145,9 @@ export const AuthManager = ({ onBack }: AuthManagerProps) => {
     setError('');
     
     try {
-      const args = ['org', 'login'];
-      let process;
-      
-      switch (selectedMethod) {
-        case 'web':
-          args.push('web', '--browser', 'chrome');
-          if (alias) args.push('--alias', alias);
-          if (username) args.push('--username', username);
-          break;
-          
-        case 'jwt':
-          // This is a simplified example - in a real app, you'd collect these values
-          args.push('jwt', '--username', username, '--jwt-key-file', 'path/to/server.key');
-          if (alias) args.push('--alias', alias);
-          break;
-          
-        case 'device':
-          args.push('device', '--browser', 'chrome');
-          if (alias) args.push('--alias', alias);
-          break;
-          
-        case 'token':
-          // This would be collected from user input
-          args.push('access-token', '--instance-url', 'https://login.salesforce.com', '--access-token', 'YOUR_TOKEN');
-          if (alias) args.push('--alias', alias);
-          break;
-          
-        case 'soap':
-          // This would be collected from user input
-          args.push('soap', '--username', username, '--password', 'YOUR_PASSWORD');
-          if (alias) args.push('--alias', alias);
-          break;
-      }
-      
-      process = execa('sf', args);
+      const args = buildAuthArgs(selectedMethod, { alias, username });
       
-      // Handle output
-      process.stdout?.on('data', (data) => {
-        const output = data.toString();
+      const handleStdout = (output: string) => {
         setOutput(prev => prev + output);
         
         // Handle web login URL
@@ -137,17 +167,23 @@ export const AuthManager = ({ onBack }: AuthManagerProps) => {
           }
           if (output.includes('code:')) {
             const codeMatch = output.match(/code:\s*([^\s]+)/);
-            if (codeMatch) setDeviceCode(codeMatch[1]);
+            if (codeMatch?.[1]) setDeviceCode(codeMatch[1]);
           }
         }
-      });
+      };
       
-      process.stderr?.on('data', (data) => {
-        setOutput(prev => prev + data.toString());
+      // Handle output
+      await streamSfCommand(args, {
+        context: 'AuthManager.startAuthFlow',
+        onOutput: (output, stream) => {
+          if (stream === 'stdout') {
+            handleStdout(output);
+          } else {
+            setOutput(prev => prev + output);
+          }
+        },
       });
       
-      await process;
-      
       // If we get here, authentication was successful
       setStep('success');
     } catch (error) {
@@ -169,6 +205,10 @@ export const AuthManager = ({ onBack }: AuthManagerProps) => {
             ...method,
             key: method.value,
           })) as AuthMethodItem[]}
+          onHighlight={(item) => {
+            setHighlightedMethod(item.value as AuthMethod);
+            setCopyNote('');
+          }}
           onSelect={(item: AuthMethodItem) => {
             setSelectedMethod(item.value as AuthMethod);
             if (item.requiresInput) {
@@ -188,7 +228,9 @@ export const AuthManager = ({ onBack }: AuthManagerProps) => {
         />
       </Box>
       
-      <Text color="gray" italic>Use arrow keys to navigate, Enter to select, ESC to go back</Text>
+      <CommandPreview args={previewArgs} note={copyNote} />
+      
+      <Text color="gray" italic>Use arrow keys to navigate, Enter to select, c to copy the command, ESC to go back</Text>
     </Box>
   );
 
@@ -221,15 +263,19 @@ export const AuthManager = ({ onBack }: AuthManagerProps) => {
           {/* Additional fields would be rendered here based on auth method */}
           
           <Box flexDirection="column" marginTop={1}>
+            <CommandPreview args={previewArgs} note={copyNote} />
             <SelectInput
               items={[
                 { label: 'Authenticate', value: 'auth' },
+                { label: 'Copy Command', value: 'copy' },
                 { label: 'Back', value: 'back' },
               ]}
               onSelect={(item) => {
                 if (item.value === 'auth') {
                   setStep('authenticating');
                   startAuthFlow();
+                } else if (item.value === 'copy') {
+                  copyCommand();
                 } else {
                   setStep('method');
                 }
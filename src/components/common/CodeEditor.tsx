@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+
+type CodeEditorProps = {
+  value: string;
+  onChange: (value: string) => void;
+  /**
+   * Number of lines shown at once; the view scrolls to follow the cursor
+   * Default: 10
+   */
+  height?: number;
+  focus?: boolean;
+  /**
+   * Line to mark as having a problem (e.g. a compile error), starting at 1
+   */
+  errorLine?: number | undefined;
+  /**
+   * Spaces inserted by Tab. Tab is left to the parent when undefined.
+   */
+  tabSize?: number;
+};
+
+type Cursor = {
+  line: number;
+  column: number;
+};
+
+/**
+ * Multi-line text editor with line numbers.
+ * Enter inserts a new line; arrows, Page Up/Down and Ctrl+A/Ctrl+E move the cursor.
+ */
+export const CodeEditor = ({
+  value,
+  onChange,
+  height = 10,
+  focus = true,
+  errorLine,
+  tabSize,
+}: CodeEditorProps) => {
+  const lines = value.split('\n');
+  const [cursor, setCursor] = useState<Cursor>(() => ({
+    line: lines.length - 1,
+    column: (lines[lines.length - 1] || '').length,
+  }));
+  const [scrollTop, setScrollTop] = useState(0);
+
+  // Keep the cursor inside the text when it is replaced from outside
+  const line = Math.min(cursor.line, lines.length - 1);
+  const column = Math.min(cursor.column, (lines[line] || '').length);
+
+  // Scroll so the cursor stays visible
+  useEffect(() => {
+    if (line < scrollTop) {
+      setScrollTop(line);
+    } else if (line >= scrollTop + height) {
+      setScrollTop(line - height + 1);
+    }
+  }, [line, scrollTop, height]);
+
+  const update = (newLines: string[], newCursor: Cursor) => {
+    onChange(newLines.join('\n'));
+    setCursor(newCursor);
+  };
+
+  useInput(
+    (input, key) => {
+      if (key.escape || (key.ctrl && input === 'c') || (key.tab && tabSize === undefined)) {
+        return;
+      }
+
+      const current = lines[line] || '';
+      const newLines = [...lines];
+
+      if (key.return) {
+        // Keep the indentation of the current line
+        const indent = current.match(/^\s*/)?.[0] || '';
+        newLines.splice(line, 1, current.slice(0, column), indent + current.slice(column));
+        update(newLines, { line: line + 1, column: indent.length });
+      } else if (key.upArrow) {
+        setCursor({ line: Math.max(0, line - 1), column: cursor.column });
+      } else if (key.downArrow) {
+        setCursor({ line: Math.min(lines.length - 1, line + 1), column: cursor.column });
+      } else if (key.pageUp) {
+        setCursor({ line: Math.max(0, line - height), column: cursor.column });
+      } else if (key.pageDown) {
+        setCursor({ line: Math.min(lines.length - 1, line + height), column: cursor.column });
+      } else if (key.leftArrow) {
+        if (column > 0) {
+          setCursor({ line, column: column - 1 });
+        } else if (line > 0) {
+          setCursor({ line: line - 1, column: (lines[line - 1] || '').length });
+        }
+      } else if (key.rightArrow) {
+        if (column < current.length) {
+          setCursor({ line, column: column + 1 });
+        } else if (line < lines.length - 1) {
+          setCursor({ line: line + 1, column: 0 });
+        }
+      } else if (key.ctrl && input === 'a') {
+        setCursor({ line, column: 0 });
+      } else if (key.ctrl && input === 'e') {
+        setCursor({ line, column: current.length });
+      } else if (key.backspace || key.delete) {
+        if (column > 0) {
+          newLines[line] = current.slice(0, column - 1) + current.slice(column);
+          update(newLines, { line, column: column - 1 });
+        } else if (line > 0) {
+          // Join with the previous line
+          const previous = lines[line - 1] || '';
+          newLines.splice(line - 1, 2, previous + current);
+          update(newLines, { line: line - 1, column: previous.length });
+        }
+      } else if (key.tab) {
+        const spaces = ' '.repeat(tabSize || 0);
+        newLines[line] = current.slice(0, column) + spaces + current.slice(column);
+        update(newLines, { line, column: column + spaces.length });
+      } else if (input.length > 0 && !key.ctrl && !key.meta) {
+        // Pasted text may span several lines
+        const inserted = (current.slice(0, column) + input.replace(/\r\n?/g, '\n')).split('\n');
+        const lastInserted = inserted[inserted.length - 1] || '';
+        inserted[inserted.length - 1] = lastInserted + current.slice(column);
+        newLines.splice(line, 1, ...inserted);
+        update(newLines, { line: line + inserted.length - 1, column: lastInserted.length });
+      }
+    },
+    { isActive: focus }
+  );
+
+  const gutterWidth = String(lines.length).length;
+  const visibleLines = lines.slice(scrollTop, scrollTop + height);
+
+  return (
+    <Box flexDirection="column">
+      {visibleLines.map((text, index) => {
+        const lineIndex = scrollTop + index;
+        const isCursorLine = focus && lineIndex === line;
+        const hasError = errorLine === lineIndex + 1;
+
+        return (
+          <Box key={lineIndex}>
+            <Text color={hasError ? 'red' : 'gray'}>
+              {`${String(lineIndex + 1).padStart(gutterWidth)}${hasError ? '!' : ' '}`}
+            </Text>
+            {isCursorLine ? (
+              <Text>
+                {text.slice(0, column)}
+                <Text inverse>{text[column] || ' '}</Text>
+                {text.slice(column + 1)}
+              </Text>
+            ) : (
+              <Text>{text || ' '}</Text>
+            )}
+          </Box>
+        );
+      })}
+      {lines.length > height && (
+        <Text color="gray">
+          {`Line ${line + 1} of ${lines.length}`}
+        </Text>
+      )}
+    </Box>
+  );
+};
+
+export default CodeEditor;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { useTheme } from '../../themes';
+import { formatSfCommand } from '../../utils/sfCli';
+
+type CommandPreviewProps = {
+  /**
+   * Arguments of the sf command the form will run
+   */
+  args: string[];
+  
+  /**
+   * Short status line shown under the command (e.g. "Copied to clipboard")
+   */
+  note?: string | undefined;
+};
+
+/**
+ * Shows the sf command equivalent to the current form values, so the
+ * command can be learned, copied or run outside the TUI
+ */
+const CommandPreview: React.FC<CommandPreviewProps> = ({ args, note }) => {
+  const theme = useTheme();
+  
+  return (
+    <Box flexDirection="column" marginBottom={1}>
+      <Text color="gray">Equivalent command:</Text>
+      <Text color={theme.colors.info}>$ {formatSfCommand(args)}</Text>
+      {note && <Text color="gray" italic>{note}</Text>}
+    </Box>
+  );
+};
+
+export default CommandPreview;
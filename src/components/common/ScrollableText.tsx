@@ -0,0 +1,69 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+
+type ScrollableTextProps = {
+  content: string;
+  /**
+   * Number of lines shown at once
+   * Default: 10
+   */
+  height?: number;
+  focus?: boolean;
+  /**
+   * Color lines that match, e.g. debug statements in a log
+   */
+  highlight?: RegExp;
+};
+
+/**
+ * Read-only view of long text that scrolls with the arrow keys and Page Up/Down
+ */
+export const ScrollableText = ({ content, height = 10, focus = true, highlight }: ScrollableTextProps) => {
+  const lines = content.split('\n');
+  const maxScroll = Math.max(0, lines.length - height);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  // Start from the top when the content changes
+  useEffect(() => {
+    setScrollTop(0);
+  }, [content]);
+
+  useInput(
+    (input, key) => {
+      if (key.upArrow) {
+        setScrollTop(top => Math.max(0, top - 1));
+      } else if (key.downArrow) {
+        setScrollTop(top => Math.min(maxScroll, top + 1));
+      } else if (key.pageUp) {
+        setScrollTop(top => Math.max(0, top - height));
+      } else if (key.pageDown) {
+        setScrollTop(top => Math.min(maxScroll, top + height));
+      } else if (input === 'g') {
+        setScrollTop(0);
+      } else if (input === 'G') {
+        setScrollTop(maxScroll);
+      }
+    },
+    { isActive: focus }
+  );
+
+  const top = Math.min(scrollTop, maxScroll);
+
+  return (
+    <Box flexDirection="column">
+      {lines.slice(top, top + height).map((line, index) => (
+        <Text key={top + index} {...(highlight?.test(line) ? { color: 'cyan' } : {})} wrap="truncate-end">
+          {line || ' '}
+        </Text>
+      ))}
+      {lines.length > height && (
+        <Text color="gray">
+          {`Lines ${top + 1}-${Math.min(top + height, lines.length)} of ${lines.length}`}
+          {focus ? ' · ↑/↓ and PgUp/PgDn to scroll, g/G for top/bottom' : ''}
+        </Text>
+      )}
+    </Box>
+  );
+};
+
+export default ScrollableText;
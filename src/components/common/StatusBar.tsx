@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { Box, Text } from 'ink';
 import { useTheme } from '../../themes';
-import { execa } from 'execa';
+import { getConfigValue } from '../../utils/sfCli';
+import { logger } from '../../utils/logger';
+import { isDemoMode } from '../../utils/sfSimulator';
+import { useJobs } from '../../hooks/useJobs';
+import { useProductionOrg } from '../../hooks/useProductionGuard';
 import pkg from '../../../package.json';
 
 interface StatusBarProps {
@@ -9,15 +13,16 @@ interface StatusBarProps {
 }
 
 interface StatusInfo {
-  currentOrg?: string;
-  defaultOrg?: string;
-  devhubOrg?: string;
+  currentOrg?: string | undefined;
+  defaultOrg?: string | undefined;
+  devhubOrg?: string | undefined;
   version: string;
   time: string;
 }
 
 export const StatusBar: React.FC<StatusBarProps> = ({ width = process.stdout.columns || 100 }) => {
   const theme = useTheme();
+  const runningJobs = useJobs().filter(job => job.status === 'running').length;
   const [status, setStatus] = useState<StatusInfo>({
     currentOrg: undefined,
     defaultOrg: undefined,
@@ -25,6 +30,7 @@ export const StatusBar: React.FC<StatusBarProps> = ({ width = process.stdout.col
     version: pkg.version,
     time: new Date().toLocaleTimeString()
   });
+  const isProduction = useProductionOrg(status.defaultOrg);
 
   // Update time every second
   useEffect(() => {
@@ -42,15 +48,14 @@ export const StatusBar: React.FC<StatusBarProps> = ({ width = process.stdout.col
   useEffect(() => {
     const fetchOrgInfo = async () => {
       try {
+        // Silently fail - this is just a status bar
+        const options = { context: 'StatusBar', reportErrors: false };
+
         // Get default org
-        const { stdout: orgInfoJson } = await execa('sf', ['config', 'get', 'target-org', '--json']);
-        const orgInfo = JSON.parse(orgInfoJson);
-        const defaultOrg = orgInfo?.result?.[0]?.value;
+        const defaultOrg = await getConfigValue('target-org', options);
 
         // Get default devhub
-        const { stdout: devhubInfoJson } = await execa('sf', ['config', 'get', 'target-dev-hub', '--json']);
-        const devhubInfo = JSON.parse(devhubInfoJson);
-        const devhubOrg = devhubInfo?.result?.[0]?.value;
+        const devhubOrg = await getConfigValue('target-dev-hub', options);
 
         setStatus(prev => ({
           ...prev,
@@ -59,8 +64,7 @@ export const StatusBar: React.FC<StatusBarProps> = ({ width = process.stdout.col
           devhubOrg
         }));
       } catch (error) {
-        // Silently fail - this is just a status bar
-        console.error('Failed to get org info:', error);
+        logger.debug('Failed to get org info for status bar', { error });
       }
     };
 
@@ -80,9 +84,18 @@ export const StatusBar: React.FC<StatusBarProps> = ({ width = process.stdout.col
         <Text backgroundColor={theme.colors.primary} color={theme.colors.textInverse}>
           {` SF TUI v${status.version} `}
         </Text>
+        {isDemoMode() && (
+          <Text backgroundColor={theme.colors.warning} color={theme.colors.textInverse}>
+            {` DEMO `}
+          </Text>
+        )}
         {status.defaultOrg && (
-          <Text backgroundColor={theme.colors.secondary} color={theme.colors.textInverse}>
-            {` Org: ${status.defaultOrg} `}
+          <Text
+            backgroundColor={isProduction ? theme.colors.error : theme.colors.secondary}
+            color={theme.colors.textInverse}
+            bold={isProduction}
+          >
+            {` Org: ${status.defaultOrg}${isProduction ? ' · PRODUCTION' : ''} `}
           </Text>
         )}
         {status.devhubOrg && (
@@ -93,6 +106,11 @@ export const StatusBar: React.FC<StatusBarProps> = ({ width = process.stdout.col
       </Box>
       
       <Box>
+        {runningJobs > 0 && (
+          <Text backgroundColor={theme.colors.info} color={theme.colors.textInverse}>
+            {` Jobs: ${runningJobs} running `}
+          </Text>
+        )}
         <Text backgroundColor={theme.colors.warning} color={theme.colors.textInverse}>
           {` ?: Help `}
         </Text>
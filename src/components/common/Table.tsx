@@ -78,6 +78,22 @@ type TableProps<T> = {
    */
   highlightHover?: boolean;
   
+  /**
+   * Key of the row to highlight as selected
+   */
+  selectedKey?: string | number | undefined;
+  
+  /**
+   * Key of the column the data is sorted by, marked in the header
+   */
+  sortColumn?: string | undefined;
+  
+  /**
+   * Direction the data is sorted in
+   * @default 'asc'
+   */
+  sortDirection?: 'asc' | 'desc';
+  
   /**
    * Additional styles for the table container
    */
@@ -110,6 +126,9 @@ function Table<T>({
   bordered = true,
   striped = true,
   highlightHover = false,
+  selectedKey,
+  sortColumn,
+  sortDirection = 'asc',
   style = {},
   headerStyle = {},
   rowStyle = {},
@@ -155,7 +174,10 @@ function Table<T>({
             justifyContent={col.alignRight ? 'flex-end' : 'flex-start'}
             paddingX={1}
           >
-            <Text bold>{col.header}</Text>
+            <Text bold wrap="truncate-end" {...(col.key === sortColumn ? { color: theme.colors.primary } : {})}>
+              {col.header}
+              {col.key === sortColumn ? (sortDirection === 'desc' ? ' ▼' : ' ▲') : ''}
+            </Text>
           </Box>
         ))}
       </Box>
@@ -166,6 +188,8 @@ function Table<T>({
   const renderRow = (item: T, rowIndex: number) => {
     const key = getRowKey(item);
     const isEvenRow = rowIndex % 2 === 0;
+    const isSelected = selectedKey !== undefined && key === String(selectedKey);
+    const textProps = isSelected ? { color: theme.colors.primary, bold: true } : {};
     
     return (
       <Box
@@ -175,7 +199,7 @@ function Table<T>({
         borderBottom={bordered && rowIndex === data.length - 1 ? 'single' : undefined}
         borderColor={theme.colors.border}
         paddingX={bordered ? 1 : 0}
-        paddingY={0.5}
+        paddingY={bordered ? 0.5 : 0}
         style={{
           backgroundColor: striped && isEvenRow ? theme.colors.backgroundHover : 'transparent',
           ...rowStyle,
@@ -191,9 +215,9 @@ function Table<T>({
             style={cellStyle}
           >
             {col.truncate ? (
-              <Text>{String(col.render(item))}</Text>
+              <Text {...textProps} wrap="truncate-end">{col.render(item)}</Text>
             ) : (
-              <Text>{col.render(item)}</Text>
+              <Text {...textProps}>{col.render(item)}</Text>
             )}
           </Box>
         ))}
@@ -201,6 +225,15 @@ function Table<T>({
     );
   };
   
+  if (!bordered) {
+    return (
+      <Box flexDirection="column">
+        {renderHeader()}
+        {data.map((item, index) => renderRow(item, index))}
+      </Box>
+    );
+  }
+  
   return (
     <BorderBox 
       borderStyle={bordered ? 'single' : 'hidden'}
@@ -1,4 +1,6 @@
 export { default as TextInput } from './TextInput';
+export { default as CodeEditor } from './CodeEditor';
+export { default as ScrollableText } from './ScrollableText';
 export { default as Box, CustomBox, BorderBox } from './Box';
 export { default as Button } from './Button';
 export { default as Spinner } from './Spinner';
@@ -20,6 +22,7 @@ export { default as Badge } from './Badge';
 export { default as Table } from './Table';
 export { default as Card } from './Card';
 export { default as Divider } from './Divider';
+export { default as CommandPreview } from './CommandPreview';
 export { default as Collapsible } from './Collapsible';
 export { TreeView } from './TreeView';
 export { default as Transition } from './Transition';
@@ -0,0 +1,263 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import SelectInput from 'ink-select-input';
+import { ErrorBoundary } from '../common';
+import {
+  commandHistory,
+  HistoryEntry,
+  HistoryFilter,
+  HistoryStatus,
+} from '../../utils/commandHistory';
+import { jobManager } from '../../utils/jobManager';
+import { useProductionGuard } from '../../hooks/useProductionGuard';
+import { formatSfCommand } from '../../utils/sfCli';
+import { formatDuration, truncate } from '../../utils/helpers';
+
+type HistoryPanelProps = {
+  onBack: () => void;
+  /**
+   * Open the panel an entry was run from with the entry's form values
+   */
+  onOpenInPanel?: (entry: HistoryEntry) => void;
+};
+
+// Panels whose forms can be reopened from a history entry
+export const EDITABLE_PANELS: Record<string, string> = {
+  RunTools: 'Run Tools',
+  MetadataTools: 'Metadata Tools',
+};
+
+const STATUSES: HistoryStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+const STATUS_COLORS: Record<HistoryStatus, string> = {
+  succeeded: 'green',
+  failed: 'red',
+  cancelled: 'yellow',
+};
+
+const STATUS_ICONS: Record<HistoryStatus, string> = {
+  succeeded: '✓',
+  failed: '✗',
+  cancelled: '○',
+};
+
+// Number of entries listed at once
+const MAX_LISTED_ENTRIES = 50;
+
+// Move to the next value in a list of filter options, wrapping back to "all"
+const nextFilterValue = <T,>(values: T[], current: T | undefined): T | undefined => {
+  const index = current === undefined ? -1 : values.indexOf(current);
+  return index + 1 < values.length ? values[index + 1] : undefined;
+};
+
+export const HistoryPanel = ({ onBack, onOpenInPanel }: HistoryPanelProps) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>(() => commandHistory.getEntries());
+  const [filter, setFilter] = useState<HistoryFilter>({});
+  const [selectedEntry, setSelectedEntry] = useState<HistoryEntry | null>(null);
+  const [message, setMessage] = useState('');
+  const productionGuard = useProductionGuard();
+
+  // Keep the list up to date as commands finish
+  useEffect(() => commandHistory.subscribe(setEntries), []);
+
+  const panels = Array.from(new Set(entries.map(entry => entry.panel))).sort();
+  const orgs = Array.from(
+    new Set(entries.map(entry => entry.targetOrg).filter((org): org is string => !!org))
+  ).sort();
+  const filteredEntries = entries.filter(
+    entry =>
+      (!filter.panel || entry.panel === filter.panel) &&
+      (!filter.targetOrg || entry.targetOrg === filter.targetOrg) &&
+      (!filter.status || entry.status === filter.status)
+  );
+
+  // Replace one filter, removing it when it is back to "all"
+  const updateFilter = <K extends keyof HistoryFilter>(key: K, value: HistoryFilter[K]) => {
+    setFilter(prev => {
+      const { [key]: _removed, ...rest } = prev;
+      return value === undefined ? rest : { ...rest, [key]: value };
+    });
+  };
+
+  useInput((input, key) => {
+    if (productionGuard.dialog) {
+      // The confirmation dialog handles its own keys
+      return;
+    }
+    if (key.escape) {
+      if (selectedEntry) {
+        setSelectedEntry(null);
+        setMessage('');
+      } else {
+        onBack();
+      }
+      return;
+    }
+
+    if (selectedEntry) {
+      return;
+    }
+
+    // Cycle through filter values
+    switch (input) {
+      case 'p':
+        updateFilter('panel', nextFilterValue(panels, filter.panel));
+        break;
+      case 'o':
+        updateFilter('targetOrg', nextFilterValue(orgs, filter.targetOrg));
+        break;
+      case 's':
+        updateFilter('status', nextFilterValue(STATUSES, filter.status));
+        break;
+      case 'c':
+        setFilter({});
+        break;
+    }
+  });
+
+  const rerun = async (entry: HistoryEntry) => {
+    if (!(await productionGuard.confirm(entry.args))) {
+      setMessage('Not run: the org name was not confirmed.');
+      return;
+    }
+    jobManager.start(entry.args, {
+      origin: entry.panel,
+      ...(entry.params ? { params: entry.params } : {}),
+    });
+    setMessage('Started again as a background job. Follow it from the Jobs screen.');
+  };
+
+  const handleEntryAction = (action: string, entry: HistoryEntry) => {
+    switch (action) {
+      case 'rerun':
+        rerun(entry);
+        break;
+      case 'edit':
+        onOpenInPanel?.(entry);
+        break;
+      case 'back':
+        setSelectedEntry(null);
+        setMessage('');
+        break;
+    }
+  };
+
+  const renderFilters = () => (
+    <Box marginBottom={1}>
+      <Text color="gray">
+        Panel: <Text color="white">{filter.panel || 'all'}</Text>
+        {'  '}Org: <Text color="white">{filter.targetOrg || 'all'}</Text>
+        {'  '}Status: <Text color="white">{filter.status || 'all'}</Text>
+      </Text>
+    </Box>
+  );
+
+  const renderEntryList = () => (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text bold>Command History</Text>
+      </Box>
+
+      {renderFilters()}
+
+      {filteredEntries.length === 0 ? (
+        <Box marginBottom={1}>
+          <Text color="gray">
+            {entries.length === 0
+              ? 'No commands have been run yet.'
+              : 'No commands match the current filters.'}
+          </Text>
+        </Box>
+      ) : (
+        <Box marginBottom={1}>
+          <SelectInput
+            items={filteredEntries.slice(0, MAX_LISTED_ENTRIES).map(entry => ({
+              key: entry.id,
+              label: `${STATUS_ICONS[entry.status]} ${new Date(entry.startedAt).toLocaleString()}  ${truncate(formatSfCommand(entry.args), 70)}`,
+              value: entry.id,
+            }))}
+            onSelect={item => {
+              setSelectedEntry(filteredEntries.find(entry => entry.id === item.value) || null);
+            }}
+          />
+        </Box>
+      )}
+
+      <Text color="gray" italic>
+        Enter to inspect, p/o/s to filter by panel/org/status, c to clear filters, ESC to go back
+      </Text>
+    </Box>
+  );
+
+  const renderEntryDetails = (entry: HistoryEntry) => {
+    const canEdit = !!entry.params && !!EDITABLE_PANELS[entry.panel] && !!onOpenInPanel;
+    const actions = [
+      { label: 'Re-run', value: 'rerun' },
+      ...(canEdit ? [{ label: `Edit in ${EDITABLE_PANELS[entry.panel]}`, value: 'edit' }] : []),
+      { label: 'Back to History', value: 'back' },
+    ];
+
+    return (
+      <Box flexDirection="column">
+        <Box marginBottom={1}>
+          <Text bold>{formatSfCommand(entry.args)}</Text>
+        </Box>
+
+        <Box flexDirection="column" marginBottom={1}>
+          <Text>
+            <Text bold>Status: </Text>
+            <Text color={STATUS_COLORS[entry.status]}>{entry.status}</Text>
+            <Text color="gray">{` (exit code ${entry.exitCode})`}</Text>
+          </Text>
+          <Text>
+            <Text bold>Run: </Text>
+            {new Date(entry.startedAt).toLocaleString()} ({formatDuration(entry.durationMs)})
+          </Text>
+          <Text>
+            <Text bold>From: </Text>
+            {entry.panel}
+          </Text>
+          {entry.targetOrg && (
+            <Text>
+              <Text bold>Org: </Text>
+              {entry.targetOrg}
+            </Text>
+          )}
+        </Box>
+
+        <Box flexDirection="column" borderStyle="round" padding={1} marginBottom={1}>
+          <Text bold>Output:</Text>
+          <Text>{entry.output.trim() || 'No output'}</Text>
+        </Box>
+
+        {message && (
+          <Box marginBottom={1}>
+            <Text color="green">{message}</Text>
+          </Box>
+        )}
+
+        <SelectInput items={actions} onSelect={item => handleEntryAction(item.value, entry)} />
+
+        <Text color="gray" italic>
+          ESC to go back
+        </Text>
+      </Box>
+    );
+  };
+
+  return (
+    <Box flexDirection="column" padding={1}>
+      {productionGuard.dialog ||
+        (selectedEntry ? renderEntryDetails(selectedEntry) : renderEntryList())}
+    </Box>
+  );
+};
+
+// Export with ErrorBoundary
+export default function HistoryPanelWithErrorBoundary(props: HistoryPanelProps) {
+  return (
+    <ErrorBoundary componentName="HistoryPanel">
+      <HistoryPanel {...props} />
+    </ErrorBoundary>
+  );
+}
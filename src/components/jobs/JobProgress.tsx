@@ -0,0 +1,32 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { EnhancedProgressBar, MultiStageProgress } from '../common';
+import { CommandProgress, describeProgress } from '../../utils/progressParser';
+
+type JobProgressProps = {
+  progress: CommandProgress;
+  /**
+   * Show every stage instead of a single bar
+   */
+  detailed?: boolean;
+};
+
+/**
+ * Progress of a job, from the stages and counts parsed out of its output
+ */
+export const JobProgress = ({ progress, detailed = false }: JobProgressProps) => {
+  const summary = describeProgress(progress);
+
+  if (detailed) {
+    return (
+      <Box flexDirection="column">
+        <MultiStageProgress stages={progress.stages} width={40} animated={false} />
+        {summary && <Text color="gray">{summary}</Text>}
+      </Box>
+    );
+  }
+
+  return <EnhancedProgressBar value={progress.percent} label={summary || 'Progress'} width={40} />;
+};
+
+export default JobProgress;
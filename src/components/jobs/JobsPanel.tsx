@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import SelectInput from 'ink-select-input';
+import Spinner from 'ink-spinner';
+import { ErrorBoundary } from '../common';
+import { jobManager, Job, JobStatus } from '../../utils/jobManager';
+import { formatSfCommand } from '../../utils/sfCli';
+import { formatDuration, truncate } from '../../utils/helpers';
+import { useJobs } from '../../hooks/useJobs';
+import { useShortcutAction } from '../../context/KeyboardShortcuts';
+import { useProductionGuard } from '../../hooks/useProductionGuard';
+import { JobProgress } from './JobProgress';
+import { TimeoutPrompt } from './TimeoutPrompt';
+
+type JobsPanelProps = {
+  onBack: () => void;
+};
+
+// Number of output lines shown in the job details view
+const OUTPUT_TAIL_LINES = 15;
+
+const STATUS_COLORS: Record<JobStatus, string> = {
+  running: 'cyan',
+  succeeded: 'green',
+  failed: 'red',
+  cancelled: 'yellow',
+};
+
+const STATUS_ICONS: Record<JobStatus, string> = {
+  running: '●',
+  succeeded: '✓',
+  failed: '✗',
+  cancelled: '○',
+};
+
+// Time a job has been running, or how long it ran
+const getElapsed = (job: Job): string =>
+  formatDuration((job.finishedAt || new Date()).getTime() - job.startedAt.getTime());
+
+export const JobsPanel = ({ onBack }: JobsPanelProps) => {
+  const jobs = useJobs();
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const selectedJob = jobs.find(job => job.id === selectedJobId);
+  const productionGuard = useProductionGuard();
+
+  // Ctrl+X cancels the job being inspected
+  useShortcutAction(
+    'cancel',
+    selectedJob?.status === 'running' ? () => jobManager.cancel(selectedJob.id) : null
+  );
+
+  useInput((input, key) => {
+    if (productionGuard.dialog) {
+      // The confirmation dialog handles its own keys
+      return;
+    }
+    if (key.escape) {
+      if (selectedJobId) {
+        setSelectedJobId(null);
+      } else {
+        onBack();
+      }
+    }
+  });
+
+  const handleJobAction = async (action: string, job: Job) => {
+    switch (action) {
+      case 'cancel':
+        jobManager.cancel(job.id);
+        break;
+      case 'cancel-local':
+        jobManager.cancel(job.id, { cancelInOrg: false });
+        break;
+      case 'rerun': {
+        if (!(await productionGuard.confirm(job.args))) {
+          break;
+        }
+        const newJob = jobManager.rerun(job.id);
+        if (newJob) {
+          setSelectedJobId(newJob.id);
+        }
+        break;
+      }
+      case 'remove':
+        jobManager.remove(job.id);
+        setSelectedJobId(null);
+        break;
+      case 'back':
+        setSelectedJobId(null);
+        break;
+    }
+  };
+
+  const renderJobList = () => {
+    const hasFinishedJobs = jobs.some(job => job.status !== 'running');
+
+    return (
+      <Box flexDirection="column">
+        <Box marginBottom={1}>
+          <Text bold>Jobs</Text>
+        </Box>
+
+        {jobs.length === 0 ? (
+          <Box marginBottom={1}>
+            <Text color="gray">
+              No jobs yet. Deploys, retrieves, test runs and other long-running commands appear here.
+            </Text>
+          </Box>
+        ) : (
+          <Box marginBottom={1}>
+            <SelectInput
+              items={[
+                ...jobs.map(job => ({
+                  key: job.id,
+                  label: `${STATUS_ICONS[job.status]} ${job.label}`,
+                  value: job.id,
+                })),
+                ...(hasFinishedJobs
+                  ? [{ key: 'clear', label: 'Clear finished jobs', value: 'clear' }]
+                  : []),
+              ]}
+              onSelect={item => {
+                if (item.value === 'clear') {
+                  jobManager.clearFinished();
+                } else {
+                  setSelectedJobId(item.value);
+                }
+              }}
+              itemComponent={({ isSelected = false, label = '', value }: { isSelected?: boolean; label?: string; value?: string }) => {
+                // SelectInput passes the whole item, so the job is found by its id
+                const job = jobs.find(j => j.id === value);
+                return (
+                  <Box>
+                    <Text color={isSelected ? 'cyan' : job ? STATUS_COLORS[job.status] : 'white'}>
+                      {label}
+                    </Text>
+                    {job && (
+                      <Text color="gray">
+                        {`  ${job.status}${job.status === 'running' && job.progress ? ` ${job.progress.percent}%` : ''} · ${getElapsed(job)} · ${job.origin}`}
+                      </Text>
+                    )}
+                  </Box>
+                );
+              }}
+            />
+          </Box>
+        )}
+
+        <Text color="gray" italic>
+          Use arrow keys to navigate, Enter to inspect a job, ESC to go back
+        </Text>
+      </Box>
+    );
+  };
+
+  const renderJobDetails = (job: Job) => {
+    const outputLines = job.output.trimEnd().split('\n').slice(-OUTPUT_TAIL_LINES);
+    const actions = [
+      ...(job.status === 'running' ? [{ label: 'Cancel', value: 'cancel' }] : []),
+      ...(job.status === 'running' && job.deployId
+        ? [{ label: 'Cancel (leave deployment running in the org)', value: 'cancel-local' }]
+        : []),
+      { label: 'Re-run', value: 'rerun' },
+      ...(job.status !== 'running' ? [{ label: 'Remove', value: 'remove' }] : []),
+      { label: 'Back to Jobs', value: 'back' },
+    ];
+
+    return (
+      <Box flexDirection="column">
+        <Box marginBottom={1}>
+          <Text bold>{job.label}</Text>
+        </Box>
+
+        <Box flexDirection="column" marginBottom={1}>
+          <Text>
+            <Text bold>Command: </Text>
+            {truncate(formatSfCommand(job.args), 100)}
+          </Text>
+          <Text>
+            <Text bold>Status: </Text>
+            {job.status === 'running' && (
+              <Text color="cyan">
+                <Spinner type="dots" />{' '}
+              </Text>
+            )}
+            <Text color={STATUS_COLORS[job.status]}>{job.status}</Text>
+            {job.exitCode !== null && <Text color="gray">{` (exit code ${job.exitCode})`}</Text>}
+          </Text>
+          <Text>
+            <Text bold>Started: </Text>
+            {job.startedAt.toLocaleTimeString()} ({getElapsed(job)})
+          </Text>
+          <Text>
+            <Text bold>From: </Text>
+            {job.origin}
+          </Text>
+          {job.deployId && (
+            <Text>
+              <Text bold>Deploy ID: </Text>
+              {job.deployId}
+            </Text>
+          )}
+          {job.error && <Text color="red">{job.error}</Text>}
+        </Box>
+
+        {job.progress && (
+          <Box marginBottom={1}>
+            <JobProgress progress={job.progress} detailed />
+          </Box>
+        )}
+
+        <Box flexDirection="column" borderStyle="round" padding={1} marginBottom={1}>
+          <Text bold>Output:</Text>
+          <Text>{job.output ? outputLines.join('\n') : 'No output yet'}</Text>
+        </Box>
+
+        {job.status === 'running' && job.timedOut ? (
+          <TimeoutPrompt job={job} />
+        ) : (
+          <SelectInput items={actions} onSelect={item => handleJobAction(item.value, job)} />
+        )}
+
+        <Text color="gray" italic>
+          {job.status === 'running' ? 'Ctrl+X to cancel, ESC to go back' : 'ESC to go back'}
+        </Text>
+      </Box>
+    );
+  };
+
+  return (
+    <Box flexDirection="column" padding={1}>
+      {productionGuard.dialog || (selectedJob ? renderJobDetails(selectedJob) : renderJobList())}
+    </Box>
+  );
+};
+
+// Export with ErrorBoundary
+export default function JobsPanelWithErrorBoundary(props: JobsPanelProps) {
+  return (
+    <ErrorBoundary componentName="JobsPanel">
+      <JobsPanel {...props} />
+    </ErrorBoundary>
+  );
+}
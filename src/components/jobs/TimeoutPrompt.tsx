@@ -0,0 +1,52 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import SelectInput from 'ink-select-input';
+import { Job, jobManager } from '../../utils/jobManager';
+import { formatDuration } from '../../utils/helpers';
+
+type TimeoutPromptProps = {
+  job: Job;
+  /**
+   * Called after the job was moved to the background, e.g. to stop following it
+   */
+  onBackground?: () => void;
+  isFocused?: boolean;
+};
+
+/**
+ * Asks what to do with a job that is still running at its timeout
+ */
+export const TimeoutPrompt = ({ job, onBackground, isFocused = true }: TimeoutPromptProps) => (
+  <Box flexDirection="column" borderStyle="round" borderColor="yellow" paddingX={1} marginBottom={1}>
+    <Text color="yellow" bold>
+      ⏱ Still running after {formatDuration(job.timeout)}
+    </Text>
+    <Text color="gray">{job.label}</Text>
+    <Box marginTop={1}>
+      <SelectInput
+        isFocused={isFocused}
+        items={[
+          { label: `Keep waiting (another ${formatDuration(job.timeout)})`, value: 'wait' },
+          { label: 'Move to background (follow it from the Jobs screen)', value: 'background' },
+          { label: 'Cancel', value: 'cancel' },
+        ]}
+        onSelect={item => {
+          switch (item.value) {
+            case 'wait':
+              jobManager.keepWaiting(job.id);
+              break;
+            case 'background':
+              jobManager.moveToBackground(job.id);
+              onBackground?.();
+              break;
+            case 'cancel':
+              jobManager.cancel(job.id);
+              break;
+          }
+        }}
+      />
+    </Box>
+  </Box>
+);
+
+export default TimeoutPrompt;
@@ -2,11 +2,20 @@ import React, { useState, useEffect } from 'react';
 import { Box, Text, useInput, useApp, Newline } from 'ink';
 import SelectInput from 'ink-select-input';
 import chalk from 'chalk';
-import { execa } from 'execa';
 import Spinner from 'ink-spinner';
 import { TextInput } from '../common/TextInput';
+import CommandPreview from '../common/CommandPreview';
+import { copyToClipboard } from '../../utils/clipboard';
 import { ErrorBoundary, useErrors } from '../common';
 import { errorReporter, ErrorCategory, ErrorSeverity } from '../../utils';
+import { listOrgs, formatSfCommand } from '../../utils/sfCli';
+import { orgMetadata, sortFavoritesFirst } from '../../utils/orgMetadata';
+import { jobManager } from '../../utils/jobManager';
+import { useJob } from '../../hooks/useJobs';
+import { useProductionGuard, useProductionOrg } from '../../hooks/useProductionGuard';
+import { JobProgress } from '../jobs/JobProgress';
+import { TimeoutPrompt } from '../jobs/TimeoutPrompt';
+import { useShortcutAction } from '../../context/KeyboardShortcuts';
 
 type MetadataTool = {
   id: string;
@@ -16,10 +25,18 @@ type MetadataTool = {
   requiresSourceOrg?: boolean;
   requiresManifest?: boolean;
   requiresMetadata?: boolean;
+  /**
+   * Whether the CLI can check the command without changing the org (`--dry-run`)
+   */
+  supportsDryRun?: boolean;
 };
 
 type MetadataToolsProps = {
   onBack: () => void;
+  /**
+   * Form values to start with (e.g. loaded from the command history)
+   */
+  initialForm?: Record<string, string> | undefined;
 };
 
 const METADATA_TOOLS: MetadataTool[] = [
@@ -29,6 +46,7 @@ const METADATA_TOOLS: MetadataTool[] = [
     description: 'Deploy metadata to an org',
     requiresTargetOrg: true,
     requiresManifest: true,
+    supportsDryRun: true,
   },
   {
     id: 'retrieve',
@@ -42,6 +60,7 @@ const METADATA_TOOLS: MetadataTool[] = [
     label: 'Deploy Directory',
     description: 'Deploy all metadata from a directory',
     requiresTargetOrg: true,
+    supportsDryRun: true,
   },
   {
     id: 'retrieve-dir',
@@ -70,129 +89,160 @@ const METADATA_TOOLS: MetadataTool[] = [
   },
 ];
 
+type MetadataToolValues = {
+  targetOrg: string;
+  sourceOrg: string;
+  manifestFile: string;
+  metadata: string;
+  directory: string;
+};
+
+/**
+ * Build the sf arguments for a tool from the form values
+ */
+export const buildMetadataToolArgs = (
+  toolId: string,
+  values: MetadataToolValues,
+  dryRun = false
+): string[] => {
+  const args: string[] = [];
+  
+  switch (toolId) {
+    case 'deploy':
+      args.push('project', 'deploy', 'start', '--manifest', values.manifestFile);
+      if (values.targetOrg) args.push('--target-org', values.targetOrg);
+      break;
+      
+    case 'retrieve':
+      args.push('project', 'retrieve', 'start', '--manifest', values.manifestFile);
+      if (values.sourceOrg) args.push('--target-org', values.sourceOrg);
+      break;
+      
+    case 'deploy-dir':
+      args.push('project', 'deploy', 'start', '--source-dir', values.directory);
+      if (values.targetOrg) args.push('--target-org', values.targetOrg);
+      break;
+      
+    case 'retrieve-dir':
+      args.push('project', 'retrieve', 'start', '--output-dir', values.directory);
+      if (values.sourceOrg) args.push('--target-org', values.sourceOrg);
+      break;
+      
+    case 'validate':
+      args.push('project', 'deploy', 'validate', '--manifest', values.manifestFile);
+      if (values.targetOrg) args.push('--target-org', values.targetOrg);
+      break;
+      
+    case 'list':
+      args.push('org', 'list', 'metadata');
+      if (values.sourceOrg) args.push('--target-org', values.sourceOrg);
+      if (values.metadata) args.push('--metadata', values.metadata);
+      break;
+      
+    case 'describe':
+      args.push('org', 'describe', 'metadata');
+      if (values.sourceOrg) args.push('--target-org', values.sourceOrg);
+      break;
+  }
+  
+  if (dryRun) args.push('--dry-run');
+  return args;
+};
+
 type Org = {
   username: string;
+  orgId: string;
   isDefault: boolean;
   alias?: string;
   connectedStatus?: string;
   isScratch?: boolean;
 };
 
-export const MetadataTools = ({ onBack }: MetadataToolsProps) => {
+export const MetadataTools = ({ onBack, initialForm }: MetadataToolsProps) => {
   // Get access to the error handling system
   const { errors, dismissError } = useErrors();
-  const [selectedTool, setSelectedTool] = useState<MetadataTool | null>(null);
+  const [selectedTool, setSelectedTool] = useState<MetadataTool | null>(
+    METADATA_TOOLS.find(tool => tool.id === initialForm?.tool) || null
+  );
   const [isLoading, setIsLoading] = useState(false);
-  const [output, setOutput] = useState('');
   const [error, setError] = useState('');
-  const [targetOrg, setTargetOrg] = useState('');
-  const [sourceOrg, setSourceOrg] = useState('');
-  const [manifestFile, setManifestFile] = useState('manifest/package.xml');
-  const [metadata, setMetadata] = useState('');
-  const [directory, setDirectory] = useState('force-app/main/default');
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [targetOrg, setTargetOrg] = useState(initialForm?.targetOrg ?? '');
+  const [sourceOrg, setSourceOrg] = useState(initialForm?.sourceOrg ?? '');
+  const [manifestFile, setManifestFile] = useState(initialForm?.manifestFile ?? 'manifest/package.xml');
+  const [metadata, setMetadata] = useState(initialForm?.metadata ?? '');
+  const [directory, setDirectory] = useState(initialForm?.directory ?? 'force-app/main/default');
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [copyNote, setCopyNote] = useState('');
   const [orgs, setOrgs] = useState<Org[]>([]);
+  const activeJob = useJob(activeJobId);
+  const productionGuard = useProductionGuard();
+  const isProduction = useProductionOrg(selectedTool?.requiresTargetOrg ? targetOrg : null);
+  
+  // Ctrl+X cancels the command started from this panel
+  useShortcutAction(
+    'cancel',
+    activeJob?.status === 'running' ? () => jobManager.cancel(activeJob.id) : null
+  );
 
   // Load orgs from SF CLI
-  const loadOrgs = async () => {
+  const loadOrgs = async (): Promise<Org[]> => {
     try {
       setIsLoading(true);
-      const { stdout } = await execa('sf', ['org', 'list', '--json']);
-      
-      // Parse the JSON output
-      const result = JSON.parse(stdout);
-      
-      if (result.status === 0 && result.result && Array.isArray(result.result.nonScratchOrgs)) {
-        // Return both scratch and non-scratch orgs
-        const allOrgs = [
-          ...(result.result.nonScratchOrgs || []).map((org: any) => ({
-            username: org.username,
-            isDefault: org.isDefaultUsername || false,
-            alias: org.alias || '',
-            connectedStatus: org.connectedStatus || '',
-          })),
-          ...(result.result.scratchOrgs || []).map((org: any) => ({
-            username: org.username,
-            isDefault: org.isDefaultUsername || false,
-            alias: org.alias || '',
-            connectedStatus: org.connectedStatus || '',
-            isScratch: true,
-          })),
-        ];
-        
-        return allOrgs;
-      }
-      
-      errorReporter.reportError('Failed to load orgs', {
-        severity: ErrorSeverity.MEDIUM,
-        category: ErrorCategory.SYSTEM,
-        context: 'MetadataTools.loadOrgs',
-        details: { result },
-      });
+      const orgList = await listOrgs({ context: 'MetadataTools.loadOrgs' });
       
-      return [];
-    } catch (err) {
-      errorReporter.reportCommandError(
-        'Failed to load orgs from Salesforce CLI',
-        err instanceof Error ? err : new Error(String(err)),
-        { command: 'sf org list --json' }
-      );
+      // Return both scratch and non-scratch orgs, favorites first
+      return sortFavoritesFirst(orgList).map(org => ({
+        username: org.username,
+        orgId: org.orgId,
+        isDefault: org.isDefaultUsername || false,
+        alias: org.alias || '',
+        connectedStatus: org.connectedStatus || '',
+        ...(org.isScratch ? { isScratch: true } : {}),
+      }));
+    } catch {
+      // Failure has already been reported by the sf gateway
       return [];
     } finally {
       setIsLoading(false);
     }
   };
 
-  const runCommand = async (command: string, args: string[] = []) => {
-    try {
-      setIsProcessing(true);
-      setOutput('');
-      setError('');
-      
-      const process = execa('sf', [command, ...args]);
-      
-      // Stream output
-      process.stdout?.on('data', (data) => {
-        setOutput(prev => prev + data.toString());
-      });
-      
-      process.stderr?.on('data', (data) => {
-        setOutput(prev => prev + data.toString());
-      });
-      
-      await process;
-      return true;
-    } catch (err) {
-      const errorMessage = `Error: ${err instanceof Error ? err.message : String(err)}`;
-      setError(errorMessage);
-      
-      // Report error to the error reporting system
-      errorReporter.reportCommandError(
-        `Failed to execute Salesforce CLI command: sf ${command} ${args.join(' ')}`,
-        err instanceof Error ? err : new Error(String(err)),
-        { command, args }
-      );
-      
-      return false;
-    } finally {
-      setIsProcessing(false);
+  // Run the command as a background job so it survives leaving this panel
+  const runCommand = async (label: string, args: string[], params: Record<string, string> = {}) => {
+    setError('');
+    if (!(await productionGuard.confirm(args))) {
+      setError('Not run: the org name was not confirmed.');
+      return;
     }
+    const job = jobManager.start(args, { label, origin: 'MetadataTools', params });
+    setActiveJobId(job.id);
+  };
+
+  const formValues: MetadataToolValues = {
+    targetOrg,
+    sourceOrg,
+    manifestFile,
+    metadata,
+    directory,
+  };
+  const commandArgs = selectedTool ? buildMetadataToolArgs(selectedTool.id, formValues) : [];
+
+  const copyCommand = () => {
+    const copied = copyToClipboard(formatSfCommand(commandArgs));
+    setCopyNote(copied ? 'Copied to clipboard' : 'Clipboard is not available outside a terminal');
   };
 
   const handleToolSelect = (tool: MetadataTool) => {
     setSelectedTool(tool);
   };
 
-  const executeTool = async () => {
+  const executeTool = (dryRun = false) => {
     if (!selectedTool) return;
     
     try {
-      setIsProcessing(true);
-      setOutput('');
+      setActiveJobId(null);
       setError('');
-      
-      let command = 'project';
-      const args: string[] = [];
+      setCopyNote('');
       
       // Validate required fields
       if (selectedTool.requiresTargetOrg && !targetOrg) {
@@ -202,7 +252,6 @@ export const MetadataTools = ({ onBack }: MetadataToolsProps) => {
           undefined,
           { tool: selectedTool.id }
         );
-        setIsProcessing(false);
         return;
       }
       
@@ -213,7 +262,6 @@ export const MetadataTools = ({ onBack }: MetadataToolsProps) => {
           undefined,
           { tool: selectedTool.id }
         );
-        setIsProcessing(false);
         return;
       }
       
@@ -224,56 +272,14 @@ export const MetadataTools = ({ onBack }: MetadataToolsProps) => {
           undefined,
           { tool: selectedTool.id }
         );
-        setIsProcessing(false);
         return;
       }
       
-      switch (selectedTool.id) {
-        case 'deploy':
-          command = 'project';
-          args.push('deploy', 'start', '--manifest', manifestFile);
-          if (targetOrg) args.push('--target-org', targetOrg);
-          break;
-          
-        case 'retrieve':
-          command = 'project';
-          args.push('retrieve', 'start', '--manifest', manifestFile);
-          if (sourceOrg) args.push('--source-org', sourceOrg);
-          break;
-          
-        case 'deploy-dir':
-          command = 'project';
-          args.push('deploy', 'start', '--source-dir', directory);
-          if (targetOrg) args.push('--target-org', targetOrg);
-          break;
-          
-        case 'retrieve-dir':
-          command = 'project';
-          args.push('retrieve', 'start', '--output-dir', directory);
-          if (sourceOrg) args.push('--source-org', sourceOrg);
-          break;
-          
-        case 'validate':
-          command = 'project';
-          args.push('deploy', 'validate', '--manifest', manifestFile);
-          if (targetOrg) args.push('--target-org', targetOrg);
-          break;
-          
-        case 'list':
-          command = 'org';
-          args.push('list', 'metadata');
-          if (sourceOrg) args.push('--target-org', sourceOrg);
-          if (metadata) args.push('--metadata', metadata);
-          break;
-          
-        case 'describe':
-          command = 'org';
-          args.push('describe', 'metadata');
-          if (sourceOrg) args.push('--target-org', sourceOrg);
-          break;
-      }
+      // Form values, kept in the command history so the form can be reopened
+      const params = { tool: selectedTool.id, ...formValues };
+      const label = dryRun ? `${selectedTool.label} (dry run)` : selectedTool.label;
       
-      await runCommand(command, args);
+      runCommand(label, buildMetadataToolArgs(selectedTool.id, formValues, dryRun), params);
     } catch (err) {
       const errorMessage = `Failed to execute ${selectedTool.label}: ${err instanceof Error ? err.message : String(err)}`;
       setError(errorMessage);
@@ -287,8 +293,6 @@ export const MetadataTools = ({ onBack }: MetadataToolsProps) => {
         details: { tool: selectedTool },
         userAction: 'Check the command parameters and try again.'
       });
-    } finally {
-      setIsProcessing(false);
     }
   };
 
@@ -303,6 +307,10 @@ export const MetadataTools = ({ onBack }: MetadataToolsProps) => {
   }, []);
   
   useInput((input, key) => {
+    if (productionGuard.dialog) {
+      // The confirmation dialog handles its own keys
+      return;
+    }
     if (key.escape) {
       if (selectedTool) {
         setSelectedTool(null);
@@ -352,12 +360,14 @@ export const MetadataTools = ({ onBack }: MetadataToolsProps) => {
         <Box flexDirection="column" marginTop={1}>
           {selectedTool.requiresTargetOrg && (
             <Box marginBottom={1} flexDirection="column">
-              <Text>Target Org:</Text>
+              <Text>
+                Target Org:{isProduction && <Text bold color="red"> PRODUCTION</Text>}
+              </Text>
               {orgs.length > 0 ? (
                 <Box marginTop={1}>
                   <SelectInput
                     items={orgs.map(org => ({
-                      label: `${org.username}${org.alias ? ` (${org.alias})` : ''}${org.isDefault ? ' [default]' : ''}`,
+                      label: `${orgMetadata.get(org.orgId).favorite ? '♥ ' : ''}${org.username}${org.alias ? ` (${org.alias})` : ''}${org.isDefault ? ' [default]' : ''}`,
                       value: org.username
                     }))}
                     onSelect={(item) => setTargetOrg(item.value)}
@@ -387,7 +397,7 @@ export const MetadataTools = ({ onBack }: MetadataToolsProps) => {
                 <Box marginTop={1}>
                   <SelectInput
                     items={orgs.map(org => ({
-                      label: `${org.username}${org.alias ? ` (${org.alias})` : ''}${org.isDefault ? ' [default]' : ''}`,
+                      label: `${orgMetadata.get(org.orgId).favorite ? '♥ ' : ''}${org.username}${org.alias ? ` (${org.alias})` : ''}${org.isDefault ? ' [default]' : ''}`,
                       value: org.username
                     }))}
                     onSelect={(item) => setSourceOrg(item.value)}
@@ -443,15 +453,23 @@ export const MetadataTools = ({ onBack }: MetadataToolsProps) => {
             </Box>
           )}
           
-          <Box marginTop={2} marginBottom={2}>
+          <Box flexDirection="column" marginTop={2} marginBottom={2}>
+            <CommandPreview args={commandArgs} note={copyNote} />
             <SelectInput
+              isFocused={!(activeJob?.status === 'running' && activeJob.timedOut)}
               items={[
                 { label: 'Run Command', value: 'run' },
+                ...(selectedTool.supportsDryRun ? [{ label: 'Dry Run', value: 'dry-run' }] : []),
+                { label: 'Copy Command', value: 'copy' },
                 { label: 'Back to Tools', value: 'back' },
               ]}
               onSelect={(item) => {
                 if (item.value === 'run') {
                   executeTool();
+                } else if (item.value === 'dry-run') {
+                  executeTool(true);
+                } else if (item.value === 'copy') {
+                  copyCommand();
                 } else {
                   setSelectedTool(null);
                 }
@@ -466,27 +484,50 @@ export const MetadataTools = ({ onBack }: MetadataToolsProps) => {
   };
 
   const renderOutput = () => {
-    if (!output && !error) return null;
+    if (!activeJob && !error) return null;
+    
+    const jobError =
+      activeJob?.status === 'failed'
+        ? `Error: ${activeJob.error}`
+        : activeJob?.status === 'cancelled'
+          ? `Cancelled.\n${activeJob.output}`
+          : '';
     
     return (
       <Box marginTop={2} flexDirection="column">
         <Box marginBottom={1}>
-          <Text bold>Output:</Text>
+          {activeJob?.status === 'running' ? (
+            <Text bold><Spinner type="dots" /> Running... <Text color="gray">(Ctrl+X to cancel · continues in Jobs if you leave this screen)</Text></Text>
+          ) : (
+            <Text bold>Output:</Text>
+          )}
         </Box>
+        {activeJob?.status === 'running' && activeJob.timedOut && (
+          <TimeoutPrompt job={activeJob} onBackground={() => setActiveJobId(null)} />
+        )}
+        {activeJob?.status === 'running' && activeJob.progress && (
+          <Box marginBottom={1}>
+            <JobProgress progress={activeJob.progress} />
+          </Box>
+        )}
         <Box borderStyle="round" padding={1} height={10} overflow="hidden">
-          <Text>{error || output}</Text>
+          <Text>{error || jobError || activeJob?.output}</Text>
         </Box>
       </Box>
     );
   };
 
+  if (productionGuard.dialog) {
+    return productionGuard.dialog;
+  }
+
   return (
-    <Box flexDirection="column" padding={1}>
-      {isProcessing ? (
-        <Box>
-          <Text><Spinner type="dots" /> Processing...</Text>
-        </Box>
-      ) : selectedTool ? (
+    <Box
+      flexDirection="column"
+      padding={1}
+      {...(isProduction ? { borderStyle: 'round' as const, borderColor: 'red' } : {})}
+    >
+      {selectedTool ? (
         <>
           {renderToolForm()}
           {renderOutput()}
@@ -0,0 +1,308 @@
+import React, { useState, useRef } from 'react';
+import { Box, Text, useInput } from 'ink';
+import SelectInput from 'ink-select-input';
+import { MultiStageProgress } from '../common';
+import { TextInput } from '../common/TextInput';
+import { getOrgType } from '../../utils/sfCli';
+import { jobManager } from '../../utils/jobManager';
+import { useShortcutAction } from '../../context/KeyboardShortcuts';
+import { useProductionGuard } from '../../hooks/useProductionGuard';
+import type { SfOrg } from '../../types/sf';
+
+export type BulkOrgAction = 'open' | 'logout' | 'delete' | 'alias';
+
+export type BulkOrgStatus = 'pending' | 'in_progress' | 'completed' | 'error';
+
+export interface BulkOrgResult {
+  org: SfOrg;
+  status: BulkOrgStatus;
+  error?: string;
+}
+
+const ACTION_LABELS: Record<BulkOrgAction, string> = {
+  open: 'Open in Browser',
+  logout: 'Log Out',
+  delete: 'Delete Scratch Orgs',
+  alias: 'Set Aliases',
+};
+
+/**
+ * The orgs an action applies to: only scratch orgs can be deleted
+ */
+export function getBulkTargets(action: BulkOrgAction, orgs: SfOrg[]): SfOrg[] {
+  return action === 'delete' ? orgs.filter(org => getOrgType(org) === 'scratch') : orgs;
+}
+
+/**
+ * Build the sf arguments that run an action on one org
+ */
+export function buildBulkOrgArgs(action: BulkOrgAction, org: SfOrg, alias = ''): string[] {
+  switch (action) {
+    case 'open':
+      return ['org', 'open', '--target-org', org.username];
+    case 'logout':
+      return ['org', 'logout', '--target-org', org.username, '--no-prompt'];
+    case 'delete':
+      return ['org', 'delete', 'scratch', '--target-org', org.username, '--no-prompt'];
+    case 'alias':
+      return ['alias', 'set', `${alias}=${org.username}`];
+  }
+}
+
+const orgName = (org: SfOrg): string => org.alias || org.username;
+
+type Step = 'pick' | 'alias' | 'confirm' | 'running' | 'done';
+
+type BulkOrgActionsProps = {
+  orgs: SfOrg[];
+  /**
+   * Called when leaving the panel; changed is true when orgs were logged out,
+   * deleted or renamed and the org list must be reloaded
+   */
+  onDone: (changed: boolean) => void;
+};
+
+/**
+ * Runs one action on several orgs, one org after another, and reports
+ * which of them succeeded.
+ */
+export const BulkOrgActions = ({ orgs, onDone }: BulkOrgActionsProps) => {
+  const [step, setStep] = useState<Step>('pick');
+  const [action, setAction] = useState<BulkOrgAction>('open');
+  const [aliases, setAliases] = useState<Record<string, string>>(() =>
+    Object.fromEntries(orgs.map(org => [org.username, org.alias || '']))
+  );
+  const [aliasIndex, setAliasIndex] = useState(0);
+  const [results, setResults] = useState<BulkOrgResult[]>([]);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  // Set when the run is cancelled, so the remaining orgs are skipped
+  const cancelled = useRef(false);
+  const productionGuard = useProductionGuard();
+
+  // Ctrl+X cancels the running command and skips the remaining orgs
+  useShortcutAction(
+    'cancel',
+    activeJobId
+      ? () => {
+          cancelled.current = true;
+          jobManager.cancel(activeJobId);
+        }
+      : null
+  );
+
+  const targets = getBulkTargets(action, orgs);
+
+  const updateResult = (index: number, update: Partial<BulkOrgResult>) => {
+    setResults(current => current.map((result, i) => (i === index ? { ...result, ...update } : result)));
+  };
+
+  const run = async (runAction: BulkOrgAction, runTargets: SfOrg[]) => {
+    cancelled.current = false;
+    setResults(runTargets.map(org => ({ org, status: 'pending' })));
+    setStep('running');
+
+    for (const [index, org] of runTargets.entries()) {
+      if (cancelled.current) {
+        break;
+      }
+      updateResult(index, { status: 'in_progress' });
+      const args = buildBulkOrgArgs(runAction, org, aliases[org.username]);
+      // Production orgs are only changed once their name is typed
+      if (!(await productionGuard.confirm(args))) {
+        updateResult(index, { status: 'error', error: 'Not confirmed' });
+        continue;
+      }
+      const job = jobManager.start(args, {
+        label: `${ACTION_LABELS[runAction]}: ${orgName(org)}`,
+        origin: 'BulkOrgActions',
+      });
+      setActiveJobId(job.id);
+
+      const finished = await jobManager.wait(job.id);
+      if (finished?.status === 'succeeded') {
+        updateResult(index, { status: 'completed' });
+      } else {
+        updateResult(index, {
+          status: 'error',
+          error: finished?.status === 'cancelled' ? 'Cancelled' : finished?.error || 'Command failed',
+        });
+      }
+    }
+
+    setActiveJobId(null);
+    setStep('done');
+  };
+
+  const choose = (chosen: BulkOrgAction) => {
+    setAction(chosen);
+    const chosenTargets = getBulkTargets(chosen, orgs);
+    if (chosenTargets.length === 0) {
+      return;
+    }
+    if (chosen === 'alias') {
+      setAliasIndex(0);
+      setStep('alias');
+    } else if (chosen === 'open') {
+      run(chosen, chosenTargets);
+    } else {
+      setStep('confirm');
+    }
+  };
+
+  useInput((input, key) => {
+    if (step === 'done' && (key.return || key.escape)) {
+      onDone(action !== 'open' && results.some(result => result.status === 'completed'));
+    } else if (key.escape) {
+      if (step === 'pick') {
+        onDone(false);
+      } else if (step === 'alias' || step === 'confirm') {
+        setStep('pick');
+      }
+    }
+  });
+
+  const heading = (
+    <Box marginBottom={1}>
+      <Text bold>
+        Bulk Actions: {orgs.length} org{orgs.length === 1 ? '' : 's'}
+      </Text>
+    </Box>
+  );
+
+  if (step === 'pick') {
+    const scratchCount = getBulkTargets('delete', orgs).length;
+    return (
+      <Box flexDirection="column">
+        {heading}
+        <Box marginBottom={1}>
+          <Text color="gray" wrap="truncate-end">{orgs.map(orgName).join(', ')}</Text>
+        </Box>
+        <SelectInput
+          items={[
+            { label: ACTION_LABELS.open, value: 'open' },
+            { label: ACTION_LABELS.logout, value: 'logout' },
+            ...(scratchCount > 0
+              ? [{ label: `${ACTION_LABELS.delete} (${scratchCount} of ${orgs.length})`, value: 'delete' }]
+              : []),
+            { label: ACTION_LABELS.alias, value: 'alias' },
+            { label: 'Cancel', value: 'cancel' },
+          ]}
+          onSelect={item => (item.value === 'cancel' ? onDone(false) : choose(item.value as BulkOrgAction))}
+        />
+        <Box marginTop={1}>
+          <Text color="gray">Actions run one org at a time · ESC to cancel</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  if (step === 'alias') {
+    const org = orgs[aliasIndex]!;
+    return (
+      <Box flexDirection="column">
+        {heading}
+        <Text>
+          Alias for <Text bold>{org.username}</Text> ({aliasIndex + 1} of {orgs.length}):
+        </Text>
+        <Box marginTop={1}>
+          <TextInput
+            key={org.username}
+            value={aliases[org.username] || ''}
+            onChange={alias => setAliases(current => ({ ...current, [org.username]: alias }))}
+            onSubmit={alias => {
+              if (alias && !/^\S+$/.test(alias)) {
+                return;
+              }
+              if (aliasIndex < orgs.length - 1) {
+                setAliasIndex(aliasIndex + 1);
+              } else {
+                // Orgs left without an alias, or whose alias is unchanged, are skipped
+                const renamed = orgs.filter(o => aliases[o.username] && aliases[o.username] !== (o.alias || ''));
+                if (renamed.length > 0) {
+                  run('alias', renamed);
+                } else {
+                  setStep('pick');
+                }
+              }
+            }}
+            validate={alias => !alias || /^\S+$/.test(alias) || 'Aliases cannot contain spaces'}
+          />
+        </Box>
+        <Box marginTop={1}>
+          <Text color="gray">Enter for the next org · leave empty to skip · ESC to go back</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  if (step === 'confirm') {
+    const skipped = orgs.length - targets.length;
+    return (
+      <Box flexDirection="column">
+        <Box marginBottom={1}>
+          <Text bold color="red">
+            ⚠️  {ACTION_LABELS[action]}: {targets.length} org{targets.length === 1 ? '' : 's'}
+          </Text>
+        </Box>
+        <Box flexDirection="column" marginBottom={1}>
+          {targets.map(org => (
+            <Text key={org.username}>  • {orgName(org)}</Text>
+          ))}
+          {skipped > 0 && <Text color="gray">  {skipped} org{skipped === 1 ? ' is' : 's are'} not scratch orgs and will be left alone</Text>}
+        </Box>
+        <Text>
+          {action === 'delete'
+            ? 'These scratch orgs will be PERMANENTLY deleted.'
+            : 'The CLI will forget these orgs until you log in again.'}
+        </Text>
+        <Box marginTop={1}>
+          <SelectInput
+            items={[
+              { label: '❌ Cancel', value: 'cancel' },
+              { label: `⚠️ Yes, ${ACTION_LABELS[action].toLowerCase()}`, value: 'confirm' },
+            ]}
+            onSelect={item => (item.value === 'confirm' ? run(action, targets) : setStep('pick'))}
+          />
+        </Box>
+      </Box>
+    );
+  }
+
+  if (productionGuard.dialog) {
+    return productionGuard.dialog;
+  }
+
+  const succeeded = results.filter(result => result.status === 'completed').length;
+  const failed = results.filter(result => result.status === 'error');
+
+  return (
+    <Box flexDirection="column">
+      {heading}
+      <MultiStageProgress
+        stages={results.map(result => ({
+          name: `${orgName(result.org)}${result.error ? ` - ${result.error}` : ''}`,
+          value: result.status === 'pending' || result.status === 'in_progress' ? 0 : 1,
+          maxValue: 1,
+          status: result.status,
+        }))}
+        showPercentages={false}
+        animated={false}
+      />
+      {step === 'running' ? (
+        <Text color="gray">
+          {ACTION_LABELS[action]} · Ctrl+X to cancel the remaining orgs
+        </Text>
+      ) : (
+        <Box flexDirection="column">
+          <Text color={failed.length > 0 ? 'yellow' : 'green'}>
+            {succeeded} succeeded, {failed.length} failed
+            {results.length > succeeded + failed.length ? `, ${results.length - succeeded - failed.length} skipped` : ''}
+          </Text>
+          <Text color="gray">Press Enter to return to the org list</Text>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default BulkOrgActions;
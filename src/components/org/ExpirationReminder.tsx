@@ -0,0 +1,85 @@
+import { useEffect } from 'react';
+import { config } from '../../config';
+import type { Config } from '../../config';
+import { listOrgs, cleanOrgList, getDaysUntilExpiration, isOrgExpired } from '../../utils/sfCli';
+import { useNotifications } from '../../context/NotificationContext';
+import type { SfOrg } from '../../types/sf';
+
+const describeExpiration = (org: SfOrg): string => {
+  const name = org.alias || org.username;
+  const days = getDaysUntilExpiration(org) ?? 0;
+  if (isOrgExpired(org)) return `${name} has expired`;
+  if (days === 0) return `${name} expires today`;
+  return `${name} expires in ${days} day${days === 1 ? '' : 's'}`;
+};
+
+/**
+ * Find the scratch orgs to warn about: expired ones and those expiring within the given days
+ */
+export function findExpiringOrgs(orgs: SfOrg[], warningDays: number, now: Date = new Date()): SfOrg[] {
+  return orgs.filter(org => {
+    const days = getDaysUntilExpiration(org, now);
+    return isOrgExpired(org, now) || (days !== undefined && days <= warningDays);
+  });
+}
+
+/**
+ * Checks the scratch orgs once at startup and warns about those that expire
+ * within `orgManager.expirationWarningDays` days or have expired.
+ */
+export const ExpirationReminder = () => {
+  const { showNotification, updateNotification } = useNotifications();
+
+  useEffect(() => {
+    const warningDays = config.get<Config['orgManager']>('orgManager')?.expirationWarningDays;
+    if (!warningDays) {
+      return;
+    }
+
+    listOrgs({ context: 'ExpirationReminder', all: true, reportErrors: false })
+      .then(orgs => {
+        const expiring = findExpiringOrgs(orgs, warningDays);
+        if (expiring.length === 0) {
+          return;
+        }
+
+        const expiredCount = expiring.filter(org => isOrgExpired(org)).length;
+        const notificationId = showNotification({
+          type: 'warning',
+          title: 'Scratch Orgs Expiring',
+          message: expiring.map(describeExpiration).join('\n'),
+          ...(expiredCount > 0
+            ? {
+                actions: [
+                  {
+                    label: 'Clean up expired orgs',
+                    action: () => {
+                      cleanOrgList({ context: 'ExpirationReminder' })
+                        .then(() =>
+                          updateNotification(notificationId, {
+                            type: 'success',
+                            message: `Removed ${expiredCount} expired scratch org${expiredCount === 1 ? '' : 's'}`,
+                            actions: [],
+                            autoDismiss: true,
+                            dismissAfter: 3000,
+                          })
+                        )
+                        .catch(() => {
+                          // Failure has already been reported by the sf gateway
+                        });
+                    },
+                  },
+                ],
+              }
+            : {}),
+        });
+      })
+      .catch(() => {
+        // The reminder is best effort; the Org Manager shows why orgs cannot be listed
+      });
+  }, []);
+
+  return null;
+};
+
+export default ExpirationReminder;
@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import { Card } from '../common';
+import { displayOrg } from '../../utils/sfCli';
+import { copyToClipboard } from '../../utils/clipboard';
+import { useTheme } from '../../themes';
+import { useShortcutAction } from '../../context/KeyboardShortcuts';
+import type { SfOrgDisplayResult } from '../../types/sf';
+
+export interface OrgDetailField {
+  key: keyof SfOrgDisplayResult;
+  label: string;
+  /**
+   * Grants access to the org: masked until revealed
+   */
+  secret?: boolean;
+}
+
+export const ORG_DETAIL_FIELDS: OrgDetailField[] = [
+  { key: 'username', label: 'Username' },
+  { key: 'id', label: 'Org ID' },
+  { key: 'instanceUrl', label: 'Instance URL' },
+  { key: 'apiVersion', label: 'API Version' },
+  { key: 'edition', label: 'Edition' },
+  { key: 'createdBy', label: 'Created By' },
+  { key: 'createdDate', label: 'Created' },
+  { key: 'expirationDate', label: 'Expires' },
+  { key: 'connectedStatus', label: 'Connected Status' },
+  { key: 'accessToken', label: 'Access Token', secret: true },
+  { key: 'sfdxAuthUrl', label: 'Auth URL', secret: true },
+];
+
+const MASK = '•'.repeat(16);
+
+/**
+ * Fields the org reported a value for, with the value as text
+ */
+export function getOrgDetailRows(details: SfOrgDisplayResult): Array<OrgDetailField & { value: string }> {
+  return ORG_DETAIL_FIELDS.flatMap(field => {
+    const value = details[field.key];
+    return value === undefined || value === null || value === '' ? [] : [{ ...field, value: String(value) }];
+  });
+}
+
+type OrgDetailsProps = {
+  /**
+   * Org (alias or username) whose details are shown
+   */
+  targetOrg: string;
+  onBack: () => void;
+};
+
+/**
+ * Details of an org from `sf org display --verbose`, one labeled field per
+ * line. Secrets stay masked until revealed and any field can be copied.
+ */
+export const OrgDetails = ({ targetOrg, onBack }: OrgDetailsProps) => {
+  const theme = useTheme();
+  const [details, setDetails] = useState<SfOrgDisplayResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [revealed, setRevealed] = useState<Set<string>>(new Set());
+  const [copyNote, setCopyNote] = useState('');
+
+  const loadDetails = () => {
+    setIsLoading(true);
+    setError('');
+    displayOrg(targetOrg, { context: 'OrgDetails.loadDetails', verbose: true })
+      .then(setDetails)
+      .catch(err => setError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setIsLoading(false));
+  };
+
+  useEffect(() => {
+    loadDetails();
+  }, [targetOrg]);
+
+  useShortcutAction('refresh', isLoading ? null : loadDetails);
+
+  const rows = details ? getOrgDetailRows(details) : [];
+  const selected = rows[Math.min(selectedIndex, rows.length - 1)];
+
+  useInput((input, key) => {
+    if (key.escape) {
+      onBack();
+    } else if (key.upArrow) {
+      setSelectedIndex(index => Math.max(0, index - 1));
+      setCopyNote('');
+    } else if (key.downArrow) {
+      setSelectedIndex(index => Math.min(rows.length - 1, index + 1));
+      setCopyNote('');
+    } else if (input === 'v' && selected?.secret) {
+      setRevealed(current => {
+        const next = new Set(current);
+        if (next.has(selected.key)) {
+          next.delete(selected.key);
+        } else {
+          next.add(selected.key);
+        }
+        return next;
+      });
+    } else if ((input === 'c' || key.return) && selected) {
+      const copied = copyToClipboard(selected.value);
+      setCopyNote(copied ? `Copied ${selected.label} to clipboard` : 'Clipboard is not available in this terminal');
+    }
+  });
+
+  if (isLoading && !details) {
+    return (
+      <Box>
+        <Text><Spinner type="dots" /> Loading details of {targetOrg}...</Text>
+      </Box>
+    );
+  }
+
+  return (
+    <Box flexDirection="column">
+      {error && (
+        <Box marginBottom={1}>
+          <Text color={theme.colors.error}>Error: {error}</Text>
+        </Box>
+      )}
+
+      {details && (
+        <Card
+          title={
+            <Text bold>
+              {details.alias || details.username}
+              {isLoading && <Text color="gray"> (refreshing...)</Text>}
+            </Text>
+          }
+          variant="outline"
+        >
+          <Box flexDirection="column">
+            {rows.map(row => {
+              const isSelected = row.key === selected?.key;
+              const masked = row.secret && !revealed.has(row.key);
+              return (
+                <Box key={row.key}>
+                  <Box width={20}>
+                    <Text color={isSelected ? theme.colors.primary : 'gray'} bold={isSelected}>
+                      {isSelected ? '› ' : '  '}{row.label}
+                    </Text>
+                  </Box>
+                  <Text wrap="truncate-end" dimColor={!!masked}>
+                    {masked ? MASK : row.value}
+                  </Text>
+                </Box>
+              );
+            })}
+          </Box>
+        </Card>
+      )}
+
+      {copyNote && (
+        <Box marginTop={1}>
+          <Text color="green">{copyNote}</Text>
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text color="gray">
+          ↑/↓: select | Enter/c: copy{selected?.secret ? ` | v: ${revealed.has(selected.key) ? 'hide' : 'reveal'}` : ''} | Ctrl+R: refresh | ESC: back
+        </Text>
+      </Box>
+    </Box>
+  );
+};
+
+export default OrgDetails;
@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import { ProgressBar } from '../common';
+import { config } from '../../config';
+import type { Config } from '../../config';
+import { listLimits } from '../../utils/sfCli';
+import { useTheme } from '../../themes';
+import { useShortcutAction } from '../../context/KeyboardShortcuts';
+import type { SfLimit } from '../../types/sf';
+
+export type LimitLevel = 'ok' | 'warning' | 'error';
+
+export type LimitThresholds = Config['orgManager']['limitThresholds'];
+
+const PAGE_SIZE = 12;
+
+/**
+ * Percentage of a limit in use, 0-100. Limits without a maximum count as unused.
+ */
+export function getLimitUsage(limit: SfLimit): number {
+  if (limit.max <= 0) {
+    return 0;
+  }
+  return Math.min(100, Math.max(0, ((limit.max - limit.remaining) / limit.max) * 100));
+}
+
+/**
+ * How close a limit is to running out, by the configured percentages
+ */
+export function getLimitLevel(limit: SfLimit, thresholds: LimitThresholds): LimitLevel {
+  const usage = getLimitUsage(limit);
+  if (usage >= thresholds.error) return 'error';
+  if (usage >= thresholds.warning) return 'warning';
+  return 'ok';
+}
+
+/**
+ * Order limits by how much of them is in use, most used first
+ */
+export function sortLimits(limits: SfLimit[]): SfLimit[] {
+  return [...limits].sort((a, b) => getLimitUsage(b) - getLimitUsage(a) || a.name.localeCompare(b.name));
+}
+
+type OrgLimitsProps = {
+  /**
+   * Org (alias or username) whose limits are shown
+   */
+  targetOrg: string;
+  onBack: () => void;
+};
+
+/**
+ * API and storage limits of an org, most used first, highlighted once they
+ * pass `orgManager.limitThresholds`. The refresh shortcut checks them again.
+ */
+export const OrgLimits = ({ targetOrg, onBack }: OrgLimitsProps) => {
+  const theme = useTheme();
+  const [thresholds] = useState<LimitThresholds>(
+    () => config.get<Config['orgManager']>('orgManager').limitThresholds
+  );
+  const [limits, setLimits] = useState<SfLimit[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [checkedAt, setCheckedAt] = useState<Date | null>(null);
+  const [offset, setOffset] = useState(0);
+
+  const loadLimits = (fresh: boolean) => {
+    setIsLoading(true);
+    setError('');
+    listLimits(targetOrg, { context: 'OrgLimits.loadLimits', ...(fresh ? { cache: false } : {}) })
+      .then(result => {
+        setLimits(sortLimits(result));
+        setCheckedAt(new Date());
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setIsLoading(false));
+  };
+
+  useEffect(() => {
+    loadLimits(false);
+  }, [targetOrg]);
+
+  useShortcutAction('refresh', isLoading ? null : () => loadLimits(true));
+
+  const maxOffset = Math.max(0, limits.length - PAGE_SIZE);
+
+  useInput((input, key) => {
+    if (key.escape) {
+      onBack();
+    } else if (key.upArrow) {
+      setOffset(current => Math.max(0, current - 1));
+    } else if (key.downArrow) {
+      setOffset(current => Math.min(maxOffset, current + 1));
+    } else if (key.pageUp) {
+      setOffset(current => Math.max(0, current - PAGE_SIZE));
+    } else if (key.pageDown) {
+      setOffset(current => Math.min(maxOffset, current + PAGE_SIZE));
+    }
+  });
+
+  const levelColors: Record<LimitLevel, string> = {
+    ok: theme.colors.success,
+    warning: theme.colors.warning,
+    error: theme.colors.error,
+  };
+  const levels = limits.map(limit => getLimitLevel(limit, thresholds));
+  const warningCount = levels.filter(level => level === 'warning').length;
+  const errorCount = levels.filter(level => level === 'error').length;
+  const visible = limits.slice(offset, offset + PAGE_SIZE);
+
+  return (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text bold>Limits: {targetOrg}</Text>
+        {checkedAt && <Text color="gray">  checked at {checkedAt.toLocaleTimeString()}</Text>}
+      </Box>
+
+      {isLoading && (
+        <Box marginBottom={1}>
+          <Text><Spinner type="dots" /> {limits.length > 0 ? 'Refreshing limits...' : 'Loading limits...'}</Text>
+        </Box>
+      )}
+
+      {error && (
+        <Box marginBottom={1}>
+          <Text color={theme.colors.error}>Error: {error}</Text>
+        </Box>
+      )}
+
+      {!isLoading && !error && limits.length === 0 && (
+        <Box marginBottom={1}>
+          <Text color="gray">No limits reported for this org</Text>
+        </Box>
+      )}
+
+      {limits.length > 0 && (
+        <Box marginBottom={1}>
+          <Text color={errorCount > 0 ? levelColors.error : warningCount > 0 ? levelColors.warning : levelColors.ok}>
+            {errorCount} above {thresholds.error}%, {warningCount} above {thresholds.warning}%
+          </Text>
+        </Box>
+      )}
+
+      {visible.map((limit, index) => {
+        const level = levels[offset + index] ?? 'ok';
+        // Limits below the thresholds keep the default text color
+        const colorProps = level === 'ok' ? {} : { color: levelColors[level] };
+        return (
+          <Box key={limit.name}>
+            <Box width={34}>
+              <Text {...colorProps} bold={level === 'error'} wrap="truncate-end">{limit.name}</Text>
+            </Box>
+            <ProgressBar
+              value={limit.max - limit.remaining}
+              total={limit.max || 1}
+              width={30}
+              showPercentage={false}
+              variant={level === 'ok' ? 'success' : level}
+              testId={`limit-${limit.name}`}
+            />
+            <Text {...colorProps}>
+              {' '}{(limit.max - limit.remaining).toLocaleString()}/{limit.max.toLocaleString()} ({getLimitUsage(limit).toFixed(0)}%)
+            </Text>
+          </Box>
+        );
+      })}
+
+      {limits.length > PAGE_SIZE && (
+        <Text color="gray">
+          {offset + 1}-{Math.min(offset + PAGE_SIZE, limits.length)} of {limits.length}
+        </Text>
+      )}
+
+      <Box marginTop={1}>
+        <Text color="gray">↑/↓ PgUp/PgDn: scroll | Ctrl+R: refresh | ESC: back</Text>
+      </Box>
+    </Box>
+  );
+};
+
+export default OrgLimits;
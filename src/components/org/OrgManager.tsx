@@ -2,23 +2,31 @@ import React, { useState, useEffect } from 'react';
 import { Box, Text, useInput, useApp } from 'ink';
 import SelectInput from 'ink-select-input';
 import chalk from 'chalk';
-import { execa, ExecaChildProcess } from 'execa';
 import Spinner from 'ink-spinner';
 import { ErrorBoundary, useErrors, EnhancedProgressBar } from '../common';
 import { errorReporter, ErrorCategory, ErrorSeverity } from '../../utils';
+import { listOrgs, cleanOrgList, isOrgExpired, getOrgType, formatSfCommand } from '../../utils/sfCli';
+import { jobManager } from '../../utils/jobManager';
+import { useJob } from '../../hooks/useJobs';
+import { useProductionGuard, useProductionOrg } from '../../hooks/useProductionGuard';
+import { TimeoutPrompt } from '../jobs/TimeoutPrompt';
+import { OrgTable } from './OrgTable';
+import { ScratchOrgWizard } from './ScratchOrgWizard';
+import { SandboxManager } from './SandboxManager';
+import { OrgLimits } from './OrgLimits';
+import { OrgDetails } from './OrgDetails';
+import { OrgOpen } from './OrgOpen';
+import { OrgUsers } from './OrgUsers';
+import { BulkOrgActions } from './BulkOrgActions';
+import { OrgTagsEditor } from './OrgTagsEditor';
+import { orgMetadata } from '../../utils/orgMetadata';
+import { describeProgress } from '../../utils/progressParser';
+import { subscribeToRevalidation, describeRetry } from '../../utils/commandExecutor';
 import { useNotifications } from '../../context/NotificationContext';
+import { useShortcutAction } from '../../context/KeyboardShortcuts';
+import type { SfOrg } from '../../types/sf';
 
-type Org = {
-  alias?: string;
-  username: string;
-  orgId: string;
-  instanceUrl: string;
-  isActive: boolean;
-  isDefaultDevHub: boolean;
-  isDefaultUsername: boolean;
-  connectedStatus: string;
-  status: string;
-};
+type Org = SfOrg;
 
 type OrgManagerProps = {
   onBack: () => void;
@@ -35,13 +43,42 @@ export const OrgManager = ({ onBack }: OrgManagerProps) => {
   const [output, setOutput] = useState<string>('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [confirmDelete, setConfirmDelete] = useState(false);
-  const [activeNotifications, setActiveNotifications] = useState<Record<string, string>>({});
+  const [creatingScratch, setCreatingScratch] = useState(false);
+  const [managingSandboxes, setManagingSandboxes] = useState(false);
+  const [viewingLimits, setViewingLimits] = useState(false);
+  const [viewingDetails, setViewingDetails] = useState(false);
+  const [openingOrg, setOpeningOrg] = useState(false);
+  const [managingUsers, setManagingUsers] = useState(false);
+  const [bulkOrgs, setBulkOrgs] = useState<Org[] | null>(null);
+  const [editingTags, setEditingTags] = useState(false);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const activeJob = useJob(activeJobId);
+  const productionGuard = useProductionGuard();
+  const isProduction = useProductionOrg(selectedOrg?.username);
+
+  // Ctrl+X cancels the running command
+  useShortcutAction('cancel', activeJobId ? () => jobManager.cancel(activeJobId) : null);
 
   // Load orgs on component mount
   useEffect(() => {
     loadOrgs();
   }, []);
 
+  // Swap in the fresh org list once a stale cached one has been refreshed
+  useEffect(
+    () =>
+      subscribeToRevalidation((command, args) => {
+        if (args[0] === 'org' && args[1] === 'list') {
+          listOrgs({ context: 'OrgManager.loadOrgs', all: true })
+            .then(setOrgs)
+            .catch(() => {
+              // Failure has already been reported by the sf gateway
+            });
+        }
+      }),
+    []
+  );
+
   const loadOrgs = async () => {
     let notificationId = '';
     
@@ -58,8 +95,17 @@ export const OrgManager = ({ onBack }: OrgManagerProps) => {
         maxProgress: 100
       });
       
-      // Run sf org list command
-      const { stdout } = await execa('sf', ['org', 'list', '--json']);
+      // Run sf org list command, including expired scratch orgs so they can be cleaned up
+      const orgList = await listOrgs({
+        context: 'OrgManager.loadOrgs',
+        all: true,
+        onRetry: (attempt) => {
+          updateNotification(notificationId, {
+            type: 'warning',
+            message: `${describeRetry(attempt)}...`
+          });
+        }
+      });
       
       // Update notification progress
       updateNotification(notificationId, {
@@ -67,12 +113,9 @@ export const OrgManager = ({ onBack }: OrgManagerProps) => {
         message: 'Processing org data...'
       });
       
-      const result = JSON.parse(stdout);
+      setOrgs(orgList);
       
-      if (result.status === 0 && result.result) {
-        const orgList = result.result.nonScratchOrgs.concat(result.result.scratchOrgs || []);
-        setOrgs(orgList);
-        
+      if (orgList.length > 0) {
         // Complete notification with org count
         updateNotification(notificationId, {
           type: 'success',
@@ -83,29 +126,23 @@ export const OrgManager = ({ onBack }: OrgManagerProps) => {
           dismissAfter: 3000
         });
       } else {
-        setOrgs([]);
+        // Update notification to warning
+        updateNotification(notificationId, {
+          type: 'warning',
+          title: 'No Orgs Found',
+          message: 'Use the Auth Manager to log in to a Salesforce org.',
+          progress: 100,
+          autoDismiss: true,
+          dismissAfter: 5000
+        });
+        
         // Report a warning if no orgs found
-        if (!result.result || 
-            ((!result.result.nonScratchOrgs || result.result.nonScratchOrgs.length === 0) && 
-             (!result.result.scratchOrgs || result.result.scratchOrgs.length === 0))) {
-          
-          // Update notification to warning
-          updateNotification(notificationId, {
-            type: 'warning',
-            title: 'No Orgs Found',
-            message: 'Use the Auth Manager to log in to a Salesforce org.',
-            progress: 100,
-            autoDismiss: true,
-            dismissAfter: 5000
-          });
-          
-          errorReporter.reportError('No Salesforce orgs found', {
-            severity: ErrorSeverity.LOW,
-            category: ErrorCategory.AUTH,
-            context: 'OrgManager',
-            userAction: 'Use the Auth Manager to log in to a Salesforce org.'
-          });
-        }
+        errorReporter.reportError('No Salesforce orgs found', {
+          severity: ErrorSeverity.LOW,
+          category: ErrorCategory.AUTH,
+          context: 'OrgManager',
+          userAction: 'Use the Auth Manager to log in to a Salesforce org.'
+        });
       }
     } catch (err) {
       // Update local state for backward compatibility
@@ -129,15 +166,6 @@ export const OrgManager = ({ onBack }: OrgManagerProps) => {
           ]
         });
       }
-      
-      // Report error to the error reporting system
-      errorReporter.reportError('Failed to load Salesforce orgs', {
-        error: err instanceof Error ? err : new Error(String(err)),
-        severity: ErrorSeverity.HIGH,
-        category: ErrorCategory.COMMAND,
-        context: 'OrgManager.loadOrgs',
-        userAction: 'Check if Salesforce CLI is installed and properly configured.'
-      });
     } finally {
       setIsLoading(false);
     }
@@ -147,54 +175,107 @@ export const OrgManager = ({ onBack }: OrgManagerProps) => {
     setSelectedOrg(org);
   };
 
+  const expiredCount = orgs.filter(org => isOrgExpired(org)).length;
+
+  const cleanExpiredOrgs = async () => {
+    const notificationId = showNotification({
+      type: 'progress',
+      title: 'Cleaning Up Expired Orgs',
+      message: formatSfCommand(['org', 'list', '--clean', '--no-prompt']),
+    });
+
+    try {
+      await cleanOrgList({ context: 'OrgManager.cleanExpiredOrgs' });
+      updateNotification(notificationId, {
+        type: 'success',
+        message: `Removed ${expiredCount} expired scratch org${expiredCount === 1 ? '' : 's'}`,
+        autoDismiss: true,
+        dismissAfter: 3000,
+      });
+      await loadOrgs();
+    } catch (err) {
+      updateNotification(notificationId, {
+        type: 'error',
+        message: err instanceof Error ? err.message : String(err),
+        autoDismiss: true,
+        dismissAfter: 5000,
+      });
+    }
+  };
+
   const runCommand = async (command: string, args: string[] = []) => {
+    const commandArgs = [command, ...args];
+    const notificationTitle = getCommandTitle(command, args);
+    let notificationId = '';
+    
+    // Commands changing a production org wait for its name to be typed
+    if (!(await productionGuard.confirm(commandArgs))) {
+      setOutput('Cancelled: the org name was not confirmed.');
+      return;
+    }
+    
     try {
       setIsProcessing(true);
       setOutput('');
       
       // Show notification for long-running operation
-      const notificationTitle = getCommandTitle(command, args);
-      const notificationId = showNotification({
+      notificationId = showNotification({
         type: 'progress',
         title: notificationTitle,
-        message: `Running: sf ${command} ${args.join(' ')}`,
+        message: `Running: ${formatSfCommand(commandArgs)}`,
         progress: 0,
         maxProgress: 100,
         autoDismiss: false
       });
       
-      // Track this notification
-      setActiveNotifications(prev => ({ ...prev, [command]: notificationId }));
-      
-      const process = execa('sf', [command, ...args]);
-      let outputText = '';
-      
-      // Stream output
-      process.stdout?.on('data', (data) => {
-        const newOutput = data.toString();
-        outputText += newOutput;
-        setOutput(prev => prev + newOutput);
-        
-        // Update notification progress (approximate)
-        updateNotification(notificationId, {
-          progress: Math.min(95, (outputText.length / 500) * 100),
-          message: `Running: sf ${command} ${args.join(' ')}\n${newOutput.slice(-50)}`
-        });
+      // Run as a background job so the command keeps running if the panel is left
+      const job = jobManager.start(commandArgs, {
+        label: notificationTitle,
+        origin: 'OrgManager',
+        onProgress: (progress) => {
+          // Real progress for commands whose output reports it (e.g. scratch org creation)
+          updateNotification(notificationId, {
+            progress: progress.percent,
+            message: `Running: ${formatSfCommand(commandArgs)}\n${describeProgress(progress)}`
+          });
+        },
+        onRetry: (attempt) => {
+          setOutput(prev => `${prev}\n${describeRetry(attempt)}\n`);
+          updateNotification(notificationId, {
+            type: 'warning',
+            message: `Running: ${formatSfCommand(commandArgs)}\n${describeRetry(attempt)}`
+          });
+        },
+        onOutput: (newOutput, stream) => {
+          setOutput(prev => prev + newOutput);
+          
+          if (stream === 'stderr') {
+            // Update notification with warning
+            updateNotification(notificationId, {
+              type: 'warning',
+              message: `Warning: ${newOutput.slice(-50)}`
+            });
+          }
+        },
       });
       
-      process.stderr?.on('data', (data) => {
-        const newOutput = data.toString();
-        outputText += newOutput;
-        setOutput(prev => prev + newOutput);
-        
-        // Update notification with warning
+      setActiveJobId(job.id);
+      
+      const finished = await jobManager.wait(job.id);
+      if (finished?.status === 'cancelled') {
+        setOutput(prev => `${prev}\nCancelled.`);
         updateNotification(notificationId, {
-          type: 'warning',
-          message: `Warning: ${newOutput.slice(-50)}`
+          type: 'cancelled',
+          title: `${notificationTitle} - Cancelled`,
+          message: `Cancelled: ${formatSfCommand(commandArgs)}`,
+          autoDismiss: true,
+          dismissAfter: 5000
         });
-      });
-      
-      await process;
+        return;
+      }
+      if (finished?.status !== 'succeeded') {
+        throw new Error(finished?.error || 'Command failed');
+      }
       
       // Complete notification
       updateNotification(notificationId, {
@@ -206,13 +287,6 @@ export const OrgManager = ({ onBack }: OrgManagerProps) => {
         dismissAfter: 5000
       });
       
-      // Remove notification from tracking
-      setActiveNotifications(prev => {
-        const newState = { ...prev };
-        delete newState[command];
-        return newState;
-      });
-      
       // Refresh org list after command completes
       await loadOrgs();
     } catch (err) {
@@ -220,11 +294,10 @@ export const OrgManager = ({ onBack }: OrgManagerProps) => {
       setOutput(errorMessage);
       
       // Update notification with error
-      const notificationId = activeNotifications[command];
       if (notificationId) {
         updateNotification(notificationId, {
           type: 'error',
-          title: `Error: ${getCommandTitle(command, args)}`,
+          title: `Error: ${notificationTitle}`,
           message: errorMessage,
           autoDismiss: true,
           dismissAfter: 8000,
@@ -235,22 +308,9 @@ export const OrgManager = ({ onBack }: OrgManagerProps) => {
             }
           ]
         });
-        
-        // Remove notification from tracking
-        setActiveNotifications(prev => {
-          const newState = { ...prev };
-          delete newState[command];
-          return newState;
-        });
       }
-      
-      // Report error to the error reporting system
-      errorReporter.reportCommandError(
-        `Failed to execute Salesforce CLI command: sf ${command} ${args.join(' ')}`,
-        err instanceof Error ? err : new Error(String(err)),
-        { command, args }
-      );
     } finally {
+      setActiveJobId(null);
       setIsProcessing(false);
     }
   };
@@ -259,8 +319,6 @@ export const OrgManager = ({ onBack }: OrgManagerProps) => {
   const getCommandTitle = (command: string, args: string[]): string => {
     switch (command) {
       case 'org':
-        if (args.includes('open')) return 'Opening Org';
-        if (args.includes('display')) return 'Refreshing Org';
         if (args.includes('delete')) return 'Deleting Org';
         return 'Org Operation';
         
@@ -278,10 +336,6 @@ export const OrgManager = ({ onBack }: OrgManagerProps) => {
     }
   };
 
-  const openOrg = (org: Org) => {
-    runCommand('org', ['open', '-o', org.username]);
-  };
-
   const setDefaultOrg = (org: Org) => {
     runCommand('config', ['set', 'target-org', org.username, '--global']);
   };
@@ -290,15 +344,8 @@ export const OrgManager = ({ onBack }: OrgManagerProps) => {
     runCommand('config', ['set', 'target-dev-hub', org.username, '--global']);
   };
 
-  const refreshOrg = (org: Org) => {
-    runCommand('org', ['display', '-o', org.username, '--verbose']);
-  };
-
   const deleteOrg = async (org: Org) => {
-    // Check if it's a scratch org first
-    const isScratchOrg = org.status === 'Active' && org.username.includes('test.com');
-    
-    if (isScratchOrg) {
+    if (getOrgType(org) === 'scratch') {
       // For scratch orgs, use delete command
       await runCommand('org', ['delete', 'scratch', '-o', org.username, '--no-prompt']);
     } else {
@@ -312,17 +359,43 @@ export const OrgManager = ({ onBack }: OrgManagerProps) => {
   };
 
   useInput((input, key) => {
-    if (key.escape) {
+    if (productionGuard.dialog) {
+      // The confirmation dialog handles its own keys
+      return;
+    }
+    if (
+      creatingScratch ||
+      managingSandboxes ||
+      managingUsers ||
+      viewingLimits ||
+      viewingDetails ||
+      openingOrg ||
+      bulkOrgs ||
+      editingTags
+    ) {
+      // The wizard, sandbox, user, limits, details, open, bulk action and tag screens handle their own keys
+      return;
+    }
+    if (key.ctrl && input === 'n' && !selectedOrg) {
+      setCreatingScratch(true);
+    } else if (key.ctrl && input === 'e' && !selectedOrg && expiredCount > 0) {
+      cleanExpiredOrgs();
+    } else if (key.escape) {
       if (confirmDelete) {
         setConfirmDelete(false);
       } else if (selectedOrg) {
         setSelectedOrg(null);
-      } else {
+      } else if (error || orgs.length === 0) {
+        // The org table handles ESC itself
         onBack();
       }
     }
   });
 
+  if (productionGuard.dialog) {
+    return productionGuard.dialog;
+  }
+
   if (isLoading) {
     return (
       <Box>
@@ -340,7 +413,78 @@ export const OrgManager = ({ onBack }: OrgManagerProps) => {
     );
   }
 
+  if (creatingScratch) {
+    return (
+      <ScratchOrgWizard
+        orgs={orgs}
+        onDone={created => {
+          setCreatingScratch(false);
+          if (created) {
+            loadOrgs();
+          }
+        }}
+      />
+    );
+  }
+
+  if (selectedOrg && managingSandboxes) {
+    return (
+      <SandboxManager
+        targetOrg={selectedOrg.alias || selectedOrg.username}
+        onBack={() => setManagingSandboxes(false)}
+      />
+    );
+  }
+
+  if (bulkOrgs) {
+    return (
+      <BulkOrgActions
+        orgs={bulkOrgs}
+        onDone={changed => {
+          setBulkOrgs(null);
+          if (changed) {
+            loadOrgs();
+          }
+        }}
+      />
+    );
+  }
+
+  if (selectedOrg && editingTags) {
+    return <OrgTagsEditor org={selectedOrg} onBack={() => setEditingTags(false)} />;
+  }
+
+  if (selectedOrg && viewingDetails) {
+    return (
+      <OrgDetails
+        targetOrg={selectedOrg.alias || selectedOrg.username}
+        onBack={() => setViewingDetails(false)}
+      />
+    );
+  }
+
+  if (selectedOrg && managingUsers) {
+    return (
+      <OrgUsers targetOrg={selectedOrg.alias || selectedOrg.username} onBack={() => setManagingUsers(false)} />
+    );
+  }
+
+  if (selectedOrg && openingOrg) {
+    return <OrgOpen targetOrg={selectedOrg.alias || selectedOrg.username} onBack={() => setOpeningOrg(false)} />;
+  }
+
+  if (selectedOrg && viewingLimits) {
+    return (
+      <OrgLimits
+        targetOrg={selectedOrg.alias || selectedOrg.username}
+        onBack={() => setViewingLimits(false)}
+      />
+    );
+  }
+
   if (selectedOrg) {
+    const selectedTags = orgMetadata.get(selectedOrg.orgId);
+
     if (confirmDelete) {
       return (
         <Box flexDirection="column">
@@ -350,7 +494,7 @@ export const OrgManager = ({ onBack }: OrgManagerProps) => {
           
           <Box marginBottom={2}>
             <Text>Are you sure you want to delete the org <Text bold>{selectedOrg.alias || selectedOrg.username}</Text>?</Text>
-            <Text>This action {selectedOrg.username.includes('test.com') ? 'will PERMANENTLY delete the scratch org' : 'will revoke authentication for this org'}.</Text>
+            <Text>This action {getOrgType(selectedOrg) === 'scratch' ? 'will PERMANENTLY delete the scratch org' : 'will revoke authentication for this org'}.</Text>
           </Box>
           
           <Box flexDirection="column" marginBottom={2}>
@@ -377,36 +521,58 @@ export const OrgManager = ({ onBack }: OrgManagerProps) => {
     }
     
     return (
-      <Box flexDirection="column">
+      <Box
+        flexDirection="column"
+        {...(isProduction ? { borderStyle: 'round' as const, borderColor: 'red', paddingX: 1 } : {})}
+      >
         <Box marginBottom={1}>
           <Text bold>Org: {selectedOrg.alias || selectedOrg.username}</Text>
           <Text>  </Text>
           {selectedOrg.isDefaultUsername && <Text color="green">[Default]</Text>}
           {selectedOrg.isDefaultDevHub && <Text color="blue"> [DevHub]</Text>}
+          {selectedTags.favorite && <Text color="red"> ♥</Text>}
+          {isProduction && <Text bold color="red"> [PRODUCTION]</Text>}
         </Box>
         
         <Box marginBottom={1}>
           <Text>Status: {selectedOrg.status}</Text>
         </Box>
         
+        {(selectedTags.environment || selectedTags.project || selectedTags.notes) && (
+          <Box flexDirection="column" marginBottom={1}>
+            <Text>
+              Environment: {selectedTags.environment || '-'} · Project: {selectedTags.project || '-'}
+            </Text>
+            {selectedTags.notes && <Text color="gray">{selectedTags.notes}</Text>}
+          </Box>
+        )}
+        
         <Box marginBottom={2}>
           <Text>Instance: {selectedOrg.instanceUrl}</Text>
         </Box>
         
         <Box flexDirection="column" marginBottom={2}>
           <SelectInput
+            isFocused={!(activeJob?.status === 'running' && activeJob.timedOut)}
             items={[
-              { label: 'Open Org in Browser', value: 'open' },
+              { label: 'Open Org…', value: 'open' },
               { label: 'Set as Default Org', value: 'set-default' },
               { label: 'Set as Default Dev Hub', value: 'set-dev-hub' },
-              { label: 'Refresh Org Info', value: 'refresh' },
+              { label: 'View Org Details', value: 'details' },
+              { label: 'View Limits', value: 'limits' },
+              { label: 'Users', value: 'users' },
+              { label: 'Tags & Notes', value: 'tags' },
+              // Sandboxes are created and refreshed from their production org
+              ...(['production', 'devhub'].includes(getOrgType(selectedOrg))
+                ? [{ label: 'Manage Sandboxes', value: 'sandboxes' }]
+                : []),
               { label: 'Delete Org', value: 'delete' },
               { label: 'Back to List', value: 'back' },
             ]}
             onSelect={(item) => {
               switch (item.value) {
                 case 'open':
-                  openOrg(selectedOrg);
+                  setOpeningOrg(true);
                   break;
                 case 'set-default':
                   setDefaultOrg(selectedOrg);
@@ -414,8 +580,20 @@ export const OrgManager = ({ onBack }: OrgManagerProps) => {
                 case 'set-dev-hub':
                   setDefaultDevHub(selectedOrg);
                   break;
-                case 'refresh':
-                  refreshOrg(selectedOrg);
+                case 'details':
+                  setViewingDetails(true);
+                  break;
+                case 'tags':
+                  setEditingTags(true);
+                  break;
+                case 'limits':
+                  setViewingLimits(true);
+                  break;
+                case 'users':
+                  setManagingUsers(true);
+                  break;
+                case 'sandboxes':
+                  setManagingSandboxes(true);
                   break;
                 case 'delete':
                   setConfirmDelete(true);
@@ -430,10 +608,14 @@ export const OrgManager = ({ onBack }: OrgManagerProps) => {
         
         {isProcessing && (
           <Box>
-            <Text><Spinner type="dots" /> Processing...</Text>
+            <Text><Spinner type="dots" /> Processing... <Text color="gray">(Ctrl+X to cancel)</Text></Text>
           </Box>
         )}
         
+        {activeJob?.status === 'running' && activeJob.timedOut && (
+          <TimeoutPrompt job={activeJob} />
+        )}
+        
         {output && (
           <Box flexDirection="column" borderStyle="round" padding={1}>
             <Text bold>Output:</Text>
@@ -455,32 +637,21 @@ export const OrgManager = ({ onBack }: OrgManagerProps) => {
       </Box>
       
       {orgs.length === 0 ? (
-        <Text>No orgs found. Use 'sf org login web' to authenticate with an org.</Text>
+        <Box flexDirection="column">
+          <Text>No orgs found. Use 'sf org login web' to authenticate with an org, or Ctrl+N to create a scratch org.</Text>
+          <Box marginTop={1}>
+            <Text>Press ESC to go back</Text>
+          </Box>
+        </Box>
       ) : (
         <Box flexDirection="column">
-          <SelectInput
-            items={orgs.map(org => ({
-              label: `${org.isDefaultUsername ? '★ ' : '  '}${org.alias || org.username}`,
-              value: org.username,
-              org
-            }))}
-            onSelect={(item: any) => handleOrgSelect(item.org)}
-            itemComponent={({ isSelected, label, org }: { isSelected: boolean, label: string, org: Org }) => (
-              <Box>
-                <Text color={isSelected ? 'cyan' : 'white'}>{label}</Text>
-                <Text>  </Text>
-                <Text color="gray">
-                  {org.instanceUrl} {org.isDefaultDevHub && '(DevHub)'}
-                </Text>
-              </Box>
-            )}
-          />
+          <OrgTable orgs={orgs} onSelect={handleOrgSelect} onSelectMany={setBulkOrgs} onBack={onBack} />
+          <Text color="gray">
+            Ctrl+N new scratch org
+            {expiredCount > 0 ? ` · Ctrl+E clean up ${expiredCount} expired scratch org${expiredCount === 1 ? '' : 's'}` : ''}
+          </Text>
         </Box>
       )}
-      
-      <Box marginTop={1}>
-        <Text>Press ESC to go back</Text>
-      </Box>
     </Box>
   );
 };
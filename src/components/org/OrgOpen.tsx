@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import SelectInput from 'ink-select-input';
+import Spinner from 'ink-spinner';
+import { TextInput } from '../common/TextInput';
+import CommandPreview from '../common/CommandPreview';
+import { config } from '../../config';
+import type { Config } from '../../config';
+import { openOrg, buildOpenOrgArgs } from '../../utils/sfCli';
+import { copyToClipboard } from '../../utils/clipboard';
+import { useTheme } from '../../themes';
+
+export type OpenPath = Config['orgManager']['openPaths'][number];
+
+/**
+ * Where to open an org: a page of the org or a local source file
+ */
+export interface OpenTarget {
+  label: string;
+  path?: string;
+  sourceFile?: string;
+}
+
+/**
+ * Whether a value looks like a Salesforce record id (15 or 18 characters)
+ */
+export function isRecordId(value: string): boolean {
+  return /^[a-zA-Z0-9]{15}([a-zA-Z0-9]{3})?$/.test(value);
+}
+
+/**
+ * Path of the Lightning page showing a record
+ */
+export function getRecordPath(recordId: string): string {
+  return `/lightning/r/${recordId}/view`;
+}
+
+type Step = 'pick' | 'path' | 'record' | 'file' | 'opening' | 'done';
+
+type OrgOpenProps = {
+  /**
+   * Org (alias or username) to open
+   */
+  targetOrg: string;
+  onBack: () => void;
+};
+
+/**
+ * Opens an org at its home page, a saved Setup page, any path, a record or
+ * the builder of a local source file. In URL only mode the frontdoor URL is
+ * shown and copied instead, to paste in another browser profile.
+ */
+export const OrgOpen = ({ targetOrg, onBack }: OrgOpenProps) => {
+  const theme = useTheme();
+  const [step, setStep] = useState<Step>('pick');
+  const [urlOnly, setUrlOnly] = useState(false);
+  const [paths, setPaths] = useState<OpenPath[]>(() => config.get<Config['orgManager']>('orgManager').openPaths);
+  const [draft, setDraft] = useState('');
+  const [target, setTarget] = useState<OpenTarget>({ label: 'Home' });
+  const [url, setUrl] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+
+  const open = async (next: OpenTarget) => {
+    setTarget(next);
+    setUrl('');
+    setNote('');
+    setError('');
+    setStep('opening');
+    try {
+      const result = await openOrg(targetOrg, {
+        path: next.path,
+        sourceFile: next.sourceFile,
+        urlOnly,
+        context: 'OrgOpen',
+      });
+      setUrl(result.url);
+      if (urlOnly) {
+        setNote(copyToClipboard(result.url) ? 'Copied to clipboard' : 'Clipboard is not available outside a terminal');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    setStep('done');
+  };
+
+  // Custom paths can be kept in the list offered next time
+  const isSavable = step === 'done' && !error && !!target.path && !paths.some(saved => saved.path === target.path);
+
+  const savePath = () => {
+    const next = [...paths, { label: target.label, path: target.path! }];
+    config.set('orgManager', { ...config.get<Config['orgManager']>('orgManager'), openPaths: next });
+    setPaths(next);
+    setNote(`Saved ${target.path}`);
+  };
+
+  useInput((input, key) => {
+    if (step === 'pick') {
+      if (key.escape) {
+        onBack();
+      } else if (input === 'u') {
+        setUrlOnly(current => !current);
+      }
+    } else if (step === 'done') {
+      if (input === 's' && isSavable) {
+        savePath();
+      } else if (key.escape || key.return) {
+        setStep('pick');
+      }
+    } else if (key.escape && step !== 'opening') {
+      setStep('pick');
+    }
+  });
+
+  const heading = (
+    <Box marginBottom={1}>
+      <Text bold>Open {targetOrg}</Text>
+      {urlOnly && <Text color={theme.colors.warning}> [URL only]</Text>}
+    </Box>
+  );
+
+  if (step === 'pick') {
+    return (
+      <Box flexDirection="column">
+        {heading}
+        <SelectInput
+          items={[
+            { label: 'Home', value: 'home' },
+            ...paths.map((saved, index) => ({ key: `saved-${index}`, label: `★ ${saved.label}`, value: `saved-${index}` })),
+            { label: 'Setup Path…', value: 'path' },
+            { label: 'Record ID…', value: 'record' },
+            { label: 'Source File… (flow, LWC, Lightning page)', value: 'file' },
+            { label: 'Back', value: 'back' },
+          ]}
+          onSelect={item => {
+            if (item.value === 'home') {
+              open({ label: 'Home' });
+            } else if (item.value.startsWith('saved-')) {
+              const saved = paths[Number(item.value.slice('saved-'.length))]!;
+              open({ label: saved.label, path: saved.path });
+            } else if (item.value === 'back') {
+              onBack();
+            } else {
+              setDraft('');
+              setStep(item.value as Step);
+            }
+          }}
+        />
+        <Box marginTop={1}>
+          <Text color="gray">
+            u to {urlOnly ? 'open in the browser' : 'only print and copy the URL'} · ESC to go back
+          </Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  if (step === 'path' || step === 'record' || step === 'file') {
+    const prompts: Record<typeof step, { label: string; placeholder: string; validate: (value: string) => true | string }> = {
+      path: {
+        label: 'Path',
+        placeholder: '/lightning/setup/CustomSettings/home',
+        validate: value => value.startsWith('/') || 'Paths start with /',
+      },
+      record: {
+        label: 'Record ID',
+        placeholder: '001XXXXXXXXXXXXXXX',
+        validate: value => isRecordId(value) || 'Record ids are 15 or 18 letters and digits',
+      },
+      file: {
+        label: 'Source File',
+        placeholder: 'force-app/main/default/flows/Onboarding.flow-meta.xml',
+        validate: value => !!value || 'Enter the path of a source file',
+      },
+    };
+    const prompt = prompts[step];
+    const toTarget = (value: string): OpenTarget => {
+      if (step === 'record') return { label: value, path: getRecordPath(value) };
+      if (step === 'file') return { label: value, sourceFile: value };
+      return { label: value, path: value };
+    };
+
+    return (
+      <Box flexDirection="column">
+        {heading}
+        <Box>
+          <Text>{prompt.label}: </Text>
+          <TextInput
+            value={draft}
+            onChange={setDraft}
+            placeholder={prompt.placeholder}
+            validate={value => !value || prompt.validate(value.trim())}
+            onSubmit={value => {
+              const trimmed = value.trim();
+              if (trimmed && prompt.validate(trimmed) === true) {
+                open(toTarget(trimmed));
+              }
+            }}
+          />
+        </Box>
+        {draft.trim() && prompt.validate(draft.trim()) === true && (
+          <Box marginTop={1}>
+            <CommandPreview args={buildOpenOrgArgs(targetOrg, { ...toTarget(draft.trim()), urlOnly })} />
+          </Box>
+        )}
+        <Text color="gray">Enter to open · ESC to go back</Text>
+      </Box>
+    );
+  }
+
+  if (step === 'opening') {
+    return (
+      <Box flexDirection="column">
+        {heading}
+        <Text>
+          <Spinner type="dots" /> {urlOnly ? 'Getting the URL of' : 'Opening'} {target.label}...
+        </Text>
+      </Box>
+    );
+  }
+
+  return (
+    <Box flexDirection="column">
+      {heading}
+      {error ? (
+        <Text color={theme.colors.error}>Error: {error}</Text>
+      ) : urlOnly ? (
+        <Box flexDirection="column">
+          <Text>URL of {target.label}:</Text>
+          <Text color={theme.colors.info}>{url}</Text>
+          <Text color="gray">The URL logs in as {targetOrg}; keep it to yourself</Text>
+        </Box>
+      ) : (
+        <Text color={theme.colors.success}>✓ Opened {target.label} in the browser</Text>
+      )}
+      {note && <Text color="gray" italic>{note}</Text>}
+      <Box marginTop={1}>
+        <Text color="gray">
+          {isSavable ? 's to save this path to the list · ' : ''}Enter to open another page · ESC to go back
+        </Text>
+      </Box>
+    </Box>
+  );
+};
+
+export default OrgOpen;
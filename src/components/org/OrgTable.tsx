@@ -0,0 +1,436 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import SelectInput from 'ink-select-input';
+import { Table } from '../common';
+import { config } from '../../config';
+import type { Config } from '../../config';
+import { getOrgType, getDaysUntilExpiration, isOrgExpired } from '../../utils/sfCli';
+import { orgMetadata, ORG_ENVIRONMENTS } from '../../utils/orgMetadata';
+import type { SfOrg } from '../../types/sf';
+
+export type OrgColumnKey =
+  | 'favorite'
+  | 'alias'
+  | 'username'
+  | 'type'
+  | 'environment'
+  | 'project'
+  | 'instance'
+  | 'status'
+  | 'expires'
+  | 'default';
+
+export type SortDirection = 'asc' | 'desc';
+
+export type OrgGrouping = 'none' | 'favorite' | 'environment' | 'project';
+
+const GROUPINGS: OrgGrouping[] = ['none', 'favorite', 'environment', 'project'];
+
+const GROUPING_LABELS: Record<OrgGrouping, string> = {
+  none: 'none',
+  favorite: 'favorites',
+  environment: 'environment',
+  project: 'project',
+};
+
+interface OrgColumn {
+  key: OrgColumnKey;
+  header: string;
+  width: number;
+  /**
+   * Text shown in the cell, also used for filtering and sorting
+   */
+  value: (org: SfOrg) => string;
+  /**
+   * Color of the cell, given the days before expiration that warrant a warning
+   */
+  color?: (org: SfOrg, warningDays: number) => string | undefined;
+}
+
+const ORG_TYPE_LABELS = {
+  scratch: 'Scratch',
+  sandbox: 'Sandbox',
+  devhub: 'Dev Hub',
+  production: 'Production',
+};
+
+export const ORG_COLUMNS: OrgColumn[] = [
+  { key: 'alias', header: 'Alias', width: 18, value: org => org.alias || '' },
+  { key: 'favorite', header: '♥', width: 2, value: org => (orgMetadata.get(org.orgId).favorite ? '♥' : '') },
+  { key: 'username', header: 'Username', width: 24, value: org => org.username },
+  { key: 'type', header: 'Type', width: 12, value: org => ORG_TYPE_LABELS[getOrgType(org)] },
+  { key: 'environment', header: 'Env', width: 6, value: org => orgMetadata.get(org.orgId).environment || '' },
+  { key: 'project', header: 'Project', width: 14, value: org => orgMetadata.get(org.orgId).project || '' },
+  {
+    key: 'instance',
+    header: 'Instance',
+    width: 10,
+    value: org => org.instanceName || (org.instanceUrl || '').replace(/^https?:\/\//, '').split('.')[0] || '',
+  },
+  {
+    key: 'status',
+    header: 'Status',
+    width: 12,
+    value: org => (isOrgExpired(org) ? 'Expired' : org.connectedStatus || org.status || ''),
+  },
+  // Dates are ISO formatted, so they sort as text
+  {
+    key: 'expires',
+    header: 'Expires',
+    width: 17,
+    value: org => {
+      const days = getDaysUntilExpiration(org);
+      if (days === undefined) return '';
+      const date = (org.expirationDate || '').slice(0, 10);
+      return isOrgExpired(org) ? date : `${date} (${days}d)`;
+    },
+    color: (org, warningDays) => {
+      const days = getDaysUntilExpiration(org);
+      if (days === undefined) return undefined;
+      return isOrgExpired(org) ? 'red' : days <= warningDays ? 'yellow' : 'green';
+    },
+  },
+  {
+    key: 'default',
+    header: 'Default',
+    width: 11,
+    value: org => [org.isDefaultUsername ? '★ org' : '', org.isDefaultDevHub ? '★ hub' : ''].filter(Boolean).join(' '),
+  },
+];
+
+// Rows shown at once; the view scrolls to follow the selection
+const PAGE_SIZE = 15;
+
+/**
+ * Keep the orgs whose column values or notes contain the query, ignoring case
+ */
+export function filterOrgs(orgs: SfOrg[], query: string): SfOrg[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return orgs;
+  }
+  return orgs.filter(
+    org =>
+      ORG_COLUMNS.some(column => column.value(org).toLowerCase().includes(needle)) ||
+      (orgMetadata.get(org.orgId).notes || '').toLowerCase().includes(needle)
+  );
+}
+
+/**
+ * Name of the group an org belongs to
+ */
+export function getOrgGroup(org: SfOrg, grouping: OrgGrouping): string {
+  const metadata = orgMetadata.get(org.orgId);
+  switch (grouping) {
+    case 'favorite':
+      return metadata.favorite ? 'Favorites' : 'Others';
+    case 'environment':
+      return metadata.environment || 'Untagged';
+    case 'project':
+      return metadata.project || 'No project';
+    default:
+      return '';
+  }
+}
+
+/**
+ * Order orgs by group, keeping their order within each group.
+ * Favorites and environments come in their usual order, projects by name;
+ * orgs without a tag come last.
+ */
+export function groupOrgs(orgs: SfOrg[], grouping: OrgGrouping): SfOrg[] {
+  if (grouping === 'none') {
+    return orgs;
+  }
+  const rank = (org: SfOrg): [number, string] => {
+    const metadata = orgMetadata.get(org.orgId);
+    switch (grouping) {
+      case 'favorite':
+        return [metadata.favorite ? 0 : 1, ''];
+      case 'environment':
+        return [metadata.environment ? ORG_ENVIRONMENTS.indexOf(metadata.environment) : ORG_ENVIRONMENTS.length, ''];
+      default:
+        return [metadata.project ? 0 : 1, (metadata.project || '').toLowerCase()];
+    }
+  };
+  return [...orgs].sort((a, b) => {
+    const [orderA, nameA] = rank(a);
+    const [orderB, nameB] = rank(b);
+    return orderA - orderB || nameA.localeCompare(nameB);
+  });
+}
+
+/**
+ * Sort orgs by a column. Orgs without a value come last in both directions.
+ */
+export function sortOrgs(orgs: SfOrg[], column: OrgColumnKey, direction: SortDirection): SfOrg[] {
+  const definition = ORG_COLUMNS.find(c => c.key === column) || ORG_COLUMNS[0]!;
+  const factor = direction === 'asc' ? 1 : -1;
+
+  return [...orgs].sort((a, b) => {
+    const valueA = definition.value(a);
+    const valueB = definition.value(b);
+    if (!valueA || !valueB) {
+      return Number(!valueA) - Number(!valueB);
+    }
+    return valueA.localeCompare(valueB, undefined, { sensitivity: 'base' }) * factor;
+  });
+}
+
+/**
+ * Get the visible columns from the config, dropping unknown keys
+ */
+function getVisibleColumns(settings: Config['orgManager'] | undefined): OrgColumnKey[] {
+  const saved = settings?.columns || [];
+  const columns = ORG_COLUMNS.map(c => c.key).filter(key => saved.includes(key));
+  return columns.length > 0 ? columns : ORG_COLUMNS.map(c => c.key);
+}
+
+type OrgTableProps = {
+  orgs: SfOrg[];
+  onSelect: (org: SfOrg) => void;
+  /**
+   * Called instead of onSelect when orgs have been marked with Space
+   */
+  onSelectMany?: (orgs: SfOrg[]) => void;
+  onBack: () => void;
+  isFocused?: boolean;
+};
+
+/**
+ * Table of orgs. Typing filters the rows, ←/→ pick the sort column and
+ * Tab reverses it; Ctrl+O chooses the columns shown. Space marks rows and
+ * Ctrl+A marks every row matching the filter. Ctrl+F marks the selected org
+ * as favorite and Ctrl+G groups rows by favorite, environment or project.
+ */
+export const OrgTable = ({ orgs, onSelect, onSelectMany, onBack, isFocused = true }: OrgTableProps) => {
+  const [query, setQuery] = useState('');
+  const [sortColumn, setSortColumn] = useState<OrgColumnKey>('alias');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [settings] = useState(() => config.get<Config['orgManager'] | undefined>('orgManager'));
+  const [visibleColumns, setVisibleColumns] = useState<OrgColumnKey[]>(() => getVisibleColumns(settings));
+  const [choosingColumns, setChoosingColumns] = useState(false);
+  // Usernames of the orgs marked for a bulk action
+  const [marked, setMarked] = useState<Set<string>>(new Set());
+  const [grouping, setGrouping] = useState<OrgGrouping>('none');
+  // Re-render when tags or favorites change
+  const [, setMetadata] = useState(() => orgMetadata.getAll());
+
+  useEffect(() => orgMetadata.subscribe(setMetadata), []);
+
+  const rows = groupOrgs(sortOrgs(filterOrgs(orgs, query), sortColumn, sortDirection), grouping);
+  const selected = Math.min(selectedIndex, Math.max(0, rows.length - 1));
+  const pageStart = Math.max(0, selected - PAGE_SIZE + 1);
+  const columns = ORG_COLUMNS.filter(c => visibleColumns.includes(c.key));
+  const markedOrgs = orgs.filter(org => marked.has(org.username));
+  const pageRows = rows.slice(pageStart, pageStart + PAGE_SIZE);
+  // The group name is shown on the first row of each group on the page
+  const groupStarts = new Set(
+    pageRows
+      .filter((org, index) => index === 0 || getOrgGroup(org, grouping) !== getOrgGroup(pageRows[index - 1]!, grouping))
+      .map(org => org.username)
+  );
+
+  const changeQuery = (next: string) => {
+    setQuery(next);
+    setSelectedIndex(0);
+  };
+
+  const moveSortColumn = (step: number) => {
+    const index = columns.findIndex(c => c.key === sortColumn);
+    const next = columns[(index + step + columns.length) % columns.length];
+    if (next) {
+      setSortColumn(next.key);
+    }
+  };
+
+  const toggleMarked = (usernames: string[]) => {
+    setMarked(current => {
+      const next = new Set(current);
+      // Unmark the rows when all of them are marked, otherwise mark them all
+      const unmark = usernames.every(username => current.has(username));
+      usernames.forEach(username => (unmark ? next.delete(username) : next.add(username)));
+      return next;
+    });
+  };
+
+  const toggleColumn = (key: OrgColumnKey) => {
+    const next = visibleColumns.includes(key)
+      ? visibleColumns.filter(column => column !== key)
+      : ORG_COLUMNS.map(c => c.key).filter(column => column === key || visibleColumns.includes(column));
+    if (next.length === 0) {
+      return;
+    }
+    setVisibleColumns(next);
+    config.set('orgManager', { ...config.get<Config['orgManager']>('orgManager'), columns: next });
+  };
+
+  useInput(
+    (input, key) => {
+      if (choosingColumns) {
+        if (key.escape) {
+          setChoosingColumns(false);
+        }
+        return;
+      }
+
+      if (key.escape) {
+        if (query) {
+          changeQuery('');
+        } else if (markedOrgs.length > 0) {
+          setMarked(new Set());
+        } else {
+          onBack();
+        }
+      } else if (key.upArrow) {
+        setSelectedIndex(Math.max(0, selected - 1));
+      } else if (key.downArrow) {
+        setSelectedIndex(Math.min(rows.length - 1, selected + 1));
+      } else if (key.pageUp) {
+        setSelectedIndex(Math.max(0, selected - PAGE_SIZE));
+      } else if (key.pageDown) {
+        setSelectedIndex(Math.max(0, Math.min(rows.length - 1, selected + PAGE_SIZE)));
+      } else if (key.return) {
+        const org = rows[selected];
+        if (markedOrgs.length > 0 && onSelectMany) {
+          onSelectMany(markedOrgs);
+        } else if (org) {
+          onSelect(org);
+        }
+      } else if (input === ' ' && onSelectMany) {
+        const org = rows[selected];
+        if (org) {
+          toggleMarked([org.username]);
+        }
+      } else if (key.ctrl && input === 'a' && onSelectMany) {
+        toggleMarked(rows.map(org => org.username));
+      } else if (key.leftArrow) {
+        moveSortColumn(-1);
+      } else if (key.rightArrow) {
+        moveSortColumn(1);
+      } else if (key.tab) {
+        setSortDirection(direction => (direction === 'asc' ? 'desc' : 'asc'));
+      } else if (key.ctrl && input === 'o') {
+        setChoosingColumns(true);
+      } else if (key.ctrl && input === 'g') {
+        setGrouping(current => GROUPINGS[(GROUPINGS.indexOf(current) + 1) % GROUPINGS.length]!);
+      } else if (key.ctrl && input === 'f') {
+        const org = rows[selected];
+        if (org) {
+          orgMetadata.toggleFavorite(org.orgId);
+        }
+      } else if (key.backspace || key.delete) {
+        changeQuery(query.slice(0, -1));
+      } else if (input && !key.ctrl && !key.meta && /^[\w@.+\-]+$/.test(input)) {
+        changeQuery(query + input);
+      }
+    },
+    { isActive: isFocused }
+  );
+
+  if (choosingColumns) {
+    return (
+      <Box flexDirection="column">
+        <Text bold>Columns</Text>
+        <Box marginTop={1}>
+          <SelectInput
+            isFocused={isFocused}
+            items={[
+              ...ORG_COLUMNS.map(column => ({
+                label: `[${visibleColumns.includes(column.key) ? 'x' : ' '}] ${column.header}`,
+                value: column.key,
+              })),
+              { label: 'Done', value: 'done' },
+            ]}
+            onSelect={item => {
+              if (item.value === 'done') {
+                setChoosingColumns(false);
+              } else {
+                toggleColumn(item.value as OrgColumnKey);
+              }
+            }}
+          />
+        </Box>
+        <Text color="gray">Enter to show or hide a column · ESC when done</Text>
+      </Box>
+    );
+  }
+
+  return (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text>Filter: </Text>
+        {query ? <Text color="cyan">{query}</Text> : <Text color="gray">type to filter</Text>}
+        <Text color="gray">{`  ${rows.length} of ${orgs.length} orgs`}</Text>
+        {markedOrgs.length > 0 && <Text color="cyan">{`  ${markedOrgs.length} marked`}</Text>}
+        {grouping !== 'none' && <Text color="gray">{`  grouped by ${GROUPING_LABELS[grouping]}`}</Text>}
+      </Box>
+
+      {rows.length === 0 ? (
+        <Text color="gray">{`No orgs match "${query}"`}</Text>
+      ) : (
+        <Table
+          data={pageRows}
+          rowKey="username"
+          bordered={false}
+          striped={false}
+          selectedKey={rows[selected]?.username}
+          sortColumn={sortColumn}
+          sortDirection={sortDirection}
+          columns={[
+            // The mark column is only shown while orgs are marked
+            ...(markedOrgs.length > 0
+              ? [
+                  {
+                    key: 'marked',
+                    header: '',
+                    width: 4,
+                    render: (org: SfOrg) => (marked.has(org.username) ? '[x]' : '[ ]'),
+                  },
+                ]
+              : []),
+            ...(grouping !== 'none'
+              ? [
+                  {
+                    key: 'group',
+                    header: 'Group',
+                    width: 12,
+                    truncate: true,
+                    render: (org: SfOrg) =>
+                      groupStarts.has(org.username) ? <Text bold>{getOrgGroup(org, grouping)}</Text> : '',
+                  },
+                ]
+              : []),
+            ...columns.map(column => ({
+              key: column.key,
+              header: column.header,
+              width: column.width,
+              truncate: true,
+              render: (org: SfOrg) => {
+                const color = column.color?.(org, settings?.expirationWarningDays ?? 0);
+                return color ? <Text color={color}>{column.value(org)}</Text> : column.value(org) || '-';
+              },
+            })),
+          ]}
+        />
+      )}
+
+      {rows.length > PAGE_SIZE && (
+        <Text color="gray">
+          {`Rows ${pageStart + 1}-${Math.min(pageStart + PAGE_SIZE, rows.length)} of ${rows.length}`}
+        </Text>
+      )}
+
+      <Box marginTop={1}>
+        <Text color="gray">
+          ↑/↓ select · {markedOrgs.length > 0 ? 'Enter bulk actions' : 'Enter open'}
+          {onSelectMany ? ' · Space mark · Ctrl+A mark all' : ''} · ←/→ sort column · Tab reverse · Ctrl+F favorite · Ctrl+G group · Ctrl+O columns · ESC{' '}
+          {query ? 'clear filter' : markedOrgs.length > 0 ? 'unmark all' : 'back'}
+        </Text>
+      </Box>
+    </Box>
+  );
+};
+
+export default OrgTable;
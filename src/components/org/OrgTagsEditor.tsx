@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import SelectInput from 'ink-select-input';
+import { TextInput } from '../common/TextInput';
+import { orgMetadata, ORG_ENVIRONMENTS, OrgEnvironment, OrgMetadata } from '../../utils/orgMetadata';
+import type { SfOrg } from '../../types/sf';
+
+type Field = 'environment' | 'project' | 'notes';
+
+type OrgTagsEditorProps = {
+  org: SfOrg;
+  onBack: () => void;
+};
+
+/**
+ * Edit the local environment tag, project, notes and favorite flag of an org.
+ * Each change is saved as soon as it is made.
+ */
+export const OrgTagsEditor = ({ org, onBack }: OrgTagsEditorProps) => {
+  const [metadata, setMetadata] = useState<OrgMetadata>(() => orgMetadata.get(org.orgId));
+  const [editing, setEditing] = useState<Field | null>(null);
+  const [draft, setDraft] = useState('');
+
+  useEffect(() => orgMetadata.subscribe(all => setMetadata(all[org.orgId] || {})), [org.orgId]);
+
+  const edit = (field: 'project' | 'notes') => {
+    setDraft(metadata[field] || '');
+    setEditing(field);
+  };
+
+  useInput((input, key) => {
+    if (key.escape) {
+      if (editing) {
+        setEditing(null);
+      } else {
+        onBack();
+      }
+    }
+  });
+
+  const heading = (
+    <Box marginBottom={1}>
+      <Text bold>Tags & Notes: {org.alias || org.username}</Text>
+    </Box>
+  );
+
+  if (editing === 'environment') {
+    const options: Array<OrgEnvironment | ''> = ['', ...ORG_ENVIRONMENTS];
+    return (
+      <Box flexDirection="column">
+        {heading}
+        <Text>Environment:</Text>
+        <Box marginTop={1}>
+          <SelectInput
+            items={options.map(environment => ({ label: environment || '(none)', value: environment }))}
+            initialIndex={Math.max(0, options.indexOf(metadata.environment || ''))}
+            onSelect={item => {
+              orgMetadata.update(org.orgId, { environment: (item.value as OrgEnvironment) || undefined });
+              setEditing(null);
+            }}
+          />
+        </Box>
+        <Text color="gray">ESC to go back</Text>
+      </Box>
+    );
+  }
+
+  if (editing) {
+    return (
+      <Box flexDirection="column">
+        {heading}
+        <Text>{editing === 'project' ? 'Project' : 'Notes'}:</Text>
+        <Box marginTop={1}>
+          <TextInput
+            value={draft}
+            onChange={setDraft}
+            onSubmit={value => {
+              orgMetadata.update(org.orgId, { [editing]: value.trim() });
+              setEditing(null);
+            }}
+            placeholder={editing === 'project' ? 'e.g. billing-revamp' : 'anything worth remembering about this org'}
+          />
+        </Box>
+        <Text color="gray">Enter to save (empty to clear) · ESC to go back</Text>
+      </Box>
+    );
+  }
+
+  return (
+    <Box flexDirection="column">
+      {heading}
+      <SelectInput
+        items={[
+          { label: `Environment: ${metadata.environment || '-'}`, value: 'environment' },
+          { label: `Project: ${metadata.project || '-'}`, value: 'project' },
+          { label: `Notes: ${metadata.notes || '-'}`, value: 'notes' },
+          { label: `Favorite: ${metadata.favorite ? 'yes' : 'no'}`, value: 'favorite' },
+          { label: 'Done', value: 'done' },
+        ]}
+        onSelect={item => {
+          switch (item.value) {
+            case 'environment':
+              setEditing('environment');
+              break;
+            case 'project':
+            case 'notes':
+              edit(item.value);
+              break;
+            case 'favorite':
+              orgMetadata.toggleFavorite(org.orgId);
+              break;
+            case 'done':
+              onBack();
+              break;
+          }
+        }}
+      />
+      <Box marginTop={1}>
+        <Text color="gray">Stored locally by org id · ESC to go back</Text>
+      </Box>
+    </Box>
+  );
+};
+
+export default OrgTagsEditor;
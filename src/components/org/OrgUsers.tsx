@@ -0,0 +1,383 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import SelectInput from 'ink-select-input';
+import Spinner from 'ink-spinner';
+import { Table } from '../common';
+import { TextInput } from '../common/TextInput';
+import CommandPreview from '../common/CommandPreview';
+import {
+  listUsers,
+  createUser,
+  generatePassword,
+  assignPermissions,
+  buildCreateUserArgs,
+  buildGeneratePasswordArgs,
+  buildAssignPermissionsArgs,
+  PermissionKind,
+} from '../../utils/sfCli';
+import { copyToClipboard } from '../../utils/clipboard';
+import { useTheme } from '../../themes';
+import { useShortcutAction } from '../../context/KeyboardShortcuts';
+import { useProductionGuard } from '../../hooks/useProductionGuard';
+import type { SfUser } from '../../types/sf';
+
+/**
+ * Outcome of one action run on a user from this screen
+ */
+export interface UserActionResult {
+  action: string;
+  ok: boolean;
+  message: string;
+}
+
+const PAGE_SIZE = 10;
+
+const DEFAULT_DEFINITION_FILE = 'config/user-def.json';
+
+const PERMISSION_LABELS: Record<PermissionKind, string> = {
+  permset: 'Permission Sets',
+  permsetlicense: 'Permission Set Licenses',
+};
+
+/**
+ * Split a comma or space separated list of names
+ */
+export function parseNames(value: string): string[] {
+  return value.split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * Date part of a Salesforce datetime, or '-' when the user never logged in
+ */
+export function formatLastLogin(user: SfUser): string {
+  return user.LastLoginDate ? user.LastLoginDate.slice(0, 10) : '-';
+}
+
+type Step = 'list' | 'user' | 'create' | 'assign' | 'working';
+
+type OrgUsersProps = {
+  /**
+   * Org (alias or username) whose users are managed
+   */
+  targetOrg: string;
+  onBack: () => void;
+};
+
+/**
+ * Users of an org: lists them, creates users from definition files,
+ * generates passwords and assigns permission sets and licenses, keeping
+ * the outcome of each action next to the user it was run for.
+ */
+export const OrgUsers = ({ targetOrg, onBack }: OrgUsersProps) => {
+  const theme = useTheme();
+  const [users, setUsers] = useState<SfUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [step, setStep] = useState<Step>('list');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [draft, setDraft] = useState('');
+  const [permissionKind, setPermissionKind] = useState<PermissionKind>('permset');
+  // Outcomes of the actions run from this screen, by username
+  const [results, setResults] = useState<Record<string, UserActionResult[]>>({});
+  const [note, setNote] = useState('');
+  const productionGuard = useProductionGuard();
+
+  const selected = Math.min(selectedIndex, Math.max(0, users.length - 1));
+  const selectedUser = users[selected];
+  const pageStart = Math.max(0, selected - PAGE_SIZE + 1);
+
+  const loadUsers = async (refresh = false) => {
+    setIsLoading(true);
+    setError('');
+    try {
+      setUsers(await listUsers(targetOrg, { context: 'OrgUsers', ...(refresh ? { cache: false } : {}) }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadUsers();
+  }, [targetOrg]);
+
+  useShortcutAction('refresh', isLoading || step !== 'list' ? null : () => loadUsers(true));
+
+  const addResult = (username: string, result: UserActionResult) => {
+    setResults(current => ({ ...current, [username]: [...(current[username] || []), result] }));
+  };
+
+  // Run one action once it is confirmed for production orgs, then go back to where it started
+  const runAction = async (args: string[], returnTo: Step, action: () => Promise<void>) => {
+    setNote('');
+    if (!(await productionGuard.confirm(args))) {
+      setNote('Not run: the org name was not confirmed.');
+      return;
+    }
+    setStep('working');
+    await action();
+    setStep(returnTo);
+  };
+
+  const create = (definitionFile: string) =>
+    runAction(buildCreateUserArgs(targetOrg, { definitionFile, setUniqueUsername: true }), 'list', async () => {
+      try {
+        const created = await createUser(targetOrg, { definitionFile, setUniqueUsername: true, context: 'OrgUsers' });
+        addResult(created.fields.username, {
+          action: 'Create',
+          ok: true,
+          message: `Created from ${definitionFile}`,
+        });
+        setNote(`Created ${created.fields.username}`);
+        await loadUsers();
+      } catch (err) {
+        setNote(`Failed to create a user from ${definitionFile}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    });
+
+  const resetPassword = (user: SfUser) =>
+    runAction(buildGeneratePasswordArgs(targetOrg, [user.Username]), 'user', async () => {
+      try {
+        const [generated] = await generatePassword(targetOrg, [user.Username], { context: 'OrgUsers' });
+        if (!generated) {
+          throw new Error('No password returned');
+        }
+        addResult(user.Username, { action: 'Password', ok: true, message: generated.password });
+        setNote(copyToClipboard(generated.password) ? 'Password copied to clipboard' : '');
+      } catch (err) {
+        addResult(user.Username, {
+          action: 'Password',
+          ok: false,
+          message: err instanceof Error ? err.message : String(err),
+        });
+      }
+    });
+
+  const assign = (user: SfUser, kind: PermissionKind, names: string[]) =>
+    runAction(buildAssignPermissionsArgs(targetOrg, kind, names, user.Username), 'user', async () => {
+      const label = PERMISSION_LABELS[kind];
+      try {
+        const { successes, failures } = await assignPermissions(targetOrg, kind, names, user.Username, {
+          context: 'OrgUsers',
+        });
+        for (const success of successes) {
+          addResult(user.Username, { action: label, ok: true, message: `Assigned ${success.name}` });
+        }
+        for (const failure of failures) {
+          addResult(user.Username, { action: label, ok: false, message: `${failure.name}: ${failure.message}` });
+        }
+      } catch (err) {
+        addResult(user.Username, {
+          action: label,
+          ok: false,
+          message: err instanceof Error ? err.message : String(err),
+        });
+      }
+    });
+
+  useInput((input, key) => {
+    if (productionGuard.dialog || step === 'working') {
+      // The confirmation dialog handles its own keys
+      return;
+    }
+    if (step === 'list') {
+      if (key.escape) {
+        onBack();
+      } else if (key.upArrow) {
+        setSelectedIndex(Math.max(0, selected - 1));
+      } else if (key.downArrow) {
+        setSelectedIndex(Math.min(users.length - 1, selected + 1));
+      } else if (key.return && selectedUser) {
+        setNote('');
+        setStep('user');
+      } else if (key.ctrl && input === 'n') {
+        setDraft(DEFAULT_DEFINITION_FILE);
+        setNote('');
+        setStep('create');
+      }
+    } else if (key.escape) {
+      setStep(step === 'assign' ? 'user' : 'list');
+    }
+  });
+
+  if (productionGuard.dialog) {
+    return productionGuard.dialog;
+  }
+
+  const heading = (
+    <Box marginBottom={1}>
+      <Text bold>Users of {targetOrg}</Text>
+      {!isLoading && <Text color="gray">{`  ${users.length} user${users.length === 1 ? '' : 's'}`}</Text>}
+    </Box>
+  );
+
+  const noteLine = note ? <Text color="gray" italic>{note}</Text> : null;
+
+  if (step === 'working') {
+    return (
+      <Box flexDirection="column">
+        {heading}
+        <Text>
+          <Spinner type="dots" /> Working...
+        </Text>
+      </Box>
+    );
+  }
+
+  if (step === 'create') {
+    return (
+      <Box flexDirection="column">
+        {heading}
+        <Box>
+          <Text>Definition File: </Text>
+          <TextInput
+            value={draft}
+            onChange={setDraft}
+            placeholder={DEFAULT_DEFINITION_FILE}
+            onSubmit={value => value.trim() && create(value.trim())}
+          />
+        </Box>
+        <Box marginTop={1}>
+          <CommandPreview
+            args={buildCreateUserArgs(targetOrg, { definitionFile: draft.trim() || DEFAULT_DEFINITION_FILE, setUniqueUsername: true })}
+          />
+        </Box>
+        {noteLine}
+        <Text color="gray">The org id is appended to usernames to keep them unique · Enter to create · ESC to go back</Text>
+      </Box>
+    );
+  }
+
+  if (step === 'assign' && selectedUser) {
+    const names = parseNames(draft);
+    return (
+      <Box flexDirection="column">
+        {heading}
+        <Text>
+          {PERMISSION_LABELS[permissionKind]} for <Text bold>{selectedUser.Username}</Text>:
+        </Text>
+        <TextInput
+          value={draft}
+          onChange={setDraft}
+          placeholder={permissionKind === 'permset' ? 'QA_Access, Reports_Viewer' : 'SalesConsoleUser'}
+          onSubmit={() => names.length > 0 && assign(selectedUser, permissionKind, names)}
+        />
+        {names.length > 0 && (
+          <Box marginTop={1}>
+            <CommandPreview args={buildAssignPermissionsArgs(targetOrg, permissionKind, names, selectedUser.Username)} />
+          </Box>
+        )}
+        <Text color="gray">Separate names with commas · Enter to assign · ESC to go back</Text>
+      </Box>
+    );
+  }
+
+  if (step === 'user' && selectedUser) {
+    const userResults = results[selectedUser.Username] || [];
+    return (
+      <Box flexDirection="column">
+        {heading}
+        <Box flexDirection="column" marginBottom={1}>
+          <Text bold>{selectedUser.Name}</Text>
+          <Text>Username: {selectedUser.Username}</Text>
+          <Text>Profile: {selectedUser.Profile?.Name || '-'}</Text>
+          <Text>Email: {selectedUser.Email || '-'}</Text>
+          <Text>
+            Status: {selectedUser.IsActive ? 'Active' : 'Inactive'} · Last login: {formatLastLogin(selectedUser)}
+          </Text>
+        </Box>
+
+        {userResults.length > 0 && (
+          <Box flexDirection="column" marginBottom={1} borderStyle="round" paddingX={1}>
+            <Text bold>Results</Text>
+            {userResults.map((result, index) => (
+              <Text key={index} color={result.ok ? theme.colors.success : theme.colors.error}>
+                {result.ok ? '✓' : '✗'} {result.action}: {result.message}
+              </Text>
+            ))}
+          </Box>
+        )}
+
+        <SelectInput
+          items={[
+            { label: 'Generate Password', value: 'password' },
+            { label: 'Assign Permission Sets…', value: 'permset' },
+            { label: 'Assign Permission Set Licenses…', value: 'permsetlicense' },
+            { label: 'Back to Users', value: 'back' },
+          ]}
+          onSelect={item => {
+            if (item.value === 'password') {
+              resetPassword(selectedUser);
+            } else if (item.value === 'back') {
+              setStep('list');
+            } else {
+              setPermissionKind(item.value as PermissionKind);
+              setDraft('');
+              setStep('assign');
+            }
+          }}
+        />
+        {noteLine}
+        <Text color="gray">ESC to go back</Text>
+      </Box>
+    );
+  }
+
+  return (
+    <Box flexDirection="column">
+      {heading}
+      {isLoading ? (
+        <Text>
+          <Spinner type="dots" /> Loading users...
+        </Text>
+      ) : error ? (
+        <Text color={theme.colors.error}>Error: {error}</Text>
+      ) : users.length === 0 ? (
+        <Text color="gray">No users found</Text>
+      ) : (
+        <Table
+          data={users.slice(pageStart, pageStart + PAGE_SIZE)}
+          rowKey="Id"
+          bordered={false}
+          striped={false}
+          selectedKey={selectedUser?.Id}
+          columns={[
+            { key: 'name', header: 'Name', width: 18, truncate: true, render: user => user.Name },
+            { key: 'username', header: 'Username', width: 28, truncate: true, render: user => user.Username },
+            { key: 'profile', header: 'Profile', width: 18, truncate: true, render: user => user.Profile?.Name || '-' },
+            {
+              key: 'active',
+              header: 'Active',
+              width: 7,
+              render: user => (user.IsActive ? 'yes' : <Text color="gray">no</Text>),
+            },
+            { key: 'login', header: 'Last Login', width: 11, render: formatLastLogin },
+            {
+              key: 'result',
+              header: 'Result',
+              width: 16,
+              truncate: true,
+              render: user => {
+                const last = results[user.Username]?.slice(-1)[0];
+                return last ? (
+                  <Text color={last.ok ? theme.colors.success : theme.colors.error}>
+                    {last.ok ? '✓' : '✗'} {last.action}
+                  </Text>
+                ) : (
+                  ''
+                );
+              },
+            },
+          ]}
+        />
+      )}
+      {noteLine}
+      <Box marginTop={1}>
+        <Text color="gray">↑/↓ select · Enter for actions · Ctrl+N create from a definition file · Ctrl+R refresh · ESC to go back</Text>
+      </Box>
+    </Box>
+  );
+};
+
+export default OrgUsers;
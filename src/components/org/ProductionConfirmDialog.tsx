@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { useTheme } from '../../themes';
+import { TextInput } from '../common/TextInput';
+import { formatSfCommand } from '../../utils/sfCli';
+import { getConfirmationName, GuardedOrg } from '../../utils/productionGuard';
+
+type ProductionConfirmDialogProps = {
+  /**
+   * The production org the command changes
+   */
+  org: GuardedOrg;
+
+  /**
+   * Arguments of the sf command waiting to run
+   */
+  args: string[];
+
+  onConfirm: () => void;
+  onCancel: () => void;
+};
+
+/**
+ * Asks for the alias (or username) of a production org to be typed before
+ * a command that changes it runs. ESC cancels the command.
+ */
+export const ProductionConfirmDialog = ({ org, args, onConfirm, onCancel }: ProductionConfirmDialogProps) => {
+  const theme = useTheme();
+  const [typed, setTyped] = useState('');
+  const name = getConfirmationName(org);
+
+  useInput((input, key) => {
+    if (key.escape) {
+      onCancel();
+    }
+  });
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor={theme.colors.error} paddingX={1}>
+      <Text bold color={theme.colors.error}>
+        ⚠️  PRODUCTION: {name}
+      </Text>
+      <Box flexDirection="column" marginY={1}>
+        <Text>
+          {org.unknown
+            ? 'Could not check this org, so it is treated as production. This command changes it:'
+            : 'This command changes a production org:'}
+        </Text>
+        <Text color={theme.colors.info}>$ {formatSfCommand(args)}</Text>
+      </Box>
+      <Text>
+        Type <Text bold>{name}</Text> to run it:
+      </Text>
+      <TextInput
+        value={typed}
+        onChange={setTyped}
+        onSubmit={value => {
+          if (value === name) {
+            onConfirm();
+          }
+        }}
+      />
+      {typed && !name.startsWith(typed) && <Text color={theme.colors.error}>Type {name} exactly</Text>}
+      <Box marginTop={1}>
+        <Text color="gray">Enter to run · ESC to cancel</Text>
+      </Box>
+    </Box>
+  );
+};
+
+export default ProductionConfirmDialog;
@@ -0,0 +1,419 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import SelectInput from 'ink-select-input';
+import Spinner from 'ink-spinner';
+import { Table } from '../common';
+import { TextInput } from '../common/TextInput';
+import CommandPreview from '../common/CommandPreview';
+import { TimeoutPrompt } from '../jobs/TimeoutPrompt';
+import { formatSfCommand } from '../../utils/sfCli';
+import { jobManager } from '../../utils/jobManager';
+import { sandboxTracker, isCopyInProgress, SandboxCopy } from '../../utils/sandboxTracker';
+import { copyToClipboard } from '../../utils/clipboard';
+import { useJob } from '../../hooks/useJobs';
+import { useProductionGuard } from '../../hooks/useProductionGuard';
+import { useShortcutAction } from '../../context/KeyboardShortcuts';
+
+export type SandboxAction = 'create' | 'refresh';
+
+export type SandboxLicenseType = 'Developer' | 'Developer_Pro' | 'Partial' | 'Full';
+
+export interface SandboxFormValues {
+  name: string;
+  licenseType: SandboxLicenseType;
+  /**
+   * Sandbox to clone instead of copying production
+   */
+  sourceSandbox: string;
+  autoActivate: boolean;
+  /**
+   * Alias of the new sandbox, once it is resumed (create only)
+   */
+  alias: string;
+}
+
+const LICENSE_TYPES: SandboxLicenseType[] = ['Developer', 'Developer_Pro', 'Partial', 'Full'];
+
+/**
+ * Build the sf arguments that request a sandbox copy.
+ * Copies take hours, so the command returns once it is queued (`--async`)
+ * and the copy is followed by polling instead.
+ */
+export const buildSandboxArgs = (
+  action: SandboxAction,
+  values: SandboxFormValues,
+  targetOrg: string
+): string[] => {
+  const args = ['org', action, 'sandbox', '--name', values.name];
+  if (values.sourceSandbox) {
+    args.push('--source-sandbox-name', values.sourceSandbox);
+  } else if (action === 'create') {
+    args.push('--license-type', values.licenseType);
+  }
+  if (action === 'create' && values.alias) args.push('--alias', values.alias);
+  if (!values.autoActivate) args.push('--no-auto-activate');
+  args.push('--target-org', targetOrg, '--async', '--no-prompt');
+  return args;
+};
+
+/**
+ * Build the sf arguments that wait for a sandbox copy and log in to the sandbox
+ */
+export const buildResumeSandboxArgs = (name: string, targetOrg: string): string[] => [
+  'org',
+  'resume',
+  'sandbox',
+  '--name',
+  name,
+  '--target-org',
+  targetOrg,
+];
+
+// Sandbox names are up to 10 letters and numbers, starting with a letter
+const validateName = (value: string): boolean | string =>
+  /^[a-zA-Z][a-zA-Z0-9]{0,9}$/.test(value) || 'Use up to 10 letters and numbers, starting with a letter';
+
+const STATUS_COLORS: Record<string, string> = {
+  Completed: 'green',
+  Stopped: 'red',
+  Suspended: 'red',
+  Deleted: 'gray',
+  Discarded: 'gray',
+};
+
+type View = 'status' | 'pick' | 'name' | 'review' | 'edit';
+
+type EditableField = 'sourceSandbox' | 'alias';
+
+type SandboxManagerProps = {
+  /**
+   * Production org (alias or username) the sandboxes belong to
+   */
+  targetOrg: string;
+  onBack: () => void;
+};
+
+/**
+ * Sandboxes of a production org: their copy status, polled while a copy is
+ * in progress, and forms to create, refresh and resume them.
+ */
+export const SandboxManager = ({ targetOrg, onBack }: SandboxManagerProps) => {
+  const [copies, setCopies] = useState<SandboxCopy[]>(() => sandboxTracker.getCopies(targetOrg));
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [view, setView] = useState<View>('status');
+  const [action, setAction] = useState<SandboxAction | 'resume'>('create');
+  const [editing, setEditing] = useState<EditableField>('sourceSandbox');
+  const [values, setValues] = useState<SandboxFormValues>({
+    name: '',
+    licenseType: 'Developer',
+    sourceSandbox: '',
+    autoActivate: true,
+    alias: '',
+  });
+  const [copyNote, setCopyNote] = useState('');
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const productionGuard = useProductionGuard();
+  const activeJob = useJob(activeJobId);
+
+  // Ctrl+X cancels the running command
+  useShortcutAction(
+    'cancel',
+    activeJob?.status === 'running' ? () => jobManager.cancel(activeJob.id) : null
+  );
+
+  const checkStatus = () => {
+    setIsLoading(true);
+    setError('');
+    sandboxTracker
+      .refresh(targetOrg)
+      .catch(err => setError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setIsLoading(false));
+  };
+
+  useEffect(() => {
+    const unsubscribe = sandboxTracker.subscribe(update => {
+      if (update.targetOrg === targetOrg) {
+        setCopies(update.copies);
+      }
+    });
+    checkStatus();
+    return unsubscribe;
+  }, [targetOrg]);
+
+  // Follow the copy once sf has queued it
+  useEffect(() => {
+    if (activeJob?.status === 'succeeded' && action !== 'resume') {
+      sandboxTracker.watch(targetOrg);
+    }
+  }, [activeJob?.status]);
+
+  const update = (changes: Partial<SandboxFormValues>) => setValues(current => ({ ...current, ...changes }));
+  const formAction: SandboxAction = action === 'refresh' ? 'refresh' : 'create';
+  const commandArgs = buildSandboxArgs(formAction, values, targetOrg);
+
+  useInput((input, key) => {
+    // The confirmation dialog handles its own keys
+    if (!key.escape || productionGuard.dialog) return;
+
+    if (view === 'status') {
+      onBack();
+    } else if (view === 'edit') {
+      setView('review');
+    } else {
+      setView('status');
+    }
+  });
+
+  const startForm = (next: SandboxAction | 'resume') => {
+    setAction(next);
+    setCopyNote('');
+    if (next === 'create') {
+      update({ name: '', sourceSandbox: '', alias: '' });
+      setView('name');
+    } else {
+      setView('pick');
+    }
+  };
+
+  const runJob = async (label: string, args: string[]) => {
+    // Sandboxes are created and refreshed from production orgs, so this usually asks
+    if (!(await productionGuard.confirm(args))) {
+      return;
+    }
+    const job = jobManager.start(args, { label, origin: 'OrgManager' });
+    setActiveJobId(job.id);
+    setView('status');
+  };
+
+  const copyCommand = () => {
+    const copied = copyToClipboard(formatSfCommand(commandArgs));
+    setCopyNote(copied ? 'Copied to clipboard' : 'Clipboard is not available outside a terminal');
+  };
+
+  const renderJob = () => {
+    if (!activeJob) return null;
+    const isRunning = activeJob.status === 'running';
+
+    return (
+      <Box flexDirection="column" marginTop={1}>
+        {isRunning ? (
+          <Text>
+            <Spinner type="dots" /> {activeJob.label}... <Text color="gray">(Ctrl+X to cancel)</Text>
+          </Text>
+        ) : activeJob.status === 'succeeded' ? (
+          <Text color="green">✓ {activeJob.label}</Text>
+        ) : (
+          <Text color="red">
+            ✗ {activeJob.label}: {activeJob.error || activeJob.status}
+          </Text>
+        )}
+        {isRunning && activeJob.timedOut && (
+          <TimeoutPrompt job={activeJob} onBackground={() => setActiveJobId(null)} />
+        )}
+      </Box>
+    );
+  };
+
+  const renderStatus = () => (
+    <Box flexDirection="column">
+      {isLoading && copies.length === 0 ? (
+        <Text>
+          <Spinner type="dots" /> Checking sandboxes...
+        </Text>
+      ) : error ? (
+        <Text color="red">Error: {error}</Text>
+      ) : copies.length === 0 ? (
+        <Text color="gray">No sandboxes found</Text>
+      ) : (
+        <Table
+          data={copies}
+          rowKey="id"
+          bordered={false}
+          striped={false}
+          columns={[
+            { key: 'name', header: 'Name', width: 14, truncate: true, render: copy => copy.name },
+            { key: 'license', header: 'License', width: 15, render: copy => copy.licenseType },
+            {
+              key: 'status',
+              header: 'Status',
+              width: 14,
+              render: copy => <Text color={STATUS_COLORS[copy.status] || 'yellow'}>{copy.status}</Text>,
+            },
+            {
+              key: 'progress',
+              header: 'Copied',
+              width: 8,
+              render: copy => (isCopyInProgress(copy) ? `${copy.progress}%` : '-'),
+            },
+            { key: 'started', header: 'Started', width: 12, render: copy => (copy.startDate || '-').slice(0, 10) },
+            { key: 'ended', header: 'Completed', width: 12, render: copy => (copy.endDate || '-').slice(0, 10) },
+          ]}
+        />
+      )}
+
+      {copies.some(isCopyInProgress) && (
+        <Text color="gray">Copies in progress are checked until they finish; you are notified when they do</Text>
+      )}
+
+      {renderJob()}
+
+      <Box marginTop={1}>
+        <SelectInput
+          isFocused={!(activeJob?.status === 'running' && activeJob.timedOut)}
+          items={[
+            { label: 'Create Sandbox', value: 'create' },
+            ...(copies.length > 0
+              ? [
+                  { label: 'Refresh a Sandbox', value: 'refresh' },
+                  { label: 'Resume a Sandbox (log in once copied)', value: 'resume' },
+                ]
+              : []),
+            { label: 'Check Status Now', value: 'check' },
+            { label: 'Back', value: 'back' },
+          ]}
+          onSelect={item => {
+            if (item.value === 'check') {
+              checkStatus();
+            } else if (item.value === 'back') {
+              onBack();
+            } else {
+              startForm(item.value as SandboxAction | 'resume');
+            }
+          }}
+        />
+      </Box>
+    </Box>
+  );
+
+  const renderPick = () => (
+    <Box flexDirection="column">
+      <Text bold>{action === 'resume' ? 'Resume Which Sandbox?' : 'Refresh Which Sandbox?'}</Text>
+      <Box marginTop={1}>
+        <SelectInput
+          items={copies.map(copy => ({ label: `${copy.name}  (${copy.licenseType}, ${copy.status})`, value: copy.name }))}
+          onSelect={item => {
+            if (action === 'resume') {
+              runJob(`Resume sandbox ${item.value}`, buildResumeSandboxArgs(item.value, targetOrg));
+            } else {
+              update({ name: item.value, sourceSandbox: '' });
+              setView('review');
+            }
+          }}
+        />
+      </Box>
+    </Box>
+  );
+
+  const renderName = () => (
+    <Box flexDirection="column">
+      <Text bold>Sandbox Name</Text>
+      <Box marginTop={1}>
+        <Text>Name: </Text>
+        <TextInput
+          value={values.name}
+          onChange={name => update({ name })}
+          onSubmit={name => validateName(name) === true && setView('review')}
+          validate={validateName}
+        />
+      </Box>
+    </Box>
+  );
+
+  const renderEdit = () => (
+    <Box flexDirection="column">
+      <Text bold>{editing === 'alias' ? 'Alias' : 'Source Sandbox'}</Text>
+      <Box marginTop={1}>
+        <TextInput
+          value={values[editing]}
+          onChange={value => update({ [editing]: value })}
+          onSubmit={() => setView('review')}
+          placeholder={editing === 'alias' ? 'alias for the new sandbox' : 'blank to copy production'}
+        />
+      </Box>
+    </Box>
+  );
+
+  const renderReview = () => (
+    <Box flexDirection="column">
+      <Text bold>
+        {formAction === 'create' ? 'Create' : 'Refresh'} Sandbox {values.name}
+      </Text>
+      {formAction === 'refresh' && (
+        <Text color="yellow">Refreshing replaces all data and metadata in the sandbox</Text>
+      )}
+      <Box marginTop={1}>
+        <CommandPreview args={commandArgs} note={copyNote} />
+      </Box>
+      <SelectInput
+        items={[
+          { label: formAction === 'create' ? 'Create Sandbox' : 'Refresh Sandbox', value: 'run' },
+          ...(formAction === 'create' && !values.sourceSandbox
+            ? [{ label: `License type: ${values.licenseType}`, value: 'license' }]
+            : []),
+          { label: `Clone from: ${values.sourceSandbox || 'production'}`, value: 'sourceSandbox' },
+          { label: `Auto-activate: ${values.autoActivate ? 'Yes' : 'No'}`, value: 'autoActivate' },
+          ...(formAction === 'create' ? [{ label: `Alias: ${values.alias || '(none)'}`, value: 'alias' }] : []),
+          { label: 'Copy Command', value: 'copy' },
+          { label: 'Cancel', value: 'cancel' },
+        ]}
+        onSelect={item => {
+          switch (item.value) {
+            case 'run':
+              runJob(
+                `${formAction === 'create' ? 'Create' : 'Refresh'} sandbox ${values.name}`,
+                commandArgs
+              );
+              break;
+            case 'license': {
+              // Cycle through the license types
+              const index = LICENSE_TYPES.indexOf(values.licenseType);
+              update({ licenseType: LICENSE_TYPES[(index + 1) % LICENSE_TYPES.length] as SandboxLicenseType });
+              break;
+            }
+            case 'sourceSandbox':
+            case 'alias':
+              setEditing(item.value);
+              setView('edit');
+              break;
+            case 'autoActivate':
+              update({ autoActivate: !values.autoActivate });
+              break;
+            case 'copy':
+              copyCommand();
+              break;
+            case 'cancel':
+              setView('status');
+              break;
+          }
+        }}
+      />
+    </Box>
+  );
+
+  return (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text bold>Sandboxes of {targetOrg}</Text>
+      </Box>
+
+      {productionGuard.dialog || (
+        <>
+          {view === 'status' && renderStatus()}
+          {view === 'pick' && renderPick()}
+          {view === 'name' && renderName()}
+          {view === 'review' && renderReview()}
+          {view === 'edit' && renderEdit()}
+        </>
+      )}
+
+      <Box marginTop={1}>
+        <Text color="gray" italic>
+          ESC to go back
+        </Text>
+      </Box>
+    </Box>
+  );
+};
+
+export default SandboxManager;
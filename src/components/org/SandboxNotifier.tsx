@@ -0,0 +1,36 @@
+import { useEffect } from 'react';
+import { sandboxTracker } from '../../utils/sandboxTracker';
+import { useNotifications } from '../../context/NotificationContext';
+
+/**
+ * Notifies when a tracked sandbox copy finishes, whichever screen is open
+ */
+export const SandboxNotifier = () => {
+  const { showNotification } = useNotifications();
+
+  useEffect(
+    () =>
+      sandboxTracker.subscribe(({ targetOrg, finished }) => {
+        for (const copy of finished) {
+          showNotification(
+            copy.status === 'Completed'
+              ? {
+                  type: 'success',
+                  title: `Sandbox ${copy.name} Is Ready`,
+                  message: `The copy from ${targetOrg} has completed. Resume it from the Org Manager to log in.`,
+                }
+              : {
+                  type: 'warning',
+                  title: `Sandbox ${copy.name} ${copy.status}`,
+                  message: `The copy from ${targetOrg} did not complete.`,
+                }
+          );
+        }
+      }),
+    []
+  );
+
+  return null;
+};
+
+export default SandboxNotifier;
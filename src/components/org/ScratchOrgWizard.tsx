@@ -0,0 +1,480 @@
+import React, { useState, useEffect } from 'react';
+import fs from 'fs';
+import path from 'path';
+import { Box, Text, useInput } from 'ink';
+import SelectInput from 'ink-select-input';
+import Spinner from 'ink-spinner';
+import { TextInput } from '../common/TextInput';
+import CommandPreview from '../common/CommandPreview';
+import { JobProgress } from '../jobs/JobProgress';
+import { TimeoutPrompt } from '../jobs/TimeoutPrompt';
+import { getConfigValue, formatSfCommand } from '../../utils/sfCli';
+import { jobManager } from '../../utils/jobManager';
+import { copyToClipboard } from '../../utils/clipboard';
+import { useJob } from '../../hooks/useJobs';
+import { useShortcutAction } from '../../context/KeyboardShortcuts';
+import type { SfOrg } from '../../types/sf';
+
+/**
+ * Scratch org definition file found in the project
+ */
+export interface ScratchDefinition {
+  /**
+   * Path relative to the project directory (e.g. 'config/project-scratch-def.json')
+   */
+  file: string;
+  orgName?: string;
+  edition?: string;
+}
+
+export interface ScratchOrgValues {
+  definitionFile: string;
+  alias: string;
+  durationDays: string;
+  devHub: string;
+  setDefault: boolean;
+  /**
+   * Overrides the edition in the definition file
+   */
+  edition: string;
+}
+
+const EDITIONS = [
+  'developer',
+  'enterprise',
+  'group',
+  'professional',
+  'partner-developer',
+  'partner-enterprise',
+  'partner-group',
+  'partner-professional',
+];
+
+const DEFINITION_PATTERN = /-scratch-def\.json$/;
+
+/**
+ * Find the `config/*-scratch-def.json` files of a project.
+ * Files that are not valid JSON are still listed, without their details.
+ */
+export function findScratchDefinitions(projectDir: string): ScratchDefinition[] {
+  const configDir = path.join(projectDir, 'config');
+  let files: string[];
+  try {
+    files = fs.readdirSync(configDir).filter(file => DEFINITION_PATTERN.test(file)).sort();
+  } catch {
+    return [];
+  }
+
+  return files.map(file => {
+    const definition: ScratchDefinition = { file: `config/${file}` };
+    try {
+      const content = JSON.parse(fs.readFileSync(path.join(configDir, file), 'utf8'));
+      if (typeof content.orgName === 'string') definition.orgName = content.orgName;
+      if (typeof content.edition === 'string') definition.edition = content.edition;
+    } catch {
+      // Let sf report what is wrong with the file
+    }
+    return definition;
+  });
+}
+
+/**
+ * Build the sf arguments that create a scratch org
+ */
+export const buildScratchOrgArgs = (values: ScratchOrgValues): string[] => {
+  const args = ['org', 'create', 'scratch', '--definition-file', values.definitionFile];
+  if (values.alias) args.push('--alias', values.alias);
+  if (values.durationDays) args.push('--duration-days', values.durationDays);
+  if (values.devHub) args.push('--target-dev-hub', values.devHub);
+  if (values.setDefault) args.push('--set-default');
+  if (values.edition) args.push('--edition', values.edition);
+  return args;
+};
+
+/**
+ * Build the sf arguments that assign permission sets, from a comma separated list
+ */
+export const buildAssignPermsetArgs = (names: string, targetOrg: string): string[] => [
+  'org',
+  'assign',
+  'permset',
+  ...names
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+    .flatMap(name => ['--name', name]),
+  '--target-org',
+  targetOrg,
+];
+
+const validateDuration = (value: string): boolean | string =>
+  (/^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= 30) || 'Duration must be 1 to 30 days';
+
+type Step = 'definition' | 'alias' | 'duration' | 'devhub' | 'edition' | 'review' | 'creating' | 'permsets';
+
+// Step ESC returns to; the wizard closes from the others
+const PREVIOUS_STEPS: Partial<Record<Step, Step>> = {
+  alias: 'definition',
+  duration: 'alias',
+  devhub: 'duration',
+  review: 'devhub',
+  edition: 'review',
+  permsets: 'creating',
+};
+
+type ScratchOrgWizardProps = {
+  /**
+   * Authenticated orgs, to offer the Dev Hubs among them
+   */
+  orgs: SfOrg[];
+  /**
+   * Called when the wizard is closed, with whether an org was created
+   */
+  onDone: (created: boolean) => void;
+  projectDir?: string;
+};
+
+/**
+ * Creates a scratch org from one of the project's definition files, then
+ * optionally pushes source and assigns permission sets to it.
+ */
+export const ScratchOrgWizard = ({ orgs, onDone, projectDir = process.cwd() }: ScratchOrgWizardProps) => {
+  const [definitions] = useState(() => findScratchDefinitions(projectDir));
+  const [step, setStep] = useState<Step>('definition');
+  const [values, setValues] = useState<ScratchOrgValues>({
+    definitionFile: '',
+    alias: '',
+    durationDays: '7',
+    devHub: '',
+    setDefault: false,
+    edition: '',
+  });
+  const [permsets, setPermsets] = useState('');
+  const [copyNote, setCopyNote] = useState('');
+  const [createJobId, setCreateJobId] = useState<string | null>(null);
+  const [followUpJobId, setFollowUpJobId] = useState<string | null>(null);
+  const createJob = useJob(createJobId);
+  const followUpJob = useJob(followUpJobId);
+  const activeJob = followUpJob || createJob;
+  const devHubs = orgs.filter(org => org.isDevHub || org.isDefaultDevHub);
+
+  // Ctrl+X cancels the running command
+  useShortcutAction(
+    'cancel',
+    activeJob?.status === 'running' ? () => jobManager.cancel(activeJob.id) : null
+  );
+
+  // Default to the project's target-dev-hub
+  useEffect(() => {
+    getConfigValue('target-dev-hub', { context: 'ScratchOrgWizard.loadDevHub' })
+      .then(devHub => {
+        if (devHub) {
+          setValues(current => (current.devHub ? current : { ...current, devHub }));
+        }
+      })
+      .catch(() => {
+        // Failure has already been reported by the sf gateway
+      });
+  }, []);
+
+  const update = (changes: Partial<ScratchOrgValues>) => setValues(current => ({ ...current, ...changes }));
+  const commandArgs = buildScratchOrgArgs(values);
+  const selectedDefinition = definitions.find(definition => definition.file === values.definitionFile);
+
+  useInput((input, key) => {
+    if (!key.escape) return;
+
+    const previous = PREVIOUS_STEPS[step];
+    if (previous) {
+      setStep(previous);
+    } else {
+      onDone(createJob?.status === 'succeeded');
+    }
+  });
+
+  const createOrg = () => {
+    setCopyNote('');
+    const job = jobManager.start(commandArgs, {
+      label: `Create scratch org ${values.alias}`,
+      origin: 'OrgManager',
+      params: { ...values, setDefault: String(values.setDefault) },
+    });
+    setCreateJobId(job.id);
+    setFollowUpJobId(null);
+    setStep('creating');
+  };
+
+  const runFollowUp = (label: string, args: string[]) => {
+    const job = jobManager.start(args, { label, origin: 'OrgManager' });
+    setFollowUpJobId(job.id);
+    setStep('creating');
+  };
+
+  const copyCommand = () => {
+    const copied = copyToClipboard(formatSfCommand(commandArgs));
+    setCopyNote(copied ? 'Copied to clipboard' : 'Clipboard is not available outside a terminal');
+  };
+
+  const renderDefinitionStep = () =>
+    definitions.length === 0 ? (
+      <Box flexDirection="column">
+        <Text color="yellow">No scratch org definitions found in {path.join(projectDir, 'config')}</Text>
+        <Text color="gray">Definition files are named like config/project-scratch-def.json</Text>
+      </Box>
+    ) : (
+      <Box flexDirection="column">
+        <Text bold>Definition File</Text>
+        <Box marginTop={1}>
+          <SelectInput
+            items={definitions.map(definition => ({
+              label: `${definition.file}${definition.edition ? `  (${definition.edition})` : ''}`,
+              value: definition.file,
+            }))}
+            onSelect={item => {
+              update({ definitionFile: item.value });
+              setStep('alias');
+            }}
+          />
+        </Box>
+      </Box>
+    );
+
+  const renderAliasStep = () => (
+    <Box flexDirection="column">
+      <Text bold>Alias</Text>
+      <Text color="gray">Used to push source and assign permission sets once the org is created</Text>
+      <Box marginTop={1}>
+        <Text>Alias: </Text>
+        <TextInput
+          value={values.alias}
+          onChange={alias => update({ alias })}
+          onSubmit={alias => alias.trim() && setStep('duration')}
+          validate={alias => /^\S+$/.test(alias) || 'Alias is required and cannot contain spaces'}
+        />
+      </Box>
+    </Box>
+  );
+
+  const renderDurationStep = () => (
+    <Box flexDirection="column">
+      <Text bold>Duration</Text>
+      <Box marginTop={1}>
+        <Text>Days (1-30): </Text>
+        <TextInput
+          value={values.durationDays}
+          onChange={durationDays => update({ durationDays })}
+          onSubmit={durationDays => validateDuration(durationDays) === true && setStep('devhub')}
+          validate={validateDuration}
+        />
+      </Box>
+    </Box>
+  );
+
+  const renderDevHubStep = () => {
+    const initialIndex = devHubs.findIndex(org => [org.alias, org.username].includes(values.devHub));
+
+    return (
+      <Box flexDirection="column">
+        <Text bold>Dev Hub</Text>
+        {devHubs.length > 0 ? (
+          <Box marginTop={1}>
+            <SelectInput
+              initialIndex={Math.max(0, initialIndex)}
+              items={devHubs.map(org => ({
+                label: `${org.alias || org.username}${org.alias ? ` (${org.username})` : ''}${org.isDefaultDevHub ? ' [default]' : ''}`,
+                value: org.alias || org.username,
+              }))}
+              onSelect={item => {
+                update({ devHub: item.value });
+                setStep('review');
+              }}
+            />
+          </Box>
+        ) : (
+          <Box marginTop={1}>
+            <Text>Dev Hub: </Text>
+            <TextInput
+              value={values.devHub}
+              onChange={devHub => update({ devHub })}
+              onSubmit={() => setStep('review')}
+              placeholder="username or alias (blank for target-dev-hub)"
+            />
+          </Box>
+        )}
+      </Box>
+    );
+  };
+
+  const renderEditionStep = () => (
+    <Box flexDirection="column">
+      <Text bold>Edition</Text>
+      <Box marginTop={1}>
+        <SelectInput
+          items={[
+            {
+              label: `From the definition file${selectedDefinition?.edition ? ` (${selectedDefinition.edition})` : ''}`,
+              value: '',
+            },
+            ...EDITIONS.map(edition => ({ label: edition, value: edition })),
+          ]}
+          onSelect={item => {
+            update({ edition: item.value });
+            setStep('review');
+          }}
+        />
+      </Box>
+    </Box>
+  );
+
+  const renderReviewStep = () => (
+    <Box flexDirection="column">
+      <Text bold>Review</Text>
+      <Box flexDirection="column" marginTop={1} marginBottom={1}>
+        <Text>Definition: {values.definitionFile}</Text>
+        <Text>Alias: {values.alias}</Text>
+        <Text>Duration: {values.durationDays} days</Text>
+        <Text>Dev Hub: {values.devHub || 'target-dev-hub'}</Text>
+      </Box>
+      <CommandPreview args={commandArgs} note={copyNote} />
+      <SelectInput
+        items={[
+          { label: 'Create Scratch Org', value: 'create' },
+          { label: `Set as default org: ${values.setDefault ? 'Yes' : 'No'}`, value: 'set-default' },
+          { label: `Edition: ${values.edition || selectedDefinition?.edition || 'from definition file'}`, value: 'edition' },
+          { label: 'Copy Command', value: 'copy' },
+          { label: 'Start Over', value: 'restart' },
+        ]}
+        onSelect={item => {
+          switch (item.value) {
+            case 'create':
+              createOrg();
+              break;
+            case 'set-default':
+              update({ setDefault: !values.setDefault });
+              break;
+            case 'edition':
+              setStep('edition');
+              break;
+            case 'copy':
+              copyCommand();
+              break;
+            case 'restart':
+              setStep('definition');
+              break;
+          }
+        }}
+      />
+    </Box>
+  );
+
+  const renderCreatingStep = () => {
+    if (!activeJob) return null;
+    const isRunning = activeJob.status === 'running';
+    const jobError = activeJob.status === 'failed' ? `Error: ${activeJob.error}` : '';
+
+    return (
+      <Box flexDirection="column">
+        {isRunning ? (
+          <Text bold>
+            <Spinner type="dots" /> {activeJob.label}...{' '}
+            <Text color="gray">(Ctrl+X to cancel · continues in Jobs if you leave this screen)</Text>
+          </Text>
+        ) : activeJob.status === 'succeeded' ? (
+          <Text color="green">✓ {activeJob.label}</Text>
+        ) : (
+          <Text color="red">✗ {activeJob.label} {activeJob.status}</Text>
+        )}
+
+        {isRunning && activeJob.timedOut && <TimeoutPrompt job={activeJob} />}
+        {isRunning && activeJob.progress && (
+          <Box marginTop={1}>
+            <JobProgress progress={activeJob.progress} detailed={activeJob === createJob} />
+          </Box>
+        )}
+
+        <Box marginTop={1} borderStyle="round" padding={1} height={10} overflow="hidden">
+          <Text>{jobError || activeJob.output}</Text>
+        </Box>
+
+        {!isRunning && (
+          <SelectInput
+            items={[
+              ...(createJob?.status === 'succeeded'
+                ? [
+                    { label: 'Push Source', value: 'push' },
+                    { label: 'Assign Permission Sets', value: 'permsets' },
+                  ]
+                : [{ label: 'Back to Review', value: 'review' }]),
+              { label: 'Done', value: 'done' },
+            ]}
+            onSelect={item => {
+              switch (item.value) {
+                case 'push':
+                  runFollowUp(`Push source to ${values.alias}`, [
+                    'project',
+                    'deploy',
+                    'start',
+                    '--target-org',
+                    values.alias,
+                  ]);
+                  break;
+                case 'permsets':
+                  setStep('permsets');
+                  break;
+                case 'review':
+                  setStep('review');
+                  break;
+                case 'done':
+                  onDone(createJob?.status === 'succeeded');
+                  break;
+              }
+            }}
+          />
+        )}
+      </Box>
+    );
+  };
+
+  const renderPermsetsStep = () => (
+    <Box flexDirection="column">
+      <Text bold>Assign Permission Sets</Text>
+      <Box marginTop={1}>
+        <Text>Permission sets: </Text>
+        <TextInput
+          value={permsets}
+          onChange={setPermsets}
+          onSubmit={names =>
+            names.trim() &&
+            runFollowUp(`Assign permission sets in ${values.alias}`, buildAssignPermsetArgs(names, values.alias))
+          }
+          placeholder="Comma separated API names"
+        />
+      </Box>
+    </Box>
+  );
+
+  return (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text bold>New Scratch Org</Text>
+      </Box>
+
+      {step === 'definition' && renderDefinitionStep()}
+      {step === 'alias' && renderAliasStep()}
+      {step === 'duration' && renderDurationStep()}
+      {step === 'devhub' && renderDevHubStep()}
+      {step === 'edition' && renderEditionStep()}
+      {step === 'review' && renderReviewStep()}
+      {step === 'creating' && renderCreatingStep()}
+      {step === 'permsets' && renderPermsetsStep()}
+
+      <Box marginTop={1}>
+        <Text color="gray" italic>
+          {PREVIOUS_STEPS[step] ? 'ESC to go back a step' : 'ESC to close'}
+        </Text>
+      </Box>
+    </Box>
+  );
+};
+
+export default ScratchOrgWizard;
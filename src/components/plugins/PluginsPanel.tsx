@@ -2,19 +2,12 @@ import React, { useState, useEffect } from 'react';
 import { Box, Text, useInput, useApp, Newline } from 'ink';
 import SelectInput from 'ink-select-input';
 import chalk from 'chalk';
-import { execa } from 'execa';
 import Spinner from 'ink-spinner';
 import { TextInput } from '../common/TextInput';
+import { listPlugins, streamSfCommand } from '../../utils/sfCli';
+import type { SfPlugin } from '../../types/sf';
 
-type Plugin = {
-  name: string;
-  version: string;
-  type: string;
-  location?: string;
-  homepage?: string;
-  updateAvailable?: boolean;
-  latestVersion?: string;
-};
+type Plugin = SfPlugin;
 
 type PluginsPanelProps = {
   onBack: () => void;
@@ -43,14 +36,8 @@ export const PluginsPanel = ({ onBack }: PluginsPanelProps) => {
       setError('');
       
       // Run sf plugins command
-      const { stdout } = await execa('sf', ['plugins', '--json']);
-      const result = JSON.parse(stdout);
-      
-      if (Array.isArray(result)) {
-        setPlugins(result);
-      } else {
-        setPlugins([]);
-      }
+      const pluginList = await listPlugins({ context: 'PluginsPanel.loadPlugins' });
+      setPlugins(pluginList);
     } catch (err) {
       setError(`Failed to load plugins: ${err instanceof Error ? err.message : String(err)}`);
       setPlugins([]);
@@ -64,19 +51,12 @@ export const PluginsPanel = ({ onBack }: PluginsPanelProps) => {
       setIsCheckingForUpdates(true);
       setOutput('');
       
-      const process = execa('sf', ['plugins', 'update', '--json']);
-      
       // Stream output
-      process.stdout?.on('data', (data) => {
-        setOutput(prev => prev + data.toString());
-      });
-      
-      process.stderr?.on('data', (data) => {
-        setOutput(prev => prev + data.toString());
+      await streamSfCommand(['plugins', 'update'], {
+        context: 'PluginsPanel.checkForUpdates',
+        onOutput: (chunk) => setOutput(prev => prev + chunk),
       });
       
-      await process;
-      
       // Reload plugins after update check
       await loadPlugins();
     } catch (err) {
@@ -91,19 +71,12 @@ export const PluginsPanel = ({ onBack }: PluginsPanelProps) => {
       setIsProcessing(true);
       setOutput('');
       
-      const process = execa('sf', [command, ...args]);
-      
       // Stream output
-      process.stdout?.on('data', (data) => {
-        setOutput(prev => prev + data.toString());
+      await streamSfCommand([command, ...args], {
+        context: 'PluginsPanel.runCommand',
+        onOutput: (chunk) => setOutput(prev => prev + chunk),
       });
       
-      process.stderr?.on('data', (data) => {
-        setOutput(prev => prev + data.toString());
-      });
-      
-      await process;
-      
       // Reload plugins after command completes
       await loadPlugins();
       return true;
@@ -2,9 +2,11 @@ import React, { useState } from 'react';
 import { Box, Text, useInput, useApp, Newline } from 'ink';
 import SelectInput from 'ink-select-input';
 import chalk from 'chalk';
-import { execa } from 'execa';
 import Spinner from 'ink-spinner';
 import { TextInput } from '../common/TextInput';
+import { streamSfCommand, formatSfCommand } from '../../utils/sfCli';
+import { copyToClipboard } from '../../utils/clipboard';
+import CommandPreview from '../common/CommandPreview';
 
 type ProjectManagerProps = {
   onBack: () => void;
@@ -45,6 +47,41 @@ const PROJECT_TYPES = [
   },
 ];
 
+/**
+ * Build the sf arguments that generate a project
+ */
+export const buildProjectArgs = (
+  projectType: ProjectType,
+  projectName: string,
+  directory: string
+): string[] => {
+  const args = ['project', 'generate', '--name', projectName];
+  
+  // Add project type specific flags
+  switch (projectType) {
+    case 'empty':
+      args.push('--empty');
+      break;
+    case 'analytics':
+      args.push('--template', 'analytics');
+      break;
+    case 'functions':
+      args.push('--template', 'functions');
+      break;
+    case 'lwc':
+      args.push('--template', 'lwc');
+      break;
+    case 'pkg':
+      args.push('--template', 'package');
+      break;
+    // 'standard' is the default
+  }
+  
+  // Set output directory
+  args.push('--output-dir', directory);
+  return args;
+};
+
 export const ProjectGenerator = ({ onBack }: ProjectManagerProps) => {
   const [step, setStep] = useState<'type' | 'name' | 'directory' | 'creating'>('type');
   const [projectType, setProjectType] = useState<ProjectType>('standard');
@@ -53,6 +90,14 @@ export const ProjectGenerator = ({ onBack }: ProjectManagerProps) => {
   const [output, setOutput] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [createdProjectPath, setCreatedProjectPath] = useState('');
+  const [copyNote, setCopyNote] = useState('');
+  
+  const commandArgs = buildProjectArgs(projectType, projectName, directory);
+  
+  const copyCommand = () => {
+    const copied = copyToClipboard(formatSfCommand(commandArgs));
+    setCopyNote(copied ? 'Copied to clipboard' : 'Clipboard is not available outside a terminal');
+  };
 
   useInput((input, key) => {
     if (key.escape) {
@@ -69,45 +114,15 @@ export const ProjectGenerator = ({ onBack }: ProjectManagerProps) => {
     setOutput('');
     
     try {
-      const args = ['project', 'generate', '--name', projectName];
-      
-      // Add project type specific flags
-      switch (projectType) {
-        case 'empty':
-          args.push('--empty');
-          break;
-        case 'analytics':
-          args.push('--template', 'analytics');
-          break;
-        case 'functions':
-          args.push('--template', 'functions');
-          break;
-        case 'lwc':
-          args.push('--template', 'lwc');
-          break;
-        case 'pkg':
-          args.push('--template', 'package');
-          break;
-        // 'standard' is the default
-      }
-      
-      // Set output directory
+      const args = buildProjectArgs(projectType, projectName, directory);
       const projectPath = `${directory}/${projectName}`.replace(/\/\//g, '/');
-      args.push('--output-dir', directory);
-      
-      const process = execa('sf', args);
       
       // Stream output
-      process.stdout?.on('data', (data) => {
-        setOutput(prev => prev + data.toString());
+      await streamSfCommand(args, {
+        context: 'ProjectGenerator.createProject',
+        onOutput: (chunk) => setOutput(prev => prev + chunk),
       });
       
-      process.stderr?.on('data', (data) => {
-        setOutput(prev => prev + data.toString());
-      });
-      
-      await process;
-      
       setCreatedProjectPath(projectPath);
       setStep('creating');
     } catch (error) {
@@ -161,6 +176,8 @@ export const ProjectGenerator = ({ onBack }: ProjectManagerProps) => {
         />
       </Box>
       
+      <CommandPreview args={commandArgs} />
+      
       <Text color="gray" italic>Press Enter to continue, ESC to go back</Text>
     </Box>
   );
@@ -183,10 +200,13 @@ export const ProjectGenerator = ({ onBack }: ProjectManagerProps) => {
         <Text>Full path: {directory}/{projectName}</Text>
       </Box>
       
+      <CommandPreview args={commandArgs} note={copyNote} />
+      
       <Box flexDirection="column" marginBottom={2}>
         <SelectInput
           items={[
             { label: 'Create Project', value: 'create' },
+            { label: 'Copy Command', value: 'copy' },
             { label: 'Change Project Type', value: 'type' },
             { label: 'Change Project Name', value: 'name' },
             { label: 'Cancel', value: 'cancel' },
@@ -196,6 +216,9 @@ export const ProjectGenerator = ({ onBack }: ProjectManagerProps) => {
               case 'create':
                 createProject();
                 break;
+              case 'copy':
+                copyCommand();
+                break;
               case 'type':
                 setStep('type');
                 break;
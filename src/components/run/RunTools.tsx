@@ -1,10 +1,30 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Box, Text, useInput, useApp, Newline } from 'ink';
 import SelectInput from 'ink-select-input';
 import chalk from 'chalk';
-import { execa } from 'execa';
 import Spinner from 'ink-spinner';
 import { TextInput } from '../common/TextInput';
+import { CodeEditor } from '../common/CodeEditor';
+import { ScrollableText } from '../common/ScrollableText';
+import CommandPreview from '../common/CommandPreview';
+import { copyToClipboard } from '../../utils/clipboard';
+import { jobManager } from '../../utils/jobManager';
+import { useJob } from '../../hooks/useJobs';
+import { useProductionGuard, useProductionOrg } from '../../hooks/useProductionGuard';
+import { useTerminalHandoff } from '../../hooks/useTerminalHandoff';
+import { JobProgress } from '../jobs/JobProgress';
+import { TimeoutPrompt } from '../jobs/TimeoutPrompt';
+import { useShortcutAction } from '../../context/KeyboardShortcuts';
+import { formatSfCommand, listOrgs } from '../../utils/sfCli';
+import { orgMetadata } from '../../utils/orgMetadata';
+import {
+  getApexScriptPath,
+  writeApexScript,
+  editApexScript,
+  isTerminalEditor,
+  parseApexRunOutput,
+  ApexRunOutcome,
+} from '../../utils/apexScript';
 
 type RunTool = {
   id: string;
@@ -15,6 +35,10 @@ type RunTool = {
 
 type RunToolsProps = {
   onBack: () => void;
+  /**
+   * Form values to start with (e.g. loaded from the command history)
+   */
+  initialForm?: Record<string, string> | undefined;
 };
 
 const RUN_TOOLS: RunTool[] = [
@@ -50,111 +74,224 @@ const RUN_TOOLS: RunTool[] = [
   },
 ];
 
-export const RunTools = ({ onBack }: RunToolsProps) => {
-  const [selectedTool, setSelectedTool] = useState<RunTool | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [output, setOutput] = useState('');
-  const [error, setError] = useState('');
-  const [targetOrg, setTargetOrg] = useState('');
-  const [apexCode, setApexCode] = useState('System.debug(\'Hello from SF TUI!\');');
-  const [flowName, setFlowName] = useState('');
-  const [soqlQuery, setSoqlQuery] = useState('SELECT Id, Name FROM Account LIMIT 10');
-  const [testClasses, setTestClasses] = useState('');
-  const [isProcessing, setIsProcessing] = useState(false);
+// Parts of the Apex form that Tab moves between
+type ApexFocus = 'code' | 'org' | 'actions' | 'log';
 
-  const runCommand = async (command: string, args: string[] = []) => {
-    try {
-      setIsProcessing(true);
-      setOutput('');
-      setError('');
+// Debug log lines worth picking out
+const DEBUG_LINE_PATTERN = /USER_DEBUG|EXCEPTION_THROWN|FATAL_ERROR/;
+
+type RunToolValues = {
+  targetOrg: string;
+  apexCode: string;
+  flowName: string;
+  soqlQuery: string;
+  testClasses: string;
+};
+
+/**
+ * Build the sf arguments for a tool from the form values
+ */
+export const buildRunToolArgs = (toolId: string, values: RunToolValues): string[] => {
+  const args: string[] = [];
+  
+  switch (toolId) {
+    case 'apex':
+      // Scripts are run from a file, so quotes and new lines need no escaping
+      args.push('apex', 'run', '--file', getApexScriptPath(values.apexCode));
+      break;
       
-      const process = execa('sf', [command, ...args]);
+    case 'flow':
+      args.push('flow', 'run', '--flow', values.flowName);
+      break;
       
-      // Stream output
-      process.stdout?.on('data', (data) => {
-        setOutput(prev => prev + data.toString());
-      });
+    case 'test':
+      args.push('apex', 'run', 'test');
+      if (values.testClasses) args.push('--class-names', values.testClasses);
+      break;
       
-      process.stderr?.on('data', (data) => {
-        setOutput(prev => prev + data.toString());
-      });
+    case 'soql':
+      args.push('data', 'query', '--query', values.soqlQuery);
+      break;
       
-      await process;
-      return true;
-    } catch (err) {
-      setError(`Error: ${err instanceof Error ? err.message : String(err)}`);
-      return false;
-    } finally {
-      setIsProcessing(false);
-    }
-  };
+    case 'data-tree':
+      args.push('data', 'tree', 'view');
+      break;
+  }
+  
+  if (values.targetOrg) args.push('--target-org', values.targetOrg);
+  // The JSON result tells compile errors apart from exceptions
+  if (toolId === 'apex') args.push('--json');
+  return args;
+};
+
+export const RunTools = ({ onBack, initialForm }: RunToolsProps) => {
+  const [selectedTool, setSelectedTool] = useState<RunTool | null>(
+    RUN_TOOLS.find(tool => tool.id === initialForm?.tool) || null
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [targetOrg, setTargetOrg] = useState(initialForm?.targetOrg ?? '');
+  const [apexCode, setApexCode] = useState(initialForm?.apexCode ?? 'System.debug(\'Hello from SF TUI!\');');
+  const [flowName, setFlowName] = useState(initialForm?.flowName ?? '');
+  const [soqlQuery, setSoqlQuery] = useState(initialForm?.soqlQuery ?? 'SELECT Id, Name FROM Account LIMIT 10');
+  const [testClasses, setTestClasses] = useState(initialForm?.testClasses ?? '');
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [copyNote, setCopyNote] = useState('');
+  const [apexFocus, setApexFocus] = useState<ApexFocus>('code');
+  // Aliases (or usernames) of the favorite orgs, suggested for the target org
+  const [favoriteOrgs, setFavoriteOrgs] = useState<string[]>([]);
+  const activeJob = useJob(activeJobId);
+  const productionGuard = useProductionGuard();
+  const isProduction = useProductionOrg(selectedTool ? targetOrg : null);
+  const handOffTerminal = useTerminalHandoff();
+  
+  // Outcome of a finished Apex run, read from its JSON output
+  const apexOutcome: ApexRunOutcome | null =
+    selectedTool?.id === 'apex' && activeJob && activeJob.status !== 'running'
+      ? parseApexRunOutput(activeJob.output)
+      : null;
+  
+  // Ctrl+X cancels the command started from this panel
+  useShortcutAction(
+    'cancel',
+    activeJob?.status === 'running' ? () => jobManager.cancel(activeJob.id) : null
+  );
+
+  useEffect(() => {
+    listOrgs({ context: 'RunTools.loadFavorites', reportErrors: false })
+      .then(orgs =>
+        setFavoriteOrgs(
+          orgs.filter(org => orgMetadata.get(org.orgId).favorite).map(org => org.alias || org.username)
+        )
+      )
+      .catch(() => {
+        // Favorites are only a hint; the target org can always be typed
+      });
+  }, []);
+
+  const formValues: RunToolValues = { targetOrg, apexCode, flowName, soqlQuery, testClasses };
+  const commandArgs = selectedTool ? buildRunToolArgs(selectedTool.id, formValues) : [];
 
   const handleToolSelect = (tool: RunTool) => {
     setSelectedTool(tool);
+    setApexFocus('code');
   };
 
   const executeTool = async () => {
     if (!selectedTool) return;
     
     try {
-      setIsProcessing(true);
-      setOutput('');
+      setActiveJobId(null);
       setError('');
+      setCopyNote('');
       
-      let command = 'data';
-      const args: string[] = [];
+      if (!(await productionGuard.confirm(commandArgs))) {
+        setError('Not run: the org name was not confirmed.');
+        return;
+      }
       
-      switch (selectedTool.id) {
-        case 'apex':
-          command = 'apex';
-          args.push('run', '--code', `"${apexCode}"`);
-          if (targetOrg) args.push('--target-org', targetOrg);
-          break;
-          
-        case 'flow':
-          command = 'flow';
-          args.push('run', '--flow', flowName);
-          if (targetOrg) args.push('--target-org', targetOrg);
-          break;
-          
-        case 'test':
-          command = 'apex';
-          args.push('run', 'test');
-          if (testClasses) args.push('--class-names', testClasses);
-          if (targetOrg) args.push('--target-org', targetOrg);
-          break;
-          
-        case 'soql':
-          command = 'data';
-          args.push('query', '--query', `"${soqlQuery}"`);
-          if (targetOrg) args.push('--target-org', targetOrg);
-          break;
-          
-        case 'data-tree':
-          command = 'data';
-          args.push('tree', 'view');
-          if (targetOrg) args.push('--target-org', targetOrg);
-          break;
+      if (selectedTool.id === 'apex') {
+        writeApexScript(apexCode);
       }
       
-      await runCommand(command, args);
+      // Run the command as a background job so it survives leaving this panel.
+      // Form values are kept in the command history so the form can be reopened.
+      const job = jobManager.start(commandArgs, {
+        label: selectedTool.label,
+        origin: 'RunTools',
+        params: { tool: selectedTool.id, ...formValues },
+      });
+      setActiveJobId(job.id);
     } catch (err) {
       setError(`Failed to execute ${selectedTool.label}: ${err instanceof Error ? err.message : String(err)}`);
-    } finally {
-      setIsProcessing(false);
     }
   };
 
+  // Hand the script to the configured editor and load it back once it is closed
+  const openInEditor = async () => {
+    setError('');
+    try {
+      const edit = () => editApexScript(apexCode);
+      setApexCode(await (isTerminalEditor() ? handOffTerminal(edit) : edit()));
+    } catch (err) {
+      setError(`Failed to open the editor: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const copyCommand = () => {
+    const copied = copyToClipboard(formatSfCommand(commandArgs));
+    setCopyNote(copied ? 'Copied to clipboard' : 'Clipboard is not available outside a terminal');
+  };
+
+  const renderTargetOrg = (focus = true) => (
+    <Box marginBottom={2} flexDirection="column">
+      <Box>
+        <Text>Target Org: </Text>
+        <TextInput
+          value={targetOrg}
+          onChange={setTargetOrg}
+          placeholder="username or alias"
+          focus={focus}
+        />
+      </Box>
+      {isProduction && <Text bold color="red">PRODUCTION org · changes must be confirmed by typing its name</Text>}
+      {favoriteOrgs.length > 0 && <Text color="gray">♥ Favorites: {favoriteOrgs.join(', ')}</Text>}
+    </Box>
+  );
+
   useInput((input, key) => {
+    if (productionGuard.dialog) {
+      // The confirmation dialog handles its own keys
+      return;
+    }
     if (key.escape) {
       if (selectedTool) {
         setSelectedTool(null);
       } else {
         onBack();
       }
+      return;
+    }
+    
+    // Tab moves between the parts of the Apex form
+    if (key.tab && selectedTool?.id === 'apex') {
+      const order: ApexFocus[] = ['code', 'org', 'actions', ...(apexOutcome ? ['log' as const] : [])];
+      const index = order.indexOf(apexFocus);
+      const step = key.shift ? order.length - 1 : 1;
+      setApexFocus(order[(index + step) % order.length] || 'code');
     }
   });
 
+  const renderActions = (
+    runLabel: string,
+    extraItems: { label: string; value: string }[] = [],
+    isFocused = true
+  ) => (
+    <Box flexDirection="column" marginTop={1} marginBottom={2}>
+      <CommandPreview args={commandArgs} note={copyNote} />
+      <SelectInput
+        isFocused={isFocused && !(activeJob?.status === 'running' && activeJob.timedOut)}
+        items={[
+          { label: runLabel, value: 'run' },
+          ...extraItems,
+          { label: 'Copy Command', value: 'copy' },
+          { label: 'Back to Tools', value: 'back' },
+        ]}
+        onSelect={(item) => {
+          if (item.value === 'run') {
+            executeTool();
+          } else if (item.value === 'copy') {
+            copyCommand();
+          } else if (item.value === 'editor') {
+            openInEditor();
+          } else {
+            setSelectedTool(null);
+          }
+        }}
+      />
+    </Box>
+  );
+
   const renderToolList = () => (
     <Box flexDirection="column">
       <Box marginBottom={1}>
@@ -189,44 +326,76 @@ export const RunTools = ({ onBack }: RunToolsProps) => {
         <Text>Enter your Apex code:</Text>
       </Box>
       
-      <Box marginBottom={2} borderStyle="round" padding={1} height={10} overflow="hidden">
-        <TextInput
+      <Box
+        marginBottom={2}
+        borderStyle="round"
+        borderColor={apexFocus === 'code' ? 'cyan' : 'gray'}
+        paddingX={1}
+      >
+        <CodeEditor
           value={apexCode}
           onChange={setApexCode}
-          multiline
-          onSubmit={executeTool}
+          focus={apexFocus === 'code'}
+          errorLine={apexOutcome?.line}
         />
       </Box>
       
-      <Box marginBottom={2}>
-        <Text>Target Org: </Text>
-        <TextInput
-          value={targetOrg}
-          onChange={setTargetOrg}
-          placeholder="username or alias"
-        />
-      </Box>
+      {renderTargetOrg(apexFocus === 'org')}
       
-      <Box marginTop={1} marginBottom={2}>
-        <SelectInput
-          items={[
-            { label: 'Execute', value: 'run' },
-            { label: 'Back to Tools', value: 'back' },
-          ]}
-          onSelect={(item) => {
-            if (item.value === 'run') {
-              executeTool();
-            } else {
-              setSelectedTool(null);
-            }
-          }}
-        />
-      </Box>
+      {renderActions(
+        'Execute',
+        [{ label: 'Open in Editor', value: 'editor' }],
+        apexFocus === 'actions'
+      )}
       
-      <Text color="gray" italic>ESC to go back</Text>
+      <Text color="gray" italic>Tab to move between the code, org, actions and log · ESC to go back</Text>
     </Box>
   );
 
+  const renderApexOutcome = (outcome: ApexRunOutcome) => {
+    const position = outcome.line
+      ? ` at line ${outcome.line}${outcome.column ? `, column ${outcome.column}` : ''}`
+      : '';
+    
+    return (
+      <Box marginTop={2} flexDirection="column">
+        <Box marginBottom={1} flexDirection="column">
+          {outcome.status === 'success' && (
+            <Text color="green" bold>✓ Compiled and executed successfully</Text>
+          )}
+          {outcome.status === 'compile-error' && (
+            <Text color="red" bold>✗ Compile error{position}: <Text bold={false}>{outcome.message}</Text></Text>
+          )}
+          {outcome.status === 'exception' && (
+            <Text color="red" bold>✗ Exception{position}: <Text bold={false}>{outcome.message}</Text></Text>
+          )}
+          {outcome.status === 'error' && (
+            <Text color="red" bold>✗ {outcome.message}</Text>
+          )}
+          {outcome.stackTrace && <Text color="gray">{outcome.stackTrace}</Text>}
+        </Box>
+        
+        {outcome.logs && (
+          <>
+            <Text bold>Debug log:</Text>
+            <Box
+              borderStyle="round"
+              borderColor={apexFocus === 'log' ? 'cyan' : 'gray'}
+              paddingX={1}
+              flexDirection="column"
+            >
+              <ScrollableText
+                content={outcome.logs}
+                focus={apexFocus === 'log'}
+                highlight={DEBUG_LINE_PATTERN}
+              />
+            </Box>
+          </>
+        )}
+      </Box>
+    );
+  };
+
   const renderFlowTool = () => (
     <Box flexDirection="column">
       <Box marginBottom={1}>
@@ -242,30 +411,9 @@ export const RunTools = ({ onBack }: RunToolsProps) => {
         />
       </Box>
       
-      <Box marginBottom={2}>
-        <Text>Target Org: </Text>
-        <TextInput
-          value={targetOrg}
-          onChange={setTargetOrg}
-          placeholder="username or alias"
-        />
-      </Box>
+      {renderTargetOrg()}
       
-      <Box marginTop={1} marginBottom={2}>
-        <SelectInput
-          items={[
-            { label: 'Run Flow', value: 'run' },
-            { label: 'Back to Tools', value: 'back' },
-          ]}
-          onSelect={(item) => {
-            if (item.value === 'run') {
-              executeTool();
-            } else {
-              setSelectedTool(null);
-            }
-          }}
-        />
-      </Box>
+      {renderActions('Run Flow')}
       
       <Text color="gray" italic>ESC to go back</Text>
     </Box>
@@ -286,30 +434,9 @@ export const RunTools = ({ onBack }: RunToolsProps) => {
         />
       </Box>
       
-      <Box marginBottom={2}>
-        <Text>Target Org: </Text>
-        <TextInput
-          value={targetOrg}
-          onChange={setTargetOrg}
-          placeholder="username or alias"
-        />
-      </Box>
+      {renderTargetOrg()}
       
-      <Box marginTop={1} marginBottom={2}>
-        <SelectInput
-          items={[
-            { label: 'Run Tests', value: 'run' },
-            { label: 'Back to Tools', value: 'back' },
-          ]}
-          onSelect={(item) => {
-            if (item.value === 'run') {
-              executeTool();
-            } else {
-              setSelectedTool(null);
-            }
-          }}
-        />
-      </Box>
+      {renderActions('Run Tests')}
       
       <Text color="gray" italic>ESC to go back</Text>
     </Box>
@@ -333,30 +460,9 @@ export const RunTools = ({ onBack }: RunToolsProps) => {
         />
       </Box>
       
-      <Box marginBottom={2}>
-        <Text>Target Org: </Text>
-        <TextInput
-          value={targetOrg}
-          onChange={setTargetOrg}
-          placeholder="username or alias"
-        />
-      </Box>
+      {renderTargetOrg()}
       
-      <Box marginTop={1} marginBottom={2}>
-        <SelectInput
-          items={[
-            { label: 'Run Query', value: 'run' },
-            { label: 'Back to Tools', value: 'back' },
-          ]}
-          onSelect={(item) => {
-            if (item.value === 'run') {
-              executeTool();
-            } else {
-              setSelectedTool(null);
-            }
-          }}
-        />
-      </Box>
+      {renderActions('Run Query')}
       
       <Text color="gray" italic>ESC to go back</Text>
     </Box>
@@ -372,30 +478,9 @@ export const RunTools = ({ onBack }: RunToolsProps) => {
         <Text>Explore sObject data relationships in your org.</Text>
       </Box>
       
-      <Box marginBottom={2}>
-        <Text>Target Org: </Text>
-        <TextInput
-          value={targetOrg}
-          onChange={setTargetOrg}
-          placeholder="username or alias"
-        />
-      </Box>
+      {renderTargetOrg()}
       
-      <Box marginTop={1} marginBottom={2}>
-        <SelectInput
-          items={[
-            { label: 'View Data Tree', value: 'run' },
-            { label: 'Back to Tools', value: 'back' },
-          ]}
-          onSelect={(item) => {
-            if (item.value === 'run') {
-              executeTool();
-            } else {
-              setSelectedTool(null);
-            }
-          }}
-        />
-      </Box>
+      {renderActions('View Data Tree')}
       
       <Text color="gray" italic>ESC to go back</Text>
     </Box>
@@ -421,27 +506,51 @@ export const RunTools = ({ onBack }: RunToolsProps) => {
   };
 
   const renderOutput = () => {
-    if (!output && !error) return null;
+    if (!activeJob && !error) return null;
+    if (apexOutcome && !error) return renderApexOutcome(apexOutcome);
+    
+    const jobError =
+      activeJob?.status === 'failed'
+        ? `Error: ${activeJob.error}`
+        : activeJob?.status === 'cancelled'
+          ? `Cancelled.\n${activeJob.output}`
+          : '';
     
     return (
       <Box marginTop={2} flexDirection="column">
         <Box marginBottom={1}>
-          <Text bold>Output:</Text>
+          {activeJob?.status === 'running' ? (
+            <Text bold><Spinner type="dots" /> Running... <Text color="gray">(Ctrl+X to cancel · continues in Jobs if you leave this screen)</Text></Text>
+          ) : (
+            <Text bold>Output:</Text>
+          )}
         </Box>
+        {activeJob?.status === 'running' && activeJob.timedOut && (
+          <TimeoutPrompt job={activeJob} onBackground={() => setActiveJobId(null)} />
+        )}
+        {activeJob?.status === 'running' && activeJob.progress && (
+          <Box marginBottom={1}>
+            <JobProgress progress={activeJob.progress} />
+          </Box>
+        )}
         <Box borderStyle="round" padding={1} height={10} overflow="hidden">
-          <Text>{error || output}</Text>
+          <Text>{error || jobError || activeJob?.output}</Text>
         </Box>
       </Box>
     );
   };
 
+  if (productionGuard.dialog) {
+    return productionGuard.dialog;
+  }
+
   return (
-    <Box flexDirection="column" padding={1}>
-      {isProcessing ? (
-        <Box>
-          <Text><Spinner type="dots" /> Processing...</Text>
-        </Box>
-      ) : selectedTool ? (
+    <Box
+      flexDirection="column"
+      padding={1}
+      {...(isProduction ? { borderStyle: 'round' as const, borderColor: 'red' } : {})}
+    >
+      {selectedTool ? (
         <>
           {renderToolForm()}
           {renderOutput()}
@@ -0,0 +1,398 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import SelectInput from 'ink-select-input';
+import { TextInput } from '../common/TextInput';
+import { cacheService, CacheEntrySummary } from '../../utils/cache';
+import { refreshCacheConfig } from '../../utils/cacheWrapper';
+import { orgTag } from '../../utils/cacheTags';
+import { config, Config } from '../../config';
+import { formatBytes, formatDuration, truncate } from '../../utils/helpers';
+
+interface CacheInspectorProps {
+  onBack: () => void;
+}
+
+type CacheView = 'overview' | 'entries' | 'entry' | 'orgs' | 'clear' | 'settings' | 'edit-ttl' | 'edit-size';
+
+const ORG_TAG_PREFIX = orgTag('');
+
+// Number of entries listed at once
+const MAX_LISTED_ENTRIES = 50;
+
+// Human readable expiry of an entry relative to now
+const describeExpiry = (entry: CacheEntrySummary): string => {
+  const remaining = entry.expiresAt - Date.now();
+  return remaining > 0 ? `expires in ${formatDuration(remaining)}` : 'expired';
+};
+
+// Orgs that have cached entries, from the entries' org tags
+const getCachedOrgs = (entries: CacheEntrySummary[]): string[] =>
+  Array.from(
+    new Set(
+      entries.flatMap(entry =>
+        (entry.tags || [])
+          .filter(tag => tag.startsWith(ORG_TAG_PREFIX))
+          .map(tag => tag.slice(ORG_TAG_PREFIX.length))
+      )
+    )
+  ).sort();
+
+export const CacheInspector: React.FC<CacheInspectorProps> = ({ onBack }) => {
+  const [view, setView] = useState<CacheView>('overview');
+  const [entries, setEntries] = useState<CacheEntrySummary[]>(() => cacheService.getEntries());
+  const [stats, setStats] = useState(() => cacheService.getStats());
+  const [selectedEntry, setSelectedEntry] = useState<CacheEntrySummary | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const [message, setMessage] = useState('');
+
+  const options = cacheService.getOptions();
+  const cacheConfig = config.get<Config['cache']>('cache');
+  const diskUsage = entries.reduce((total, entry) => total + entry.size, 0);
+  const lookups = stats.hits + stats.misses;
+  const orgs = getCachedOrgs(entries);
+
+  // Re-read entries and statistics after a change
+  const reload = () => {
+    setEntries(cacheService.getEntries());
+    setStats(cacheService.getStats());
+  };
+
+  // Save cache settings and apply them to the running cache
+  const saveCacheConfig = (changes: Partial<Config['cache']>, confirmation: string) => {
+    config.set('cache', { ...cacheConfig, ...changes });
+    refreshCacheConfig();
+    reload();
+    setMessage(confirmation);
+    setView('settings');
+  };
+
+  useInput((input, key) => {
+    if (!key.escape) {
+      return;
+    }
+
+    setMessage('');
+    switch (view) {
+      case 'overview':
+        onBack();
+        break;
+      case 'entry':
+        setView('entries');
+        break;
+      case 'edit-ttl':
+      case 'edit-size':
+        setView('settings');
+        break;
+      default:
+        setView('overview');
+    }
+  });
+
+  const renderOverview = () => (
+    <Box flexDirection="column">
+      <Text bold>Cache</Text>
+
+      <Box flexDirection="column" marginY={1}>
+        <Text>
+          <Text bold>Status: </Text>
+          <Text color={options.enabled ? 'green' : 'yellow'}>
+            {options.enabled ? 'enabled' : 'disabled'}
+          </Text>
+        </Text>
+        <Text>
+          <Text bold>Hit rate: </Text>
+          {lookups > 0 ? `${Math.round((stats.hits / lookups) * 100)}%` : 'n/a'}
+          <Text color="gray">{` (${stats.hits} hits, ${stats.misses} misses this session)`}</Text>
+        </Text>
+        <Text>
+          <Text bold>Disk usage: </Text>
+          {formatBytes(diskUsage)} of {formatBytes(options.maxSize)}
+          <Text color="gray">{` (${entries.length} entries)`}</Text>
+        </Text>
+        <Text>
+          <Text bold>Default TTL: </Text>
+          {formatDuration(options.ttl)}
+        </Text>
+        <Text color="gray">{options.cacheDir}</Text>
+      </Box>
+
+      {message && (
+        <Box marginBottom={1}>
+          <Text color="green">{message}</Text>
+        </Box>
+      )}
+
+      <SelectInput
+        items={[
+          { label: `Browse entries (${entries.length})`, value: 'entries' },
+          { label: 'Purge entries for an org', value: 'orgs' },
+          { label: 'Clear the whole cache', value: 'clear' },
+          { label: 'Cache settings', value: 'settings' },
+          { label: 'Back to Settings', value: 'back' },
+        ]}
+        onSelect={item => {
+          setMessage('');
+          if (item.value === 'back') {
+            onBack();
+          } else {
+            reload();
+            setView(item.value as CacheView);
+          }
+        }}
+      />
+
+      <Box marginTop={1}>
+        <Text color="gray" italic>
+          Press Esc to go back
+        </Text>
+      </Box>
+    </Box>
+  );
+
+  const renderEntries = () => (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text bold>Cached entries</Text>
+      </Box>
+
+      {entries.length === 0 ? (
+        <Box marginBottom={1}>
+          <Text color="gray">The cache is empty.</Text>
+        </Box>
+      ) : (
+        <SelectInput
+          items={entries.slice(0, MAX_LISTED_ENTRIES).map(entry => ({
+            key: entry.key,
+            label: `${truncate(entry.label || entry.key, 60)}  ${formatDuration(Date.now() - entry.timestamp)} old, ${describeExpiry(entry)}`,
+            value: entry.key,
+          }))}
+          onSelect={item => {
+            setSelectedEntry(entries.find(entry => entry.key === item.value) || null);
+            setView('entry');
+          }}
+        />
+      )}
+
+      <Box marginTop={1}>
+        <Text color="gray" italic>
+          Enter to inspect an entry, Esc to go back
+        </Text>
+      </Box>
+    </Box>
+  );
+
+  const renderEntry = (entry: CacheEntrySummary) => (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text bold>{entry.label || entry.key}</Text>
+      </Box>
+
+      <Box flexDirection="column" marginBottom={1}>
+        <Text>
+          <Text bold>Key: </Text>
+          {entry.key}
+        </Text>
+        <Text>
+          <Text bold>Stored: </Text>
+          {new Date(entry.timestamp).toLocaleString()} ({formatDuration(Date.now() - entry.timestamp)} ago)
+        </Text>
+        <Text>
+          <Text bold>TTL: </Text>
+          {formatDuration(entry.expiresAt - entry.timestamp)} ({describeExpiry(entry)})
+        </Text>
+        <Text>
+          <Text bold>Size: </Text>
+          {formatBytes(entry.size)}
+        </Text>
+        <Text>
+          <Text bold>Tags: </Text>
+          {entry.tags && entry.tags.length > 0 ? entry.tags.join(', ') : 'none'}
+        </Text>
+      </Box>
+
+      <SelectInput
+        items={[
+          { label: 'Purge this entry', value: 'purge' },
+          { label: 'Back to entries', value: 'back' },
+        ]}
+        onSelect={item => {
+          if (item.value === 'purge') {
+            cacheService.delete(entry.key);
+            reload();
+            setMessage('Entry purged.');
+            setView('overview');
+          } else {
+            setView('entries');
+          }
+        }}
+      />
+    </Box>
+  );
+
+  const renderOrgs = () => (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text bold>Purge entries for an org</Text>
+      </Box>
+
+      {orgs.length === 0 ? (
+        <Box marginBottom={1}>
+          <Text color="gray">No cached entries belong to an org.</Text>
+        </Box>
+      ) : (
+        <SelectInput
+          items={orgs.map(org => ({ key: org, label: org, value: org }))}
+          onSelect={item => {
+            const removed = cacheService.invalidateTags([orgTag(item.value)]);
+            reload();
+            setMessage(`Purged ${removed} entries for ${item.value}.`);
+            setView('overview');
+          }}
+        />
+      )}
+
+      <Box marginTop={1}>
+        <Text color="gray" italic>
+          Esc to go back
+        </Text>
+      </Box>
+    </Box>
+  );
+
+  const renderClear = () => (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text bold color="yellow">
+          Remove all {entries.length} cached entries?
+        </Text>
+      </Box>
+      <SelectInput
+        items={[
+          { label: 'No, keep them', value: 'cancel' },
+          { label: 'Yes, clear the cache', value: 'confirm' },
+        ]}
+        onSelect={item => {
+          if (item.value === 'confirm') {
+            cacheService.clear();
+            reload();
+            setMessage('Cache cleared.');
+          }
+          setView('overview');
+        }}
+      />
+    </Box>
+  );
+
+  const renderSettings = () => (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text bold>Cache settings</Text>
+      </Box>
+
+      {message && (
+        <Box marginBottom={1}>
+          <Text color="green">{message}</Text>
+        </Box>
+      )}
+
+      <SelectInput
+        items={[
+          {
+            label: `Caching: ${cacheConfig.enabled ? 'enabled' : 'disabled'} (toggle)`,
+            value: 'enabled',
+          },
+          { label: `Default TTL: ${formatDuration(cacheConfig.ttl)}`, value: 'edit-ttl' },
+          { label: `Max size: ${formatBytes(cacheConfig.maxSize)}`, value: 'edit-size' },
+          { label: 'Back to Cache', value: 'back' },
+        ]}
+        onSelect={item => {
+          setMessage('');
+          switch (item.value) {
+            case 'enabled':
+              saveCacheConfig(
+                { enabled: !cacheConfig.enabled },
+                `Caching ${cacheConfig.enabled ? 'disabled' : 'enabled'}.`
+              );
+              break;
+            case 'edit-ttl':
+              setEditValue(String(Math.round(cacheConfig.ttl / 1000)));
+              setView('edit-ttl');
+              break;
+            case 'edit-size':
+              setEditValue(String(Math.round(cacheConfig.maxSize / (1024 * 1024))));
+              setView('edit-size');
+              break;
+            case 'back':
+              setView('overview');
+              break;
+          }
+        }}
+      />
+    </Box>
+  );
+
+  const renderEdit = (field: 'ttl' | 'maxSize') => {
+    const isTtl = field === 'ttl';
+    const validate = (value: string) =>
+      /^\d+$/.test(value.trim()) && Number(value) > 0 ? true : 'Enter a whole number above 0';
+
+    return (
+      <Box flexDirection="column">
+        <Box marginBottom={1}>
+          <Text bold>{isTtl ? 'Default TTL (seconds)' : 'Max size (MB)'}</Text>
+        </Box>
+        <TextInput
+          value={editValue}
+          onChange={setEditValue}
+          validate={validate}
+          onSubmit={value => {
+            if (validate(value) !== true) {
+              return;
+            }
+            const amount = Number(value.trim());
+            if (isTtl) {
+              saveCacheConfig({ ttl: amount * 1000 }, `Default TTL set to ${formatDuration(amount * 1000)}.`);
+            } else {
+              const maxSize = amount * 1024 * 1024;
+              saveCacheConfig({ maxSize }, `Max size set to ${formatBytes(maxSize)}.`);
+            }
+          }}
+        />
+        <Box marginTop={1}>
+          <Text color="gray" italic>
+            Enter to save, Esc to cancel
+          </Text>
+        </Box>
+      </Box>
+    );
+  };
+
+  const renderView = () => {
+    switch (view) {
+      case 'entries':
+        return renderEntries();
+      case 'entry':
+        return selectedEntry ? renderEntry(selectedEntry) : renderEntries();
+      case 'orgs':
+        return renderOrgs();
+      case 'clear':
+        return renderClear();
+      case 'settings':
+        return renderSettings();
+      case 'edit-ttl':
+        return renderEdit('ttl');
+      case 'edit-size':
+        return renderEdit('maxSize');
+      default:
+        return renderOverview();
+    }
+  };
+
+  return (
+    <Box flexDirection="column">
+      {renderView()}
+    </Box>
+  );
+};
+
+export default CacheInspector;
@@ -47,7 +47,8 @@ const actionDescriptions: Record<ShortcutAction, string> = {
   create: 'Create new item',
   delete: 'Delete selected item',
   search: 'Search',
-  navigate: 'Navigate'
+  navigate: 'Navigate',
+  cancel: 'Cancel the running command'
 };
 
 export const KeyboardShortcutsEditor: React.FC<KeyboardShortcutsEditorProps> = ({ onBack }) => {
@@ -3,6 +3,7 @@ import { Box, Text, useInput } from 'ink';
 import SelectInput from 'ink-select-input';
 import ThemeSwitcher from './ThemeSwitcher';
 import KeyboardShortcutsEditor from './KeyboardShortcutsEditor';
+import CacheInspector from './CacheInspector';
 import { useTheme, ThemeProvider, getTheme } from '../../themes';
 import { ErrorBoundary } from '../common';
 
@@ -27,6 +28,11 @@ const menuItems: SettingsMenuItem[] = [
     value: 'shortcuts',
     description: 'View and customize keyboard shortcuts'
   },
+  {
+    label: '💾 Cache',
+    value: 'cache',
+    description: 'Inspect, purge and configure the command cache'
+  },
   {
     label: '🔄 Back to Main Menu',
     value: 'back',
@@ -39,14 +45,11 @@ export const SettingsMenu: React.FC<SettingsMenuProps> = ({ onBack }) => {
   const [currentTheme, setCurrentTheme] = useState<string>('base');
   const theme = useTheme();
 
-  // Handle Escape key to go back
+  // Handle Escape key to go back. Open screens handle it themselves,
+  // since some of them use it to leave a nested view first.
   useInput((input, key) => {
-    if (key.escape) {
-      if (selectedItem) {
-        setSelectedItem(null);
-      } else {
-        onBack();
-      }
+    if (key.escape && !selectedItem) {
+      onBack();
     }
   });
 
@@ -112,6 +115,15 @@ export const SettingsMenu: React.FC<SettingsMenuProps> = ({ onBack }) => {
       );
     }
 
+    // Cache Inspector
+    if (selectedItem === 'cache') {
+      return (
+        <CacheInspector 
+          onBack={() => setSelectedItem(null)} 
+        />
+      );
+    }
+
     return null;
   };
 
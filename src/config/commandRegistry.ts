@@ -0,0 +1,344 @@
+/**
+ * Registry of the sf commands SF TUI runs.
+ *
+ * Each command is classified once here, so the executor, cache and
+ * confirmation prompts read its behaviour instead of guessing from the arguments.
+ *
+ * @module commandRegistry
+ */
+
+/**
+ * How much damage a command can do if run by mistake.
+ * - none: nothing is changed, or the change is trivially undone
+ * - low: changes files or org data that can be restored
+ * - high: deletes orgs, data or metadata, or overwrites an org
+ */
+export type DestructiveLevel = 'none' | 'low' | 'high';
+
+/**
+ * Long-running commands whose timeouts are configured together
+ * (`timeouts.categories` in the config)
+ */
+export type TimeoutCategory = 'deploy' | 'test' | 'org' | 'data' | 'plugins';
+
+export interface CommandDefinition {
+  /**
+   * sf command id with topics separated by colons (e.g. 'org:list')
+   */
+  id: string;
+
+  /**
+   * Whether the command only reads state. Only read-only commands are cached;
+   * every other command invalidates the cached reads it affects.
+   */
+  readOnly: boolean;
+
+  /**
+   * Fixed timeout in milliseconds, for commands that must not follow the
+   * config (e.g. 0 for interactive logins).
+   * Default: the timeout of the command's category from the config
+   */
+  timeout?: number;
+
+  /**
+   * Category whose configured timeout applies.
+   * Default: the config's default timeout (1 minute)
+   */
+  category?: TimeoutCategory;
+
+  /**
+   * Whether the command accepts `--wait <minutes>`, which is then set to
+   * match its timeout
+   * Default: false
+   */
+  wait?: boolean;
+
+  /**
+   * How long results stay cached in milliseconds. 0 disables caching.
+   * Default: the cache's TTL (5 minutes)
+   */
+  cacheTTL?: number;
+
+  /**
+   * Whether the command accepts `--json`
+   * Default: true
+   */
+  supportsJson?: boolean;
+
+  /**
+   * Default: 'none'
+   */
+  destructive?: DestructiveLevel;
+
+  /**
+   * Whether the command changes the org it targets (`--target-org`, or the
+   * default org when omitted), so it must be confirmed against production orgs.
+   * Default: false
+   */
+  changesOrg?: boolean;
+
+  /**
+   * Whether transient failures are retried. Only safe when running the
+   * command twice has the same effect as running it once.
+   * Default: true for read-only commands
+   */
+  retry?: boolean;
+
+  /**
+   * Cache tags attached to results of a read-only command.
+   * Reads that target an org are also tagged with that org.
+   */
+  tags?: string[];
+
+  /**
+   * Cache tags made stale when the command has run.
+   * Commands that target an org also invalidate that org's tag.
+   */
+  invalidates?: string[];
+}
+
+const MINUTE = 60 * 1000;
+
+export const COMMAND_REGISTRY: CommandDefinition[] = [
+  // Orgs
+  { id: 'org:list', readOnly: true, tags: ['orgs'] },
+  { id: 'org:display', readOnly: true, tags: ['orgs'] },
+  { id: 'org:display:user', readOnly: true },
+  { id: 'org:list:users', readOnly: true },
+  { id: 'org:list:limits', readOnly: true, cacheTTL: MINUTE },
+  { id: 'limits:api:display', readOnly: true, cacheTTL: MINUTE },
+  { id: 'org:list:metadata', readOnly: true, cacheTTL: 15 * MINUTE },
+  { id: 'org:list:metadata-types', readOnly: true, cacheTTL: 15 * MINUTE },
+  { id: 'org:describe:metadata', readOnly: true, cacheTTL: 15 * MINUTE },
+  // Opens a browser, so it must run every time
+  { id: 'org:open', readOnly: true, cacheTTL: 0 },
+  { id: 'org:login', readOnly: false, timeout: 0, invalidates: ['orgs', 'aliases'] },
+  {
+    id: 'org:logout',
+    readOnly: false,
+    destructive: 'low',
+    changesOrg: true,
+    invalidates: ['orgs', 'aliases', 'config'],
+  },
+  // Older spelling of org:logout, still used to log out of non-scratch orgs
+  {
+    id: 'auth:logout',
+    readOnly: false,
+    destructive: 'low',
+    changesOrg: true,
+    invalidates: ['orgs', 'aliases', 'config'],
+  },
+  {
+    id: 'org:create:scratch',
+    readOnly: false,
+    category: 'org',
+    wait: true,
+    invalidates: ['orgs', 'aliases'],
+  },
+  {
+    id: 'org:create:sandbox',
+    readOnly: false,
+    category: 'org',
+    wait: true,
+    changesOrg: true,
+    invalidates: ['orgs', 'aliases'],
+  },
+  { id: 'org:create:user', readOnly: false, changesOrg: true },
+  { id: 'org:assign:permset', readOnly: false, destructive: 'low', changesOrg: true },
+  { id: 'org:assign:permsetlicense', readOnly: false, destructive: 'low', changesOrg: true },
+  { id: 'org:generate:password', readOnly: false, changesOrg: true },
+  {
+    id: 'org:delete:scratch',
+    readOnly: false,
+    destructive: 'high',
+    changesOrg: true,
+    invalidates: ['orgs', 'aliases', 'config'],
+  },
+  {
+    id: 'org:delete:sandbox',
+    readOnly: false,
+    destructive: 'high',
+    changesOrg: true,
+    invalidates: ['orgs', 'aliases', 'config'],
+  },
+  {
+    id: 'org:refresh:sandbox',
+    readOnly: false,
+    category: 'org',
+    wait: true,
+    destructive: 'high',
+    changesOrg: true,
+    invalidates: ['orgs'],
+  },
+  {
+    id: 'org:resume:sandbox',
+    readOnly: false,
+    category: 'org',
+    wait: true,
+    invalidates: ['orgs', 'aliases'],
+  },
+
+  // Aliases and config
+  { id: 'alias:list', readOnly: true, tags: ['aliases'] },
+  { id: 'alias:set', readOnly: false, retry: true, invalidates: ['aliases', 'orgs'] },
+  { id: 'alias:unset', readOnly: false, retry: true, invalidates: ['aliases', 'orgs'] },
+  { id: 'config:get', readOnly: true, tags: ['config'] },
+  { id: 'config:list', readOnly: true, tags: ['config'] },
+  { id: 'config:set', readOnly: false, retry: true, invalidates: ['config', 'orgs'] },
+  { id: 'config:unset', readOnly: false, retry: true, invalidates: ['config', 'orgs'] },
+
+  // Plugins
+  { id: 'plugins', readOnly: true, tags: ['plugins'] },
+  { id: 'plugins:inspect', readOnly: true, tags: ['plugins'] },
+  { id: 'plugins:install', readOnly: false, category: 'plugins', invalidates: ['plugins'] },
+  {
+    id: 'plugins:uninstall',
+    readOnly: false,
+    destructive: 'low',
+    invalidates: ['plugins'],
+  },
+  {
+    id: 'plugins:update',
+    readOnly: false,
+    category: 'plugins',
+    supportsJson: false,
+    invalidates: ['plugins'],
+  },
+  { id: 'plugins:link', readOnly: false, supportsJson: false, invalidates: ['plugins'] },
+  { id: 'plugins:unlink', readOnly: false, supportsJson: false, invalidates: ['plugins'] },
+
+  // Projects and metadata
+  { id: 'project:generate', readOnly: false },
+  {
+    id: 'project:deploy:start',
+    readOnly: false,
+    category: 'deploy',
+    wait: true,
+    destructive: 'low',
+    changesOrg: true,
+  },
+  // Validation runs the deploy without saving it
+  {
+    id: 'project:deploy:validate',
+    readOnly: true,
+    category: 'deploy',
+    wait: true,
+    cacheTTL: 0,
+  },
+  { id: 'project:deploy:report', readOnly: true, cacheTTL: 0 },
+  { id: 'project:deploy:resume', readOnly: false, category: 'deploy', wait: true },
+  { id: 'project:deploy:cancel', readOnly: false },
+  {
+    id: 'project:delete:source',
+    readOnly: false,
+    category: 'deploy',
+    wait: true,
+    destructive: 'high',
+    changesOrg: true,
+  },
+  // Retrieves overwrite local source files
+  {
+    id: 'project:retrieve:start',
+    readOnly: false,
+    category: 'deploy',
+    wait: true,
+    destructive: 'low',
+  },
+
+  // Apex
+  { id: 'apex:run', readOnly: false, destructive: 'low', changesOrg: true },
+  // Test data is rolled back, but results must always be fresh
+  { id: 'apex:run:test', readOnly: true, category: 'test', wait: true, cacheTTL: 0 },
+  { id: 'apex:get:test', readOnly: true, cacheTTL: 0 },
+  { id: 'apex:list:log', readOnly: true, cacheTTL: 0 },
+  { id: 'apex:get:log', readOnly: true },
+  { id: 'apex:tail:log', readOnly: true, timeout: 0, cacheTTL: 0, supportsJson: false },
+
+  // Data
+  { id: 'data:query', readOnly: true, cacheTTL: MINUTE },
+  { id: 'data:get:record', readOnly: true, cacheTTL: 0 },
+  { id: 'data:export:tree', readOnly: true, category: 'data', cacheTTL: 0 },
+  { id: 'data:create:record', readOnly: false, destructive: 'low', changesOrg: true },
+  { id: 'data:update:record', readOnly: false, destructive: 'low', changesOrg: true },
+  { id: 'data:delete:record', readOnly: false, destructive: 'high', changesOrg: true },
+  {
+    id: 'data:import:tree',
+    readOnly: false,
+    category: 'data',
+    destructive: 'low',
+    changesOrg: true,
+  },
+  {
+    id: 'data:upsert:bulk',
+    readOnly: false,
+    category: 'data',
+    wait: true,
+    destructive: 'low',
+    changesOrg: true,
+  },
+  {
+    id: 'data:delete:bulk',
+    readOnly: false,
+    category: 'data',
+    wait: true,
+    destructive: 'high',
+    changesOrg: true,
+  },
+];
+
+/**
+ * Find the registry entry for sf command arguments.
+ * Matches the longest id made of the leading words, so
+ * `['org', 'list', 'metadata', '-m', 'ApexClass']` finds 'org:list:metadata'.
+ *
+ * @returns The definition, or undefined for commands that are not registered
+ */
+export function findCommand(args: string[]): CommandDefinition | undefined {
+  let match: CommandDefinition | undefined;
+  let matchLength = 0;
+
+  for (const definition of COMMAND_REGISTRY) {
+    const words = definition.id.split(':');
+    if (words.length > matchLength && words.every((word, index) => args[index] === word)) {
+      match = definition;
+      matchLength = words.length;
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Get the destructive level of a command. Unregistered commands are treated
+ * as able to change things that can be restored.
+ */
+export function getDestructiveLevel(args: string[]): DestructiveLevel {
+  const definition = findCommand(args);
+  return definition ? definition.destructive || 'none' : 'low';
+}
+
+/**
+ * Whether a command changes the org it targets. Unregistered commands are
+ * treated as able to.
+ */
+export function changesTargetOrg(args: string[]): boolean {
+  const definition = findCommand(args);
+  return definition ? !!definition.changesOrg : true;
+}
+
+/**
+ * Check a command id against an id pattern from the config.
+ * Patterns match a run of whole topics, so both 'org:create' and the older
+ * single word 'deploy' style match 'project:deploy:start'.
+ */
+export function matchesCommandId(id: string, pattern: string): boolean {
+  const words = id.split(':');
+  const patternWords = pattern.split(':');
+
+  for (let start = 0; start + patternWords.length <= words.length; start++) {
+    if (patternWords.every((word, index) => words[start + index] === word)) {
+      return true;
+    }
+  }
+  return false;
+}
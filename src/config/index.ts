@@ -12,6 +12,7 @@ const __dirname = path.dirname(__filename);
 // Import ShortcutConfig type for keyboard shortcuts
 import { ShortcutConfig } from '../context/KeyboardShortcuts';
 import { CacheOptions } from '../utils/cache';
+import type { TimeoutCategory } from './commandRegistry';
 
 // Default configuration
 export interface Config {
@@ -31,6 +32,61 @@ export interface Config {
       exclude: string[];
     };
   };
+  retry: {
+    enabled: boolean;
+    maxAttempts: number;
+    initialDelay: number;
+    maxDelay: number;
+    /**
+     * sf error names and messages that mark a failure as transient
+     */
+    retryableErrors: string[];
+  };
+  orgManager: {
+    /**
+     * Columns shown in the org table, in order
+     */
+    columns: string[];
+    /**
+     * Warn at startup about scratch orgs that expire within this many days.
+     * 0 turns the warning off.
+     */
+    expirationWarningDays: number;
+    /**
+     * How often sandbox copies in progress are checked, in milliseconds
+     */
+    sandboxPollInterval: number;
+    /**
+     * Percentage of an org limit in use at which it is highlighted
+     */
+    limitThresholds: {
+      warning: number;
+      error: number;
+    };
+    /**
+     * Pages offered when opening an org, as paths relative to its instance
+     */
+    openPaths: Array<{ label: string; path: string }>;
+  };
+  timeouts: {
+    /**
+     * Timeout of commands outside the categories, in milliseconds
+     */
+    default: number;
+    /**
+     * Timeouts of long-running commands by category, in milliseconds. 0 waits forever.
+     */
+    categories: Record<TimeoutCategory, number>;
+    /**
+     * What happens when a background job reaches its timeout: ask whether to
+     * keep waiting, leave it running in the background, or cancel it
+     */
+    onTimeout: 'prompt' | 'background' | 'cancel';
+    /**
+     * Minutes sf is told to wait (`--wait`) for commands without a timeout
+     */
+    maxWait: number;
+  };
   experimental: {
     features: string[];
   };
@@ -65,6 +121,51 @@ const defaultConfig: Config = {
       ],
     },
   },
+  retry: {
+    enabled: true,
+    maxAttempts: 3,
+    initialDelay: 1000, // 1 second, doubled after each attempt
+    maxDelay: 10000, // 10 seconds
+    retryableErrors: [
+      'ECONNRESET',
+      'ETIMEDOUT',
+      'EAI_AGAIN',
+      'socket hang up',
+      'REQUEST_LIMIT_EXCEEDED',
+      'INVALID_SESSION_ID',
+      'SERVER_UNAVAILABLE',
+    ],
+  },
+  orgManager: {
+    columns: ['alias', 'favorite', 'username', 'type', 'environment', 'instance', 'status', 'expires', 'default'],
+    expirationWarningDays: 3,
+    sandboxPollInterval: 60 * 1000, // 1 minute
+    limitThresholds: {
+      warning: 75,
+      error: 90,
+    },
+    openPaths: [
+      { label: 'Setup Home', path: '/lightning/setup/SetupOneHome/home' },
+      { label: 'Object Manager', path: '/lightning/setup/ObjectManager/home' },
+      { label: 'Deployment Status', path: '/lightning/setup/DeployStatus/home' },
+      { label: 'Debug Logs', path: '/lightning/setup/ApexDebugLogs/home' },
+      { label: 'Users', path: '/lightning/setup/ManageUsers/home' },
+      { label: 'Permission Sets', path: '/lightning/setup/PermSets/home' },
+      { label: 'Flows', path: '/lightning/setup/Flows/home' },
+    ],
+  },
+  timeouts: {
+    default: 60 * 1000, // 1 minute
+    categories: {
+      deploy: 30 * 60 * 1000, // deploys, retrieves and source deletes
+      test: 30 * 60 * 1000,
+      org: 30 * 60 * 1000, // scratch org and sandbox creation
+      data: 30 * 60 * 1000, // bulk and tree imports and exports
+      plugins: 10 * 60 * 1000,
+    },
+    onTimeout: 'prompt',
+    maxWait: 240, // 4 hours
+  },
   experimental: {
     features: [],
   },
@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
 import { useInput } from 'ink';
 import { config } from '../config';
 
@@ -14,7 +14,8 @@ export type ShortcutAction =
   | 'create'
   | 'delete'
   | 'search'
-  | 'navigate';
+  | 'navigate'
+  | 'cancel';
 
 export interface Shortcut {
   key: string;
@@ -37,6 +38,7 @@ interface KeyboardContextType {
   unregisterShortcut: (id: string) => void;
   setContextShortcuts: (shortcuts: Shortcut[]) => void;
   executeAction: (action: ShortcutAction) => void;
+  registerActionHandler: (action: ShortcutAction, handler: () => void) => () => void;
 }
 
 // Default global shortcuts
@@ -73,6 +75,20 @@ const defaultShortcuts: ShortcutConfig = {
     description: 'Cycle themes',
     action: 'toggleTheme',
     global: true
+  },
+  'cancel': {
+    key: 'x',
+    ctrl: true,
+    description: 'Cancel running command',
+    action: 'cancel',
+    global: true
+  },
+  'refresh': {
+    key: 'r',
+    ctrl: true,
+    description: 'Refresh current screen',
+    action: 'refresh',
+    global: true
   }
 };
 
@@ -83,7 +99,8 @@ const KeyboardContext = createContext<KeyboardContextType>({
   registerShortcut: () => {},
   unregisterShortcut: () => {},
   setContextShortcuts: () => {},
-  executeAction: () => {}
+  executeAction: () => {},
+  registerActionHandler: () => () => {}
 });
 
 // Action handlers must be registered by the parent component
@@ -117,6 +134,8 @@ export const KeyboardProvider: React.FC<KeyboardProviderProps> = ({
   
   const [shortcuts, setShortcuts] = useState<ShortcutConfig>(mergedDefaultShortcuts);
   const [contextShortcuts, setContextShortcuts] = useState<Shortcut[]>([]);
+  // Handlers registered by the screens currently shown, most recent last
+  const registeredHandlers = useRef<Array<{ action: ShortcutAction; handler: () => void }>>([]);
   
   // Combine global shortcuts with context-specific ones
   const activeShortcuts = [
@@ -167,9 +186,22 @@ export const KeyboardProvider: React.FC<KeyboardProviderProps> = ({
     setContextShortcuts(newShortcuts);
   };
 
+  // Register a handler for an action while a screen is shown.
+  // The most recently registered handler takes precedence over the app-level one.
+  const registerActionHandler = (action: ShortcutAction, handler: () => void) => {
+    const entry = { action, handler };
+    registeredHandlers.current = [...registeredHandlers.current, entry];
+    
+    // Return unregister function
+    return () => {
+      registeredHandlers.current = registeredHandlers.current.filter(item => item !== entry);
+    };
+  };
+
   // Execute action for a shortcut
   const executeAction = (action: ShortcutAction) => {
-    const handler = actionHandlers[action];
+    const registered = registeredHandlers.current.filter(item => item.action === action).pop();
+    const handler = registered?.handler || actionHandlers[action];
     if (handler) {
       handler();
     }
@@ -204,7 +236,8 @@ export const KeyboardProvider: React.FC<KeyboardProviderProps> = ({
         registerShortcut,
         unregisterShortcut,
         setContextShortcuts: updateContextShortcuts,
-        executeAction
+        executeAction,
+        registerActionHandler
       }}
     >
       {children}
@@ -221,4 +254,22 @@ export const useKeyboardShortcuts = () => {
   return context;
 };
 
+/**
+ * Handle a shortcut action while the calling component is mounted.
+ * Pass null to stop handling the action (e.g. when there is nothing to cancel).
+ */
+export const useShortcutAction = (action: ShortcutAction, handler: (() => void) | null) => {
+  const { registerActionHandler } = useKeyboardShortcuts();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  const isActive = handler !== null;
+
+  useEffect(() => {
+    if (!isActive) {
+      return;
+    }
+    return registerActionHandler(action, () => handlerRef.current?.());
+  }, [action, isActive]);
+};
+
 export default KeyboardContext;
\ No newline at end of file
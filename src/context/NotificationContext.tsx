@@ -5,7 +5,7 @@ import { useTheme } from '../themes';
 import { Transition } from '../components/common';
 
 // Notification types
-export type NotificationType = 'success' | 'error' | 'warning' | 'info' | 'progress';
+export type NotificationType = 'success' | 'error' | 'warning' | 'info' | 'progress' | 'cancelled';
 
 export interface Notification {
   id: string;
@@ -159,6 +159,8 @@ export const NotificationCenter: React.FC = () => {
         return theme.colors.info;
       case 'progress':
         return theme.colors.primary;
+      case 'cancelled':
+        return theme.colors.warning;
       default:
         return theme.colors.text;
     }
@@ -177,6 +179,8 @@ export const NotificationCenter: React.FC = () => {
         return 'ℹ';
       case 'progress':
         return '⟳';
+      case 'cancelled':
+        return '⊘';
       default:
         return '•';
     }
@@ -4,4 +4,7 @@
 
 export * from './useMeasure';
 export * from './useNodeSelection';
+export * from './useJobs';
+export * from './useProductionGuard';
+export * from './useTerminalHandoff';
 // Export other hooks here as we create them
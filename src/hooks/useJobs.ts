@@ -0,0 +1,30 @@
+import { useState, useEffect } from 'react';
+import { jobManager, Job } from '../utils/jobManager';
+
+/**
+ * A hook that keeps track of background jobs
+ * @returns All jobs, most recent first
+ */
+export const useJobs = (): Job[] => {
+  const [jobs, setJobs] = useState<Job[]>(() => jobManager.getJobs());
+
+  useEffect(() => {
+    // Pick up anything that changed between the first render and subscribing
+    setJobs(jobManager.getJobs());
+    return jobManager.subscribe(setJobs);
+  }, []);
+
+  return jobs;
+};
+
+/**
+ * A hook that follows a single background job
+ * @param id ID of the job to follow
+ * @returns The job, or undefined when no job is given or it was removed
+ */
+export const useJob = (id: string | null | undefined): Job | undefined => {
+  const jobs = useJobs();
+  return id ? jobs.find(job => job.id === id) : undefined;
+};
+
+export default useJobs;
@@ -0,0 +1,105 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { ProductionConfirmDialog } from '../components/org/ProductionConfirmDialog';
+import { findProductionTarget, isProductionTarget, GuardedOrg } from '../utils/productionGuard';
+import { orgMetadata } from '../utils/orgMetadata';
+
+// Milliseconds to wait after the target org last changed before looking it up
+const LOOKUP_DELAY = 300;
+
+type PendingConfirmation = {
+  org: GuardedOrg;
+  args: string[];
+};
+
+export interface ProductionGuard {
+  /**
+   * Resolves to true when the command may run: it does not change a
+   * production org, or the org name was typed to confirm it
+   */
+  confirm: (args: string[]) => Promise<boolean>;
+  /**
+   * The confirmation dialog, while a command waits for it. Panels render it
+   * in place of their content and ignore their own keys meanwhile.
+   */
+  dialog: React.ReactElement | null;
+}
+
+/**
+ * A hook that makes commands changing a production org wait for the org
+ * name to be typed before they run
+ */
+export const useProductionGuard = (): ProductionGuard => {
+  const [pending, setPending] = useState<PendingConfirmation | null>(null);
+  const resolveRef = useRef<((confirmed: boolean) => void) | null>(null);
+
+  const respond = useCallback((confirmed: boolean) => {
+    resolveRef.current?.(confirmed);
+    resolveRef.current = null;
+    setPending(null);
+  }, []);
+
+  // A command still waiting when the panel is left does not run
+  useEffect(() => () => resolveRef.current?.(false), []);
+
+  const confirm = useCallback(async (args: string[]) => {
+    const org = await findProductionTarget(args);
+    if (!org) {
+      return true;
+    }
+    // Only one command waits at a time; an earlier one is cancelled
+    resolveRef.current?.(false);
+    return new Promise<boolean>(resolve => {
+      resolveRef.current = resolve;
+      setPending({ org, args });
+    });
+  }, []);
+
+  const dialog = pending ? (
+    <ProductionConfirmDialog
+      org={pending.org}
+      args={pending.args}
+      onConfirm={() => respond(true)}
+      onCancel={() => respond(false)}
+    />
+  ) : null;
+
+  return { confirm, dialog };
+};
+
+/**
+ * A hook that tells whether an org is production
+ * @param targetOrg Alias or username of the org, if any
+ * @returns True once the org is known to be production
+ */
+export const useProductionOrg = (targetOrg: string | null | undefined): boolean => {
+  const [isProduction, setIsProduction] = useState(false);
+  // Environment tags can change whether an org counts as production
+  const [tagsVersion, setTagsVersion] = useState(0);
+
+  useEffect(() => orgMetadata.subscribe(() => setTagsVersion(version => version + 1)), []);
+
+  useEffect(() => setIsProduction(false), [targetOrg]);
+
+  useEffect(() => {
+    if (!targetOrg) {
+      return;
+    }
+    let active = true;
+    // Wait for typing to pause before looking the org up
+    const timer = setTimeout(() => {
+      isProductionTarget(targetOrg).then(result => {
+        if (active) {
+          setIsProduction(result);
+        }
+      });
+    }, LOOKUP_DELAY);
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [targetOrg, tagsVersion]);
+
+  return isProduction;
+};
+
+export default useProductionGuard;
@@ -0,0 +1,46 @@
+import { useCallback } from 'react';
+import { useStdin, useStdout } from 'ink';
+
+// Erase the screen and move the cursor to its top left corner
+const ERASE_SCREEN = '\u001B[2J\u001B[H';
+
+type Listener = (...args: unknown[]) => void;
+
+/**
+ * A hook that hands the terminal over to another program, e.g. a terminal editor.
+ * While the returned function's callback is pending, Ink neither draws nor
+ * reads keys. Afterwards the screen is erased and the app drawn again, as
+ * whatever Ink had drawn is gone.
+ * @returns A function running a callback while the terminal is handed over
+ */
+export const useTerminalHandoff = () => {
+  const { stdin } = useStdin();
+  const { stdout, write } = useStdout();
+
+  return useCallback(
+    async <T>(run: () => Promise<T>): Promise<T> => {
+      // Ink only listens while some component reads keys, and then in raw mode
+      const readers = stdin.listeners('readable') as Listener[];
+      const streamWrite = stdout.write;
+
+      readers.forEach(reader => stdin.removeListener('readable', reader));
+      if (readers.length > 0) {
+        stdin.setRawMode(false);
+      }
+      stdout.write = (() => true) as typeof stdout.write;
+      try {
+        return await run();
+      } finally {
+        stdout.write = streamWrite;
+        if (readers.length > 0) {
+          stdin.setRawMode(true);
+        }
+        readers.forEach(reader => stdin.addListener('readable', reader));
+        write(ERASE_SCREEN);
+      }
+    },
+    [stdin, stdout, write]
+  );
+};
+
+export default useTerminalHandoff;
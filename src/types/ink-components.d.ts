@@ -31,6 +31,7 @@ declare module 'ink-select-input' {
     onSelect: (item: T) => void;
     onHighlight?: (item: T) => void;
     initialIndex?: number;
+    isFocused?: boolean;
     indicatorComponent?: React.ReactNode;
     itemComponent?: React.FC<{
       isSelected: boolean;
@@ -146,6 +147,8 @@ declare module 'ink' {
       backspace: boolean;
       delete: boolean;
       meta: boolean;
+      pageUp: boolean;
+      pageDown: boolean;
     }) => void,
     options?: { isActive?: boolean }
   ) => void;
@@ -0,0 +1,216 @@
+/**
+ * Envelope returned by every `sf <command> --json` invocation.
+ *
+ * Successful commands populate `result`; failed commands populate `name`,
+ * `message` and friends and report a non-zero `status`.
+ */
+export interface SfJsonResponse<T = unknown> {
+  status: number;
+  result?: T;
+  warnings?: string[];
+
+  /**
+   * Error name reported by the CLI (e.g. `NoOrgFound`)
+   */
+  name?: string;
+  message?: string;
+  exitCode?: number;
+  stack?: string;
+  context?: string;
+  commandName?: string;
+  actions?: string[];
+}
+
+/**
+ * Parsed result of a successful sf command
+ */
+export interface SfResponse<T = unknown> {
+  status: number;
+  result: T;
+  warnings: string[];
+  fromCache: boolean;
+}
+
+/**
+ * Org entry as returned by `sf org list --json`
+ */
+export interface SfOrg {
+  alias?: string;
+  username: string;
+  orgId: string;
+  instanceUrl: string;
+  loginUrl?: string;
+  isActive?: boolean;
+  isDevHub?: boolean;
+  isDefaultDevHub: boolean;
+  isDefaultUsername: boolean;
+  isScratch?: boolean;
+  isSandbox?: boolean;
+  connectedStatus: string;
+  status: string;
+  expirationDate?: string;
+  createdDate?: string;
+  devHubUsername?: string;
+  edition?: string;
+  instanceName?: string;
+  namespace?: string | null;
+  lastUsed?: string;
+}
+
+/**
+ * Result of `sf org display --json`.
+ * `accessToken` and, with `--verbose`, `sfdxAuthUrl` grant access to the org.
+ */
+export interface SfOrgDisplayResult {
+  id: string;
+  apiVersion: string;
+  accessToken?: string;
+  instanceUrl: string;
+  username: string;
+  clientId?: string;
+  connectedStatus: string;
+  alias?: string;
+  sfdxAuthUrl?: string;
+  createdBy?: string;
+  createdDate?: string;
+  expirationDate?: string;
+  edition?: string;
+  status?: string;
+  isSandbox?: boolean;
+  isScratch?: boolean;
+}
+
+/**
+ * Kind of org, derived from the flags and URL `sf org list` reports
+ */
+export type OrgType = 'scratch' | 'sandbox' | 'devhub' | 'production';
+
+export interface SfOrgListResult {
+  other?: SfOrg[];
+  sandboxes?: SfOrg[];
+  nonScratchOrgs?: SfOrg[];
+  devHubs?: SfOrg[];
+  scratchOrgs?: SfOrg[];
+}
+
+export interface SfAlias {
+  alias: string;
+  value: string;
+}
+
+export interface SfConfigValue {
+  name: string;
+  key?: string;
+  value?: string;
+  location?: string;
+  success: boolean;
+}
+
+export interface SfPlugin {
+  name: string;
+  version: string;
+  type: string;
+  location?: string;
+  homepage?: string;
+  updateAvailable?: boolean;
+  latestVersion?: string;
+}
+
+/**
+ * Result of `sf apex run --json`.
+ * `line` and `column` point at the compile problem and are -1 when the code compiled.
+ */
+export interface SfApexRunResult {
+  success: boolean;
+  compiled: boolean;
+  compileProblem: string;
+  exceptionMessage: string;
+  exceptionStackTrace?: string;
+  line: number;
+  column: number;
+  logs?: string;
+}
+
+/**
+ * Result of `sf data query --json`
+ */
+export interface SfQueryResult<T> {
+  records: T[];
+  totalSize: number;
+  done: boolean;
+}
+
+/**
+ * SandboxProcess record from the Tooling API: one sandbox copy of a production org
+ */
+export interface SfSandboxProcess {
+  Id: string;
+  SandboxName: string;
+  LicenseType: string;
+  Status: string;
+  CopyProgress: number | null;
+  StartDate?: string | null;
+  EndDate?: string | null;
+  Description?: string | null;
+}
+
+/**
+ * One entry of `sf limits api display --json`
+ */
+export interface SfLimit {
+  name: string;
+  max: number;
+  remaining: number;
+}
+
+/**
+ * Result of `sf org open --json`
+ */
+export interface SfOrgOpenResult {
+  orgId: string;
+  url: string;
+  username: string;
+}
+
+/**
+ * User record as queried by the Users screen
+ */
+export interface SfUser {
+  Id: string;
+  Username: string;
+  Name: string;
+  Email?: string | null;
+  IsActive: boolean;
+  LastLoginDate?: string | null;
+  Profile?: { Name: string } | null;
+}
+
+/**
+ * Result of `sf org create user --json`
+ */
+export interface SfUserCreateResult {
+  orgId: string;
+  permissionSetAssignments?: string[];
+  fields: {
+    id: string;
+    username: string;
+    [field: string]: unknown;
+  };
+}
+
+/**
+ * One entry of `sf org generate password --json`, which returns a single
+ * object for one user and an array for several
+ */
+export interface SfGeneratedPassword {
+  username: string;
+  password: string;
+}
+
+/**
+ * Result of `sf org assign permset --json` and `sf org assign permsetlicense --json`
+ */
+export interface SfPermissionAssignmentResult {
+  successes: Array<{ name: string; value: string }>;
+  failures: Array<{ name: string; message: string }>;
+}
@@ -0,0 +1,163 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { execa } from 'execa';
+import { config } from '../config';
+import type { SfApexRunResult, SfJsonResponse } from '../types/sf';
+
+// Scripts are named after their content, so re-running a command from the history finds its file
+const SCRIPT_DIR = path.join(os.tmpdir(), 'sftui-apex');
+
+// GUI editors return immediately unless told to wait for the file to be closed
+const WAIT_FLAGS: Record<string, string> = {
+  code: '--wait',
+  'code-insiders': '--wait',
+  cursor: '--wait',
+  subl: '--wait',
+  atom: '--wait',
+  mate: '-w',
+};
+
+export type ApexRunStatus = 'success' | 'compile-error' | 'exception' | 'error';
+
+/**
+ * Outcome of an anonymous Apex run, read from the `--json` output
+ */
+export interface ApexRunOutcome {
+  status: ApexRunStatus;
+  /**
+   * Compile problem, exception or CLI error message. Empty on success.
+   */
+  message: string;
+  /**
+   * Line of the script the problem is on, starting at 1
+   */
+  line?: number;
+  column?: number;
+  stackTrace?: string;
+  /**
+   * Debug log of the run
+   */
+  logs: string;
+}
+
+/**
+ * Get the temp file a script is written to
+ */
+export function getApexScriptPath(code: string): string {
+  const hash = crypto.createHash('sha1').update(code).digest('hex').slice(0, 12);
+  return path.join(SCRIPT_DIR, `anonymous-${hash}.apex`);
+}
+
+/**
+ * Write a script to its temp file so it can be run with `sf apex run --file`
+ *
+ * @returns The path of the file
+ */
+export function writeApexScript(code: string): string {
+  const filePath = getApexScriptPath(code);
+  fs.mkdirSync(SCRIPT_DIR, { recursive: true });
+  fs.writeFileSync(filePath, code, 'utf8');
+  return filePath;
+}
+
+// Command and arguments of the configured editor (`editor` in the config, or $EDITOR)
+function getEditorCommand(): string[] {
+  return (config.get<string>('editor') || 'vi').split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Whether the configured editor runs in the terminal, as opposed to a GUI
+ * editor opening its own window
+ */
+export function isTerminalEditor(): boolean {
+  const [command = 'vi'] = getEditorCommand();
+  return !WAIT_FLAGS[path.basename(command)];
+}
+
+/**
+ * Open a script in the configured editor and wait for it to be closed.
+ * Terminal editors take over the terminal, so callers hand it over first.
+ *
+ * @returns The script as it was saved
+ */
+export async function editApexScript(code: string): Promise<string> {
+  const filePath = writeApexScript(code);
+  const [command = 'vi', ...args] = getEditorCommand();
+  const waitFlag = WAIT_FLAGS[path.basename(command)];
+
+  await execa(command, [...args, ...(waitFlag && !args.includes(waitFlag) ? [waitFlag] : []), filePath], {
+    stdio: waitFlag ? 'pipe' : 'inherit',
+  });
+  return fs.readFileSync(filePath, 'utf8');
+}
+
+/**
+ * Read the last `--json` envelope from command output.
+ * Job output holds both streams (and a second envelope when the command was
+ * retried), so the last object starting at the beginning of a line is used.
+ */
+function findLastEnvelope(output: string): SfJsonResponse<SfApexRunResult> | null {
+  const starts = Array.from(output.matchAll(/^\{/gm));
+  const start = starts[starts.length - 1]?.index;
+  const end = output.lastIndexOf('}');
+  if (start === undefined || end < start) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(output.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
+
+// Exceptions report their position in the stack trace, e.g. 'AnonymousBlock: line 3, column 1'
+const STACK_POSITION_PATTERN = /AnonymousBlock: line (\d+), column (\d+)/;
+
+/**
+ * Parse the output of `sf apex run --json` into the run's outcome
+ *
+ * @returns The outcome, or null when the output holds no JSON result
+ */
+export function parseApexRunOutput(output: string): ApexRunOutcome | null {
+  const envelope = findLastEnvelope(output);
+  if (!envelope) {
+    return null;
+  }
+
+  const result = envelope.result;
+  if (!result || typeof result.compiled !== 'boolean') {
+    return {
+      status: 'error',
+      message: envelope.message || `sf exited with status ${envelope.status}`,
+      logs: '',
+    };
+  }
+
+  const logs = result.logs || '';
+  if (!result.compiled) {
+    return {
+      status: 'compile-error',
+      message: result.compileProblem,
+      ...(result.line > 0 ? { line: result.line } : {}),
+      ...(result.column > 0 ? { column: result.column } : {}),
+      logs,
+    };
+  }
+
+  if (!result.success) {
+    const stackTrace = result.exceptionStackTrace || '';
+    const position = stackTrace.match(STACK_POSITION_PATTERN);
+    return {
+      status: 'exception',
+      message: result.exceptionMessage,
+      ...(position ? { line: Number(position[1]), column: Number(position[2]) } : {}),
+      ...(stackTrace ? { stackTrace } : {}),
+      logs,
+    };
+  }
+
+  return { status: 'success', message: '', logs };
+}
@@ -28,6 +28,13 @@ export interface CacheOptions {
    * Default: ~/.sf-tui/cache
    */
   cacheDir?: string;
+
+  /**
+   * How long past its TTL an entry is kept so it can be served stale
+   * while it is refreshed
+   * Default: 5 minutes
+   */
+  maxStaleAge?: number;
 }
 
 export interface CacheEntry<T> {
@@ -35,6 +42,19 @@ export interface CacheEntry<T> {
   timestamp: number;
   key: string;
   size: number;
+  tags?: string[];
+  expiresAt?: number;
+  /**
+   * What the value is, for display (e.g. the command it is the output of)
+   */
+  label?: string;
+}
+
+/**
+ * Cache entry without its value, as listed by the cache inspector
+ */
+export interface CacheEntrySummary extends Omit<CacheEntry<unknown>, 'value' | 'expiresAt'> {
+  expiresAt: number;
 }
 
 export interface CacheStats {
@@ -49,6 +69,7 @@ const DEFAULT_OPTIONS: CacheOptions = {
   maxSize: 10 * 1024 * 1024, // 10MB
   enabled: true,
   cacheDir: path.join(os.homedir(), '.sf-tui', 'cache'),
+  maxStaleAge: 5 * 60 * 1000, // 5 minutes
 };
 
 /**
@@ -101,9 +122,12 @@ export class CacheService<T = any> {
           this.memoryCache.set(key, entry);
           this.stats.hits++;
           return entry.value;
-        } else {
+        } else if (!this.isServableStale(entry, this.options.maxStaleAge)) {
           // Clean up expired entry
           fs.unlinkSync(cacheFile);
+        } else {
+          // Keep it in memory so it can still be served stale
+          this.memoryCache.set(key, entry);
         }
       }
     } catch (error) {
@@ -114,10 +138,36 @@ export class CacheService<T = any> {
     return null;
   }
 
+  /**
+   * Get an expired value that is still young enough to be served while it is refreshed
+   * @param maxStaleAge How long past its TTL an entry may be served
+   * @returns The stale value or null if there is none
+   */
+  public getStale(key: string, maxStaleAge: number = this.options.maxStaleAge): T | null {
+    if (!this.options.enabled) {
+      return null;
+    }
+
+    // get() has already loaded any file entry into memory
+    const entry = this.memoryCache.get(key);
+    if (entry && !this.isValid(entry) && this.isServableStale(entry, maxStaleAge)) {
+      return entry.value;
+    }
+
+    return null;
+  }
+
   /**
    * Set a value in the cache
+   * @param options.tags Tags the entry can later be invalidated by
+   * @param options.ttl Time-to-live for this entry, overriding the cache's TTL
+   * @param options.label What the value is, shown by the cache inspector
    */
-  public set(key: string, value: T): void {
+  public set(
+    key: string,
+    value: T,
+    options: { tags?: string[]; ttl?: number; label?: string } = {}
+  ): void {
     if (!this.options.enabled) {
       return;
     }
@@ -137,6 +187,9 @@ export class CacheService<T = any> {
         value,
         timestamp: Date.now(),
         size,
+        ...(options.tags && options.tags.length > 0 ? { tags: options.tags } : {}),
+        ...(options.ttl !== undefined ? { expiresAt: Date.now() + options.ttl } : {}),
+        ...(options.label ? { label: options.label } : {}),
       };
 
       // Add to memory cache
@@ -260,6 +313,53 @@ export class CacheService<T = any> {
     }
   }
 
+  /**
+   * Invalidate all cache entries carrying any of the given tags
+   * @returns Number of entries removed
+   */
+  public invalidateTags(tags: string[]): number {
+    if (!this.options.enabled || tags.length === 0) {
+      return 0;
+    }
+
+    const hasTag = (entry: CacheEntry<T>) => !!entry.tags?.some(tag => tags.includes(tag));
+    const removed = new Set<string>();
+
+    // Invalidate memory cache
+    for (const [cacheKey, entry] of this.memoryCache.entries()) {
+      if (hasTag(entry)) {
+        this.stats.size -= entry.size;
+        this.stats.entries--;
+        this.memoryCache.delete(cacheKey);
+        removed.add(cacheKey);
+      }
+    }
+
+    // Invalidate file system cache, reading each entry for its tags
+    try {
+      const files = fs.readdirSync(this.options.cacheDir).filter(file => file.endsWith('.json'));
+      for (const file of files) {
+        const cacheFile = path.join(this.options.cacheDir, file);
+        try {
+          const entry = JSON.parse(fs.readFileSync(cacheFile, 'utf8')) as CacheEntry<T>;
+          if (hasTag(entry)) {
+            fs.unlinkSync(cacheFile);
+            removed.add(path.basename(file, '.json'));
+          }
+        } catch {
+          // Skip entries that were only partially written
+        }
+      }
+    } catch (error) {
+      logger.error('Cache tag invalidation error', { error });
+    }
+
+    if (removed.size > 0) {
+      logger.debug(`Invalidated ${removed.size} cache entries tagged ${tags.join(', ')}`);
+    }
+    return removed.size;
+  }
+
   /**
    * Get cache statistics
    */
@@ -267,12 +367,80 @@ export class CacheService<T = any> {
     return { ...this.stats };
   }
 
+  /**
+   * Change the options of the running cache. Entries and statistics are
+   * kept, unless the cache moves to another directory.
+   */
+  public configure(options: CacheOptions): void {
+    const movesDirectory = !!options.cacheDir && options.cacheDir !== this.options.cacheDir;
+    this.options = { ...this.options, ...options } as Required<CacheOptions>;
+    if (movesDirectory) {
+      this.memoryCache.clear();
+      this.stats = { hits: 0, misses: 0, size: 0, entries: 0 };
+      this.ensureCacheDirectory();
+    }
+  }
+
+  /**
+   * Get the options the cache is running with
+   */
+  public getOptions(): Required<CacheOptions> {
+    return { ...this.options };
+  }
+
+  /**
+   * List the entries stored on disk, most recently stored first.
+   * Sizes are the size of each entry's file.
+   */
+  public getEntries(): CacheEntrySummary[] {
+    const summaries: CacheEntrySummary[] = [];
+
+    try {
+      if (!fs.existsSync(this.options.cacheDir)) {
+        return summaries;
+      }
+
+      const files = fs.readdirSync(this.options.cacheDir).filter(file => file.endsWith('.json'));
+      for (const file of files) {
+        try {
+          const data = fs.readFileSync(path.join(this.options.cacheDir, file), 'utf8');
+          const { value: _value, ...entry } = JSON.parse(data) as CacheEntry<T>;
+          summaries.push({
+            ...entry,
+            key: entry.key || path.basename(file, '.json'),
+            size: Buffer.byteLength(data),
+            expiresAt: this.getExpiry(entry as CacheEntry<T>),
+          });
+        } catch {
+          // Skip entries that were only partially written
+        }
+      }
+    } catch (error) {
+      logger.error('Cache listing error', { error });
+    }
+
+    return summaries.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
   /**
    * Check if a cache entry is still valid
    */
   private isValid(entry: CacheEntry<T>): boolean {
-    const age = Date.now() - entry.timestamp;
-    return age < this.options.ttl;
+    return Date.now() < this.getExpiry(entry);
+  }
+
+  /**
+   * Check if an expired entry is within the window it may be served stale
+   */
+  private isServableStale(entry: CacheEntry<T>, maxStaleAge: number): boolean {
+    return Date.now() < this.getExpiry(entry) + maxStaleAge;
+  }
+
+  /**
+   * Get when an entry expires, from its own TTL or the cache's
+   */
+  private getExpiry(entry: CacheEntry<T>): number {
+    return entry.expiresAt ?? entry.timestamp + this.options.ttl;
   }
 
   /**
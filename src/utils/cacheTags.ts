@@ -0,0 +1,30 @@
+import { findCommand } from '../config/commandRegistry';
+import { getTargetOrgFromArgs } from './commandHistory';
+
+/**
+ * Tag for cached reads of a single org (e.g. 'org:me@acme.com')
+ */
+export const orgTag = (org: string): string => `org:${org}`;
+
+/**
+ * Get the tags to store with the cached result of a read-only command.
+ * Reads that target an org are also tagged with that org.
+ */
+export function getCacheTags(args: string[]): string[] {
+  const targetOrg = getTargetOrgFromArgs(args);
+  return [...(findCommand(args)?.tags || []), ...(targetOrg ? [orgTag(targetOrg)] : [])];
+}
+
+/**
+ * Get the cache tags a command makes stale once it has run.
+ * Unregistered commands are assumed to change the org they target.
+ */
+export function getInvalidatedTags(args: string[]): string[] {
+  const definition = findCommand(args);
+  if (definition?.readOnly) {
+    return [];
+  }
+
+  const targetOrg = getTargetOrgFromArgs(args);
+  return [...(definition?.invalidates || []), ...(targetOrg ? [orgTag(targetOrg)] : [])];
+}
@@ -1,17 +1,22 @@
-import { cacheService, CacheService } from './cache';
+import { cacheService } from './cache';
 import { config, type Config } from '../config';
 import { logger } from './logger';
 
 // Initialize cache with config
 export function initializeCache(): void {
   const cacheOptions = config.getCacheOptions();
-  Object.assign(cacheService, new CacheService(cacheOptions));
+  cacheService.configure(cacheOptions);
   logger.debug('Cache initialized with options:', cacheOptions);
 }
 
-// Re-initialize cache when config changes
+// Apply changed cache settings, keeping the cached entries and statistics
 export function refreshCacheConfig(): void {
-  initializeCache();
+  const { enabled, ttl, maxSize } = config.getCacheOptions();
+  cacheService.configure({
+    ...(enabled !== undefined ? { enabled } : {}),
+    ...(ttl !== undefined ? { ttl } : {}),
+    ...(maxSize !== undefined ? { maxSize } : {}),
+  });
 }
 
 /**
@@ -0,0 +1,31 @@
+/**
+ * Copy text to the system clipboard using the OSC 52 terminal escape sequence.
+ * Works over SSH and without any clipboard tool installed, as long as the
+ * terminal supports OSC 52 (iTerm2, kitty, WezTerm, Windows Terminal, tmux with
+ * `set-clipboard on`, ...).
+ *
+ * @param text Text to copy
+ * @param stream Terminal stream to write the sequence to
+ * @returns Whether the sequence could be written (false when not attached to a terminal)
+ */
+export function copyToClipboard(
+  text: string,
+  stream: NodeJS.WriteStream = process.stdout
+): boolean {
+  if (!stream.isTTY) {
+    return false;
+  }
+
+  const encoded = Buffer.from(text, 'utf8').toString('base64');
+  let sequence = `\u001b]52;c;${encoded}\u0007`;
+
+  // tmux and screen only forward the sequence to the outer terminal when wrapped
+  if (process.env.TMUX) {
+    sequence = `\u001bPtmux;${sequence.replace(/\u001b/g, '\u001b\u001b')}\u001b\\`;
+  } else if (process.env.TERM?.startsWith('screen')) {
+    sequence = `\u001bP${sequence}\u001b\\`;
+  }
+
+  stream.write(sequence);
+  return true;
+}
@@ -1,8 +1,13 @@
 import { execa } from 'execa';
 import { cacheService } from './cache';
+import { getCacheTags, getInvalidatedTags } from './cacheTags';
 import { logger } from './logger';
+import { config, Config } from '../config';
+import { findCommand, matchesCommandId, CommandDefinition } from '../config/commandRegistry';
+import type { CommandCacheOptions, PendingRequest } from '../types/cache';
 
-export interface CommandOptions {
+export interface CommandOptions
+  extends Pick<CommandCacheOptions, 'deduplicate' | 'staleWhileRevalidate' | 'maxStaleAge'> {
   /**
    * Working directory for the command
    */
@@ -21,13 +26,13 @@ export interface CommandOptions {
   
   /**
    * Cache time-to-live in milliseconds
-   * Default: 5 minutes (from cache service)
+   * Default: the command's TTL from the command registry, or 5 minutes (from cache service)
    */
   cacheTTL?: number;
   
   /**
-   * Command timeout in milliseconds
-   * Default: 60000 (1 minute)
+   * Command timeout in milliseconds. 0 disables the timeout.
+   * Default: the timeout of the command's category from the config (see getCommandTimeout)
    */
   timeout?: number;
   
@@ -36,6 +41,27 @@ export interface CommandOptions {
    * Default: true
    */
   throwOnError?: boolean;
+
+  /**
+   * Callback invoked with each chunk of stdout/stderr as it is produced
+   */
+  onOutput?: (chunk: string, stream: 'stdout' | 'stderr') => void;
+  
+  /**
+   * Signal used to cancel the running process
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Whether to retry transient failures, or policy values overriding the config.
+   * Default: the command's setting from the command registry; unregistered commands are not retried
+   */
+  retry?: boolean | Partial<RetryPolicy>;
+
+  /**
+   * Callback invoked before a failed attempt is retried
+   */
+  onRetry?: (attempt: RetryAttempt) => void;
 }
 
 export interface CommandResult {
@@ -43,71 +69,293 @@ export interface CommandResult {
   stderr: string;
   exitCode: number;
   fromCache: boolean;
+  /**
+   * Number of times the command was run, when it had to be retried
+   */
+  attempts?: number;
 }
 
+export type RetryPolicy = Config['retry'];
+
+/**
+ * A failed attempt that is about to be retried
+ */
+export interface RetryAttempt {
+  /**
+   * Number of the attempt that failed, starting at 1
+   */
+  attempt: number;
+  maxAttempts: number;
+  /**
+   * Milliseconds until the next attempt
+   */
+  delay: number;
+  /**
+   * Retryable error that caused the failure (e.g. 'ECONNRESET')
+   */
+  reason: string;
+}
+
+/**
+ * Runs a process and resolves with its output.
+ * The default runner spawns real processes with execa; demo mode swaps in a simulator.
+ */
+export type ProcessRunner = (
+  command: string,
+  args: string[],
+  options: CommandOptions
+) => Promise<Omit<CommandResult, 'fromCache'>>;
+
+/**
+ * Called when a stale cached result has been refreshed in the background
+ */
+export type RevalidationListener = (command: string, args: string[], result: CommandResult) => void;
+
 const DEFAULT_OPTIONS: CommandOptions = {
   cache: true,
-  timeout: 60000,
   throwOnError: true,
+  deduplicate: true,
+  staleWhileRevalidate: true,
 };
 
+// Cacheable commands currently running, by cache key, so identical calls share one process
+const pendingRequests: Map<string, PendingRequest<CommandResult>> = new Map();
+let revalidationListeners: RevalidationListener[] = [];
+
 /**
- * Execute a command with caching support
- * 
- * @param command The command to execute
- * @param args Command arguments
- * @param options Command options
- * @returns Command result
+ * Kill a process together with everything it spawned.
+ * sf starts its own child processes, so killing only the direct child can
+ * leave a deploy or test run going.
  */
-export async function executeCommand(
-  command: string,
-  args: string[] = [],
-  options: CommandOptions = {}
-): Promise<CommandResult> {
-  const opts = { ...DEFAULT_OPTIONS, ...options };
+function killProcessTree(pid: number): void {
+  try {
+    if (process.platform === 'win32') {
+      execa('taskkill', ['/pid', String(pid), '/T', '/F'], { reject: false });
+    } else {
+      // A negative pid signals the whole process group
+      process.kill(-pid, 'SIGTERM');
+    }
+  } catch (error) {
+    logger.debug(`Failed to kill process tree for pid ${pid}`, { error });
+  }
+}
+
+/**
+ * Default runner that spawns the process with execa
+ */
+const execaRunner: ProcessRunner = async (command, args, opts) => {
+  const subprocess = execa(command, args, {
+    cwd: opts.cwd,
+    env: { ...process.env, ...opts.env },
+    timeout: opts.timeout,
+    reject: opts.throwOnError,
+    // Cancellable commands get their own process group so the whole tree can be killed
+    ...(opts.signal ? { signal: opts.signal, detached: process.platform !== 'win32' } : {}),
+  });
+  
+  if (opts.signal) {
+    opts.signal.addEventListener(
+      'abort',
+      () => {
+        if (subprocess.pid) {
+          killProcessTree(subprocess.pid);
+        }
+      },
+      { once: true }
+    );
+  }
   
-  // Skip cache for commands that modify state
-  const modifyingCommands = ['create', 'delete', 'deploy', 'push', 'pull', 'install', 'uninstall', 'auth'];
-  const shouldUseCache = opts.cache && 
-    !args.some(arg => modifyingCommands.some(cmd => arg.includes(cmd)));
+  // Stream output to the caller if requested
+  if (opts.onOutput) {
+    const onOutput = opts.onOutput;
+    subprocess.stdout?.on('data', (data) => onOutput(data.toString(), 'stdout'));
+    subprocess.stderr?.on('data', (data) => onOutput(data.toString(), 'stderr'));
+  }
   
-  if (shouldUseCache) {
-    const cacheKey = cacheService.generateKey(command, args);
-    const cachedResult = cacheService.get(cacheKey);
-    
-    if (cachedResult) {
-      logger.debug(`Cache hit for command: ${command} ${args.join(' ')}`);
-      return {
-        ...cachedResult,
-        fromCache: true,
-      };
+  const result = await subprocess;
+  
+  // A cancelled process is never a usable result, even when reject is disabled
+  if (result.isCanceled) {
+    throw result;
+  }
+  
+  return {
+    stdout: result.stdout,
+    stderr: result.stderr,
+    exitCode: result.exitCode,
+  };
+};
+
+let processRunner: ProcessRunner | null = null;
+
+/**
+ * Replace the process runner used by executeCommand.
+ * Pass null to restore the default execa runner.
+ * Results from a replaced runner are never read from or written to the cache,
+ * so simulated output cannot leak into real sessions.
+ */
+export function setProcessRunner(runner: ProcessRunner | null): void {
+  processRunner = runner;
+}
+
+/**
+ * Subscribe to background refreshes of stale cache entries.
+ * Panels that rendered a stale result can use this to pick up the fresh one.
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToRevalidation(listener: RevalidationListener): () => void {
+  revalidationListeners.push(listener);
+
+  // Return unsubscribe function
+  return () => {
+    revalidationListeners = revalidationListeners.filter(sub => sub !== listener);
+  };
+}
+
+// Notify all revalidation listeners of a refreshed result
+function notifyRevalidation(command: string, args: string[], result: CommandResult): void {
+  for (const listener of revalidationListeners) {
+    try {
+      listener(command, args, result);
+    } catch (err) {
+      logger.error('Error in revalidation listener', { subscriberError: err });
     }
   }
+}
+
+const MINUTE = 60 * 1000;
+
+// Used when the config has no timeouts
+const DEFAULT_TIMEOUT = MINUTE;
+
+/**
+ * Get a command's timeout: the fixed timeout from the command registry,
+ * or the configured timeout of its category
+ */
+function resolveTimeout(definition: CommandDefinition | undefined): number {
+  if (definition?.timeout !== undefined) {
+    return definition.timeout;
+  }
+  
+  const timeouts = config.get<Config['timeouts']>('timeouts');
+  const categoryTimeout = definition?.category ? timeouts?.categories?.[definition.category] : undefined;
+  return categoryTimeout ?? timeouts?.default ?? DEFAULT_TIMEOUT;
+}
+
+/**
+ * Get the timeout of sf command arguments in milliseconds. 0 means no timeout.
+ */
+export function getCommandTimeout(args: string[]): number {
+  return resolveTimeout(findCommand(args));
+}
+
+/**
+ * Add `--wait` to a command that accepts it, so sf waits as long as the
+ * command may run instead of its own default. Commands without a timeout
+ * wait the configured maximum. `--async` commands return at once and take no wait.
+ */
+function withWait(args: string[], timeout: number): string[] {
+  if (args.includes('--wait') || args.includes('-w') || args.includes('--async')) {
+    return args;
+  }
+  
+  const minutes =
+    timeout > 0
+      ? Math.max(1, Math.floor(timeout / MINUTE))
+      : config.get<Config['timeouts']>('timeouts')?.maxWait || 240;
+  return [...args, '--wait', String(minutes)];
+}
+
+/**
+ * Whether results of a command may be cached: only registered read-only
+ * commands, unless caching them is turned off in the config
+ */
+function isCacheable(definition: CommandDefinition | undefined): boolean {
+  if (!definition || !definition.readOnly || definition.cacheTTL === 0) {
+    return false;
+  }
+  
+  const commandCache = config.get<Config['cache']>('cache')?.commandCache;
+  return (
+    commandCache?.enabled !== false &&
+    !(commandCache?.exclude || []).some(pattern => matchesCommandId(definition.id, pattern))
+  );
+}
+
+/**
+ * Find the first retryable error name or message in command output
+ *
+ * @returns The matching entry of `retryableErrors`, or undefined
+ */
+export function findRetryableError(output: string, retryableErrors: string[]): string | undefined {
+  return retryableErrors.find(name => name && output.includes(name));
+}
+
+/**
+ * Describe a retry for notifications, e.g. 'Retrying (attempt 2 of 3) after ECONNRESET'
+ */
+export function describeRetry(attempt: RetryAttempt): string {
+  return `Retrying (attempt ${attempt.attempt + 1} of ${attempt.maxAttempts}) after ${attempt.reason}`;
+}
+
+/**
+ * Get the retry policy for a command, or null when it must not be retried
+ */
+function getRetryPolicy(retry: CommandOptions['retry']): RetryPolicy | null {
+  if (!retry) {
+    return null;
+  }
   
+  const policy: RetryPolicy = {
+    ...config.get<Config['retry']>('retry'),
+    ...(typeof retry === 'object' ? retry : {}),
+  };
+  return policy.enabled && policy.maxAttempts > 1 ? policy : null;
+}
+
+/**
+ * Delay before retrying after an attempt, doubling each time up to the maximum
+ */
+function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  return Math.min(policy.initialDelay * 2 ** (attempt - 1), policy.maxDelay);
+}
+
+/**
+ * Wait before the next attempt, giving up early when the command is cancelled
+ */
+function waitForRetry(delay: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, delay);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Run a command once, turning execa errors with an exit code into results
+ */
+async function runAttempt(
+  command: string,
+  args: string[],
+  opts: CommandOptions
+): Promise<CommandResult> {
   try {
     logger.debug(`Executing command: ${command} ${args.join(' ')}`);
     
-    const result = await execa(command, args, {
-      cwd: opts.cwd,
-      env: { ...process.env, ...opts.env },
-      timeout: opts.timeout,
-      reject: opts.throwOnError,
-    });
+    const runner = processRunner || execaRunner;
+    const result = await runner(command, args, opts);
     
-    const commandResult: CommandResult = {
-      stdout: result.stdout,
-      stderr: result.stderr,
-      exitCode: result.exitCode,
+    return {
+      ...result,
       fromCache: false,
     };
-    
-    // Cache successful results
-    if (shouldUseCache && result.exitCode === 0) {
-      const cacheKey = cacheService.generateKey(command, args);
-      cacheService.set(cacheKey, commandResult);
-    }
-    
-    return commandResult;
   } catch (error: any) {
     if (error.exitCode !== undefined) {
       // This is an execa error with exit code
@@ -124,6 +372,208 @@ export async function executeCommand(
   }
 }
 
+/**
+ * Run a command, retrying transient failures as its retry policy allows,
+ * and cache its result if it succeeded
+ */
+async function runCommand(
+  command: string,
+  args: string[],
+  opts: CommandOptions,
+  shouldUseCache: boolean
+): Promise<CommandResult> {
+  const policy = getRetryPolicy(opts.retry);
+  
+  // Wait before the next attempt if the failure is transient and attempts remain
+  const shouldRetry = async (attempt: number, output: string): Promise<boolean> => {
+    const reason = policy ? findRetryableError(output, policy.retryableErrors) : undefined;
+    if (!policy || !reason || attempt >= policy.maxAttempts || opts.signal?.aborted) {
+      return false;
+    }
+    
+    const retryAttempt: RetryAttempt = {
+      attempt,
+      maxAttempts: policy.maxAttempts,
+      delay: getRetryDelay(policy, attempt),
+      reason,
+    };
+    logger.warn(`Command failed with ${reason}, retrying: ${command} ${args.join(' ')}`, {
+      ...retryAttempt,
+    });
+    opts.onRetry?.(retryAttempt);
+    await waitForRetry(retryAttempt.delay, opts.signal);
+    return true;
+  };
+  
+  for (let attempt = 1; ; attempt++) {
+    let result: CommandResult;
+    try {
+      result = await runAttempt(command, args, opts);
+    } catch (error: any) {
+      const output = `${error?.code || ''}\n${error?.message || ''}`;
+      if (!error?.isCanceled && (await shouldRetry(attempt, output))) {
+        continue;
+      }
+      if (attempt > 1 && error && typeof error === 'object') {
+        error.attempts = attempt;
+      }
+      throw error;
+    }
+    
+    if (result.exitCode !== 0 && (await shouldRetry(attempt, `${result.stdout}\n${result.stderr}`))) {
+      continue;
+    }
+    
+    // Cache successful results
+    if (shouldUseCache && result.exitCode === 0) {
+      const cacheKey = cacheService.generateKey(command, args);
+      cacheService.set(cacheKey, result, {
+        tags: getCacheTags(args),
+        label: [command, ...args].join(' '),
+        ...(opts.cacheTTL !== undefined ? { ttl: opts.cacheTTL } : {}),
+      });
+    }
+    
+    return attempt > 1 ? { ...result, attempts: attempt } : result;
+  }
+}
+
+/**
+ * Run a command, registering it as in flight so identical calls can join it
+ */
+function runPendingCommand(
+  command: string,
+  args: string[],
+  opts: CommandOptions,
+  cacheKey: string
+): Promise<CommandResult> {
+  const promise = runCommand(command, args, opts, true);
+  const cleanup = () => {
+    if (pendingRequests.get(cacheKey)?.promise === promise) {
+      pendingRequests.delete(cacheKey);
+    }
+  };
+  
+  pendingRequests.set(cacheKey, { promise, timestamp: Date.now() });
+  promise.then(cleanup, cleanup);
+  return promise;
+}
+
+/**
+ * Refresh a stale cache entry in the background
+ */
+function revalidate(command: string, args: string[], opts: CommandOptions, cacheKey: string): void {
+  // A refresh (or an identical call) is already running
+  if (pendingRequests.has(cacheKey)) {
+    return;
+  }
+  
+  // The refresh outlives the caller, so it must not report to or be cancelled by it
+  const { onOutput: _onOutput, onRetry: _onRetry, signal: _signal, ...backgroundOpts } = opts;
+  logger.debug(`Revalidating stale cache for command: ${command} ${args.join(' ')}`);
+  
+  runPendingCommand(command, args, backgroundOpts, cacheKey).then(
+    result => {
+      if (result.exitCode === 0) {
+        notifyRevalidation(command, args, result);
+      }
+    },
+    error => {
+      logger.debug(`Background refresh failed for command: ${command} ${args.join(' ')}`, { error });
+    }
+  );
+}
+
+/**
+ * Execute a command with caching support.
+ * Identical cacheable commands that are already running are joined instead of
+ * started again, and expired results are served while they are refreshed.
+ * 
+ * @param command The command to execute
+ * @param args Command arguments
+ * @param options Command options
+ * @returns Command result
+ */
+export async function executeCommand(
+  command: string,
+  args: string[] = [],
+  options: CommandOptions = {}
+): Promise<CommandResult> {
+  const definition = command === 'sf' ? findCommand(args) : undefined;
+  const opts: CommandOptions = {
+    ...DEFAULT_OPTIONS,
+    timeout: resolveTimeout(definition),
+    ...(definition?.cacheTTL !== undefined ? { cacheTTL: definition.cacheTTL } : {}),
+    // Only commands that are safe to run twice are retried unless the caller asks
+    retry: definition?.retry ?? definition?.readOnly ?? false,
+    ...options,
+  };
+  const commandArgs = definition?.wait ? withWait(args, opts.timeout ?? 0) : args;
+  const shouldUseCache = !!opts.cache && !processRunner && isCacheable(definition);
+  
+  if (!shouldUseCache) {
+    try {
+      return await runCommand(command, commandArgs, opts, false);
+    } finally {
+      // Even a failed or cancelled command may have changed something, so drop reads it affects
+      if (!processRunner) {
+        cacheService.invalidateTags(getInvalidatedTags(commandArgs));
+      }
+    }
+  }
+  
+  const cacheKey = cacheService.generateKey(command, commandArgs);
+  const cachedResult = cacheService.get(cacheKey);
+  
+  if (cachedResult) {
+    logger.debug(`Cache hit for command: ${command} ${commandArgs.join(' ')}`);
+    if (opts.onOutput && cachedResult.stdout) {
+      opts.onOutput(cachedResult.stdout, 'stdout');
+    }
+    return {
+      ...cachedResult,
+      fromCache: true,
+    };
+  }
+  
+  if (opts.staleWhileRevalidate) {
+    const staleResult = cacheService.getStale(cacheKey, opts.maxStaleAge);
+    
+    if (staleResult) {
+      logger.debug(`Stale cache hit for command: ${command} ${commandArgs.join(' ')}`);
+      revalidate(command, commandArgs, opts, cacheKey);
+      if (opts.onOutput && staleResult.stdout) {
+        opts.onOutput(staleResult.stdout, 'stdout');
+      }
+      return {
+        ...staleResult,
+        fromCache: true,
+      };
+    }
+  }
+  
+  // Cancellable calls get their own process, so cancelling one caller cannot fail another
+  if (!opts.deduplicate || opts.signal) {
+    return runCommand(command, commandArgs, opts, true);
+  }
+  
+  const pending = pendingRequests.get(cacheKey);
+  if (pending) {
+    logger.debug(`Joining in-flight command: ${command} ${commandArgs.join(' ')}`);
+    const result = await pending.promise;
+    if (opts.onOutput && result.stdout) {
+      opts.onOutput(result.stdout, 'stdout');
+    }
+    // Another caller ran the process, so this result is reported as shared
+    return {
+      ...result,
+      fromCache: true,
+    };
+  }
+  
+  return runPendingCommand(command, commandArgs, opts, cacheKey);
+}
+
 /**
  * Execute a Salesforce CLI command with caching support
  * 
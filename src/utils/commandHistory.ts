@@ -0,0 +1,223 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { logger } from './logger';
+
+export type HistoryStatus = 'succeeded' | 'failed' | 'cancelled';
+
+export interface HistoryEntry {
+  id: string;
+  args: string[];
+  /**
+   * Panel the command was run from (e.g. 'RunTools')
+   */
+  panel: string;
+  targetOrg?: string;
+  status: HistoryStatus;
+  exitCode: number;
+  startedAt: string;
+  durationMs: number;
+  /**
+   * Start of the command output, with credentials removed
+   */
+  output: string;
+  /**
+   * Form values the command was built from, used to reopen the form
+   */
+  params?: Record<string, string>;
+}
+
+export interface HistoryFilter {
+  panel?: string;
+  targetOrg?: string;
+  status?: HistoryStatus;
+}
+
+// Define subscribers for history updates
+type HistorySubscriber = (entries: HistoryEntry[]) => void;
+
+const MAX_HISTORY_ENTRIES = 500; // Maximum number of commands kept in the history file
+const MAX_OUTPUT_LENGTH = 2000; // Characters of output kept per command
+const DEFAULT_HISTORY_FILE = path.join(config.dir, 'history.jsonl');
+
+// Credentials that must never be written to disk
+const SECRET_PATTERNS: RegExp[] = [
+  /00D\w{12,15}![\w.]+/g, // Access tokens / session ids
+  /force:\/\/\S+/g, // sfdx auth URLs
+  /("(?:accessToken|refreshToken|password|clientSecret)"\s*:\s*)"[^"]*"/g,
+];
+
+/**
+ * Remove access tokens, auth URLs and passwords from command output
+ */
+export function redactSecrets(text: string): string {
+  return SECRET_PATTERNS.reduce(
+    (result, pattern) =>
+      result.replace(pattern, (match, prefix?: string) =>
+        typeof prefix === 'string' ? `${prefix}"[redacted]"` : '[redacted]'
+      ),
+    text
+  );
+}
+
+/**
+ * Get the org a command targets from its flags
+ */
+export function getTargetOrgFromArgs(args: string[]): string | undefined {
+  const index = args.findIndex(arg =>
+    ['--target-org', '-o', '--source-org', '--target-dev-hub', '-v'].includes(arg)
+  );
+  const value = index >= 0 ? args[index + 1] : undefined;
+  return value && !value.startsWith('-') ? value : undefined;
+}
+
+class CommandHistory {
+  private static instance: CommandHistory;
+  private entries: HistoryEntry[] | null = null; // Loaded lazily, oldest first
+  private file: string | null = DEFAULT_HISTORY_FILE;
+  private subscribers: HistorySubscriber[] = [];
+  private generateEntryId = (): string =>
+    `cmd-${Date.now()}-${Math.floor(Math.random() * 10000)}`;
+
+  private constructor() {}
+
+  public static getInstance(): CommandHistory {
+    if (!CommandHistory.instance) {
+      CommandHistory.instance = new CommandHistory();
+    }
+    return CommandHistory.instance;
+  }
+
+  /**
+   * Change where history is stored.
+   * Pass null to keep history in memory only (used by demo mode and tests).
+   */
+  public setFile(file: string | null): void {
+    this.file = file;
+    this.entries = null;
+  }
+
+  public getDefaultFile(): string {
+    return DEFAULT_HISTORY_FILE;
+  }
+
+  // Subscribe to history updates
+  public subscribe(callback: HistorySubscriber): () => void {
+    this.subscribers.push(callback);
+
+    // Return unsubscribe function
+    return () => {
+      this.subscribers = this.subscribers.filter(sub => sub !== callback);
+    };
+  }
+
+  // Notify all subscribers with the latest entries
+  private notifySubscribers(): void {
+    const entries = this.getEntries();
+    for (const subscriber of this.subscribers) {
+      try {
+        subscriber(entries);
+      } catch (err) {
+        logger.error('Error in history subscriber', { subscriberError: err });
+      }
+    }
+  }
+
+  // Read the history file, trimming it when it has grown past the limit
+  private load(): HistoryEntry[] {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    this.entries = [];
+    if (!this.file || !fs.existsSync(this.file)) {
+      return this.entries;
+    }
+
+    try {
+      const lines = fs.readFileSync(this.file, 'utf8').split('\n').filter(Boolean);
+      for (const line of lines) {
+        try {
+          this.entries.push(JSON.parse(line));
+        } catch {
+          // Skip lines that were only partially written
+        }
+      }
+
+      if (this.entries.length > MAX_HISTORY_ENTRIES) {
+        this.entries = this.entries.slice(-MAX_HISTORY_ENTRIES);
+        fs.writeFileSync(
+          this.file,
+          this.entries.map(entry => JSON.stringify(entry)).join('\n') + '\n',
+          'utf8'
+        );
+      }
+    } catch (error) {
+      logger.warn('Failed to read command history', { error, file: this.file });
+    }
+
+    return this.entries;
+  }
+
+  /**
+   * Record a finished command
+   */
+  public record(entry: Omit<HistoryEntry, 'id' | 'output' | 'targetOrg'> & { output: string }): void {
+    const targetOrg = getTargetOrgFromArgs(entry.args);
+    const historyEntry: HistoryEntry = {
+      ...entry,
+      id: this.generateEntryId(),
+      ...(targetOrg ? { targetOrg } : {}),
+      output: redactSecrets(entry.output).slice(0, MAX_OUTPUT_LENGTH),
+    };
+
+    const entries = this.load();
+    entries.push(historyEntry);
+    if (entries.length > MAX_HISTORY_ENTRIES) {
+      entries.shift();
+    }
+
+    if (this.file) {
+      try {
+        fs.mkdirSync(path.dirname(this.file), { recursive: true });
+        fs.appendFileSync(this.file, JSON.stringify(historyEntry) + '\n', 'utf8');
+      } catch (error) {
+        logger.warn('Failed to write command history', { error, file: this.file });
+      }
+    }
+
+    this.notifySubscribers();
+  }
+
+  /**
+   * Get recorded commands, most recent first
+   */
+  public getEntries(filter: HistoryFilter = {}): HistoryEntry[] {
+    return this.load()
+      .filter(
+        entry =>
+          (!filter.panel || entry.panel === filter.panel) &&
+          (!filter.targetOrg || entry.targetOrg === filter.targetOrg) &&
+          (!filter.status || entry.status === filter.status)
+      )
+      .reverse();
+  }
+
+  /**
+   * Remove all recorded commands
+   */
+  public clear(): void {
+    this.entries = [];
+    if (this.file && fs.existsSync(this.file)) {
+      try {
+        fs.unlinkSync(this.file);
+      } catch (error) {
+        logger.warn('Failed to clear command history', { error, file: this.file });
+      }
+    }
+    this.notifySubscribers();
+  }
+}
+
+// Export a singleton instance
+export const commandHistory = CommandHistory.getInstance();
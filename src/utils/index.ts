@@ -4,5 +4,11 @@ export * from './logger';
 export * from './errorReporter';
 export * from './cache';
 export * from './cacheWrapper';
+export * from './cacheTags';
 export * from './commandExecutor';
+export * from './sfCli';
+export * from './sfSimulator';
+export * from './jobManager';
+export * from './commandHistory';
+export * from './clipboard';
 // Export other utility files here as we create them
\ No newline at end of file
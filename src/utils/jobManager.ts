@@ -0,0 +1,431 @@
+import { streamSfCommand, formatSfCommand, SfCommandError } from './sfCli';
+import { describeRetry, getCommandTimeout, RetryAttempt } from './commandExecutor';
+import { ProgressParser, CommandProgress } from './progressParser';
+import { formatDuration } from './helpers';
+import { logger } from './logger';
+import { config, Config } from '../config';
+
+export type JobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  /**
+   * Human readable description (e.g. 'Deploy to acme-uat')
+   */
+  label: string;
+  args: string[];
+  /**
+   * Panel that started the job
+   */
+  origin: string;
+  status: JobStatus;
+  output: string;
+  exitCode: number | null;
+  error?: string;
+  /**
+   * ID of the org-side deployment, once the CLI has reported it
+   */
+  deployId?: string;
+  /**
+   * Progress parsed from the output, for commands that report it
+   */
+  progress?: CommandProgress;
+  /**
+   * Form values the command was built from
+   */
+  params?: Record<string, string>;
+  /**
+   * Milliseconds the job runs before the timeout policy applies. 0 means no timeout.
+   */
+  timeout: number;
+  /**
+   * Whether the job has reached its timeout and is waiting for the user to
+   * keep waiting, move it to the background or cancel it
+   */
+  timedOut?: boolean;
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+export interface JobOptions {
+  label?: string;
+  origin?: string;
+  params?: Record<string, string>;
+  /**
+   * Called with each chunk of output as it arrives
+   */
+  onOutput?: (chunk: string, stream: 'stdout' | 'stderr') => void;
+  /**
+   * Called whenever parsed progress changes
+   */
+  onProgress?: (progress: CommandProgress) => void;
+  /**
+   * Called before a transient failure is retried
+   */
+  onRetry?: (attempt: RetryAttempt) => void;
+  /**
+   * Milliseconds before the timeout policy applies
+   * Default: the command's timeout from the config
+   */
+  timeout?: number;
+}
+
+export interface CancelOptions {
+  /**
+   * Also stop the deployment in the org with `sf project deploy cancel`
+   * when the job is a deploy whose ID is known.
+   * Default: true
+   */
+  cancelInOrg?: boolean;
+}
+
+// Define subscribers for job updates
+type JobSubscriber = (jobs: Job[]) => void;
+
+const MAX_JOBS = 50; // Maximum number of jobs kept in the list
+const MAX_OUTPUT_LENGTH = 200 * 1024; // Keep the last 200KB of output per job
+const DEPLOY_ID_PATTERN = /Deploy ID: (0Af\w{12,15})/;
+
+// Whether the arguments start an org-side deployment
+const isDeployCommand = (args: string[]): boolean =>
+  args[0] === 'project' && args[1] === 'deploy' && ['start', 'validate'].includes(args[2] || '');
+
+// Value of the target org flag, if any
+const getTargetOrg = (args: string[]): string | undefined => {
+  const index = args.findIndex(arg => arg === '--target-org' || arg === '-o');
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+class JobManager {
+  private static instance: JobManager;
+  private jobs: Map<string, Job> = new Map(); // Stores jobs by ID, in the order they were started
+  private controllers: Map<string, AbortController> = new Map(); // Abort controllers of running jobs
+  private completions: Map<string, Promise<Job>> = new Map();
+  private timers: Map<string, ReturnType<typeof setTimeout>> = new Map(); // Timeouts of running jobs
+  private subscribers: JobSubscriber[] = [];
+  private generateJobId = (): string => `job-${Date.now()}-${Math.floor(Math.random() * 10000)}`;
+
+  private constructor() {}
+
+  public static getInstance(): JobManager {
+    if (!JobManager.instance) {
+      JobManager.instance = new JobManager();
+    }
+    return JobManager.instance;
+  }
+
+  // Subscribe to job updates
+  public subscribe(callback: JobSubscriber): () => void {
+    this.subscribers.push(callback);
+
+    // Return unsubscribe function
+    return () => {
+      this.subscribers = this.subscribers.filter(sub => sub !== callback);
+    };
+  }
+
+  // Notify all subscribers with a snapshot of the job list
+  private notifySubscribers(): void {
+    const jobs = this.getJobs();
+    for (const subscriber of this.subscribers) {
+      try {
+        subscriber(jobs);
+      } catch (err) {
+        logger.error('Error in job subscriber', { subscriberError: err });
+      }
+    }
+  }
+
+  // Replace a job with an updated copy so subscribers see a new reference
+  private update(id: string, changes: Partial<Job>): void {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return;
+    }
+    this.jobs.set(id, { ...job, ...changes });
+    this.notifySubscribers();
+  }
+
+  // Apply the timeout policy once a job has run for its timeout
+  private startTimer(id: string, timeout: number): void {
+    this.clearTimer(id);
+    if (timeout > 0) {
+      this.timers.set(id, setTimeout(() => this.handleTimeout(id), timeout));
+    }
+  }
+
+  private clearTimer(id: string): void {
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+  }
+
+  // Jobs are not killed at their timeout: the config decides whether to ask, keep going or cancel
+  private handleTimeout(id: string): void {
+    this.timers.delete(id);
+    const job = this.jobs.get(id);
+    if (!job || job.status !== 'running') {
+      return;
+    }
+
+    const policy = config.get<Config['timeouts']>('timeouts')?.onTimeout || 'prompt';
+    logger.warn(`Job ${id} is still running after ${formatDuration(job.timeout)}`, { policy });
+    if (policy === 'background') {
+      return;
+    }
+
+    this.update(id, { timedOut: true });
+    if (policy === 'cancel') {
+      this.cancel(id);
+    }
+  }
+
+  // Drop the oldest finished jobs once the list is full
+  private evictFinishedJobs(): void {
+    for (const job of this.jobs.values()) {
+      if (this.jobs.size <= MAX_JOBS) {
+        return;
+      }
+      if (job.status !== 'running') {
+        this.jobs.delete(job.id);
+        this.completions.delete(job.id);
+      }
+    }
+  }
+
+  /**
+   * Start an sf command as a background job.
+   * Output is kept on the job, so the panel that started it can be left
+   * while the command keeps running.
+   *
+   * @param args Command arguments
+   * @param options Job options
+   * @returns The newly started job
+   */
+  public start(args: string[], options: JobOptions = {}): Job {
+    const id = this.generateJobId();
+    const controller = new AbortController();
+    const parser = ProgressParser.forCommand(args);
+    const timeout = options.timeout ?? getCommandTimeout(args);
+    const job: Job = {
+      id,
+      label: options.label || formatSfCommand(args),
+      args,
+      origin: options.origin || 'unknown',
+      status: 'running',
+      output: '',
+      exitCode: null,
+      ...(options.params ? { params: options.params } : {}),
+      ...(parser ? { progress: parser.getProgress() } : {}),
+      timeout,
+      startedAt: new Date(),
+      finishedAt: null,
+    };
+
+    this.jobs.set(id, job);
+    this.controllers.set(id, controller);
+    this.startTimer(id, timeout);
+    this.evictFinishedJobs();
+    this.notifySubscribers();
+    logger.info(`Started job ${id}: ${formatSfCommand(args)}`, { origin: job.origin });
+
+    const completion = streamSfCommand(args, {
+      context: job.origin,
+      signal: controller.signal,
+      // The job's own timer handles the timeout, so the process is never killed for it
+      timeout: 0,
+      ...(options.params ? { historyParams: options.params } : {}),
+      onOutput: (chunk, stream) => {
+        const current = this.jobs.get(id);
+        if (current) {
+          const output = (current.output + chunk).slice(-MAX_OUTPUT_LENGTH);
+          const deployId = current.deployId || output.match(DEPLOY_ID_PATTERN)?.[1];
+          const progress = stream === 'stdout' ? parser?.push(chunk) : undefined;
+          this.update(id, {
+            output,
+            ...(deployId ? { deployId } : {}),
+            ...(progress ? { progress } : {}),
+          });
+          if (progress) {
+            options.onProgress?.(progress);
+          }
+        }
+        options.onOutput?.(chunk, stream);
+      },
+      onRetry: attempt => {
+        const current = this.jobs.get(id);
+        if (current) {
+          // Keep the failed attempt's output, marking where the next one starts
+          this.update(id, {
+            output: `${current.output}\n${describeRetry(attempt)}\n`.slice(-MAX_OUTPUT_LENGTH),
+          });
+        }
+        options.onRetry?.(attempt);
+      },
+    })
+      .then(result => {
+        this.update(id, {
+          status: 'succeeded',
+          exitCode: result.exitCode,
+          ...(parser ? { progress: parser.finish(true) } : {}),
+          finishedAt: new Date(),
+        });
+      })
+      .catch(err => {
+        const cancelled =
+          controller.signal.aborted ||
+          (err instanceof SfCommandError && err.sfName === 'CommandCancelled');
+        this.update(id, {
+          status: cancelled ? 'cancelled' : 'failed',
+          ...(parser && !cancelled ? { progress: parser.finish(false) } : {}),
+          exitCode: err instanceof SfCommandError ? err.exitCode : 1,
+          error: cancelled
+            ? this.jobs.get(id)?.timedOut
+              ? `Timed out after ${formatDuration(timeout)}`
+              : 'Cancelled by user'
+            : err instanceof Error
+              ? err.message
+              : String(err),
+          finishedAt: new Date(),
+        });
+      })
+      .then(() => {
+        this.controllers.delete(id);
+        this.clearTimer(id);
+        const finished = this.jobs.get(id) as Job;
+        logger.info(`Job ${id} ${finished.status}`, { exitCode: finished.exitCode });
+        return finished;
+      });
+
+    this.completions.set(id, completion);
+    return job;
+  }
+
+  /**
+   * Wait for a job to finish. Resolves (never rejects) with the final job,
+   * whose status tells whether it succeeded.
+   */
+  public wait(id: string): Promise<Job | undefined> {
+    return this.completions.get(id) || Promise.resolve(this.jobs.get(id));
+  }
+
+  /**
+   * Cancel a running job, killing its process tree.
+   * Deploys are also cancelled in the org unless `cancelInOrg` is false,
+   * since killing the CLI alone leaves the deployment running server-side.
+   *
+   * @returns Whether a running job was found
+   */
+  public cancel(id: string, options: CancelOptions = {}): boolean {
+    const controller = this.controllers.get(id);
+    const job = this.jobs.get(id);
+    if (!controller || !job) {
+      return false;
+    }
+    controller.abort();
+
+    if (options.cancelInOrg !== false && job.deployId && isDeployCommand(job.args)) {
+      const targetOrg = getTargetOrg(job.args);
+      this.start(
+        [
+          'project',
+          'deploy',
+          'cancel',
+          '--job-id',
+          job.deployId,
+          ...(targetOrg ? ['--target-org', targetOrg] : []),
+        ],
+        { label: `Cancel deployment ${job.deployId}`, origin: job.origin }
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Keep waiting for a job that reached its timeout, for another timeout
+   *
+   * @returns Whether a running job was found
+   */
+  public keepWaiting(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== 'running') {
+      return false;
+    }
+    this.update(id, { timedOut: false });
+    this.startTimer(id, job.timeout);
+    return true;
+  }
+
+  /**
+   * Let a job that reached its timeout run in the background until it finishes
+   *
+   * @returns Whether a running job was found
+   */
+  public moveToBackground(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== 'running') {
+      return false;
+    }
+    this.clearTimer(id);
+    this.update(id, { timedOut: false });
+    return true;
+  }
+
+  /**
+   * Start a new job with the same command as an existing one
+   */
+  public rerun(id: string): Job | undefined {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+    return this.start(job.args, {
+      label: job.label,
+      origin: job.origin,
+      ...(job.params ? { params: job.params } : {}),
+    });
+  }
+
+  /**
+   * Remove a finished job from the list
+   */
+  public remove(id: string): void {
+    const job = this.jobs.get(id);
+    if (!job || job.status === 'running') {
+      return;
+    }
+    this.jobs.delete(id);
+    this.completions.delete(id);
+    this.notifySubscribers();
+  }
+
+  /**
+   * Remove all finished jobs from the list
+   */
+  public clearFinished(): void {
+    for (const job of this.getJobs()) {
+      if (job.status !== 'running') {
+        this.jobs.delete(job.id);
+        this.completions.delete(job.id);
+      }
+    }
+    this.notifySubscribers();
+  }
+
+  public getJob(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Get all jobs, most recent first
+   */
+  public getJobs(): Job[] {
+    return Array.from(this.jobs.values()).reverse();
+  }
+
+  public getRunningCount(): number {
+    return this.getJobs().filter(job => job.status === 'running').length;
+  }
+}
+
+// Export a singleton instance
+export const jobManager = JobManager.getInstance();
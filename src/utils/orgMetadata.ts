@@ -0,0 +1,166 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { logger } from './logger';
+import type { SfOrg } from '../types/sf';
+
+export type OrgEnvironment = 'dev' | 'qa' | 'uat' | 'prod';
+
+export const ORG_ENVIRONMENTS: OrgEnvironment[] = ['dev', 'qa', 'uat', 'prod'];
+
+/**
+ * What we know about an org beyond what the CLI reports
+ */
+export interface OrgMetadata {
+  environment?: OrgEnvironment;
+  project?: string;
+  notes?: string;
+  favorite?: boolean;
+}
+
+/**
+ * Fields to change; undefined, empty and false values remove the field
+ */
+export type OrgMetadataChanges = { [K in keyof OrgMetadata]?: OrgMetadata[K] | undefined };
+
+// Metadata by org id
+type OrgMetadataMap = Record<string, OrgMetadata>;
+
+type OrgMetadataSubscriber = (metadata: OrgMetadataMap) => void;
+
+const DEFAULT_METADATA_FILE = path.join(config.dir, 'orgs.json');
+
+/**
+ * Put favorite orgs first, keeping the order of the others
+ */
+export function sortFavoritesFirst<T extends Pick<SfOrg, 'orgId'>>(orgs: T[]): T[] {
+  const isFavorite = (org: T) => !!orgMetadata.get(org.orgId).favorite;
+  return [...orgs].sort((a, b) => Number(isFavorite(b)) - Number(isFavorite(a)));
+}
+
+/**
+ * Local tags, notes and favorites of orgs, kept in the config directory
+ * by org id so they survive alias changes and re-authentication.
+ */
+class OrgMetadataStore {
+  private static instance: OrgMetadataStore;
+  private metadata: OrgMetadataMap | null = null; // Loaded lazily
+  private file: string | null = DEFAULT_METADATA_FILE;
+  private subscribers: OrgMetadataSubscriber[] = [];
+
+  private constructor() {}
+
+  public static getInstance(): OrgMetadataStore {
+    if (!OrgMetadataStore.instance) {
+      OrgMetadataStore.instance = new OrgMetadataStore();
+    }
+    return OrgMetadataStore.instance;
+  }
+
+  /**
+   * Change where metadata is stored.
+   * Pass null to keep it in memory only (used by demo mode and tests).
+   */
+  public setFile(file: string | null): void {
+    this.file = file;
+    this.metadata = null;
+  }
+
+  public getDefaultFile(): string {
+    return DEFAULT_METADATA_FILE;
+  }
+
+  // Subscribe to metadata updates
+  public subscribe(callback: OrgMetadataSubscriber): () => void {
+    this.subscribers.push(callback);
+
+    // Return unsubscribe function
+    return () => {
+      this.subscribers = this.subscribers.filter(sub => sub !== callback);
+    };
+  }
+
+  private notifySubscribers(): void {
+    const metadata = this.getAll();
+    for (const subscriber of this.subscribers) {
+      try {
+        subscriber(metadata);
+      } catch (err) {
+        logger.error('Error in org metadata subscriber', { subscriberError: err });
+      }
+    }
+  }
+
+  private load(): OrgMetadataMap {
+    if (this.metadata) {
+      return this.metadata;
+    }
+
+    this.metadata = {};
+    if (!this.file || !fs.existsSync(this.file)) {
+      return this.metadata;
+    }
+
+    try {
+      this.metadata = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+    } catch (error) {
+      logger.warn('Failed to read org metadata', { error, file: this.file });
+    }
+    return this.metadata!;
+  }
+
+  private save(): void {
+    if (!this.file) {
+      return;
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.writeFileSync(this.file, JSON.stringify(this.load(), null, 2), 'utf8');
+    } catch (error) {
+      logger.warn('Failed to write org metadata', { error, file: this.file });
+    }
+  }
+
+  /**
+   * Get the metadata of an org, empty when nothing was recorded
+   */
+  public get(orgId: string): OrgMetadata {
+    return this.load()[orgId] || {};
+  }
+
+  /**
+   * Get the metadata of all orgs, by org id
+   */
+  public getAll(): OrgMetadataMap {
+    return { ...this.load() };
+  }
+
+  /**
+   * Change some fields of an org's metadata. Empty values remove the field.
+   */
+  public update(orgId: string, changes: OrgMetadataChanges): void {
+    const merged: OrgMetadataChanges = { ...this.get(orgId), ...changes };
+    const next = Object.fromEntries(
+      Object.entries(merged).filter(([, value]) => value !== undefined && value !== '' && value !== false)
+    ) as OrgMetadata;
+
+    const metadata = this.load();
+    if (Object.keys(next).length > 0) {
+      metadata[orgId] = next;
+    } else {
+      delete metadata[orgId];
+    }
+    this.save();
+    this.notifySubscribers();
+  }
+
+  /**
+   * Mark an org as favorite, or unmark it
+   */
+  public toggleFavorite(orgId: string): void {
+    this.update(orgId, { favorite: !this.get(orgId).favorite });
+  }
+}
+
+// Export a singleton instance
+export const orgMetadata = OrgMetadataStore.getInstance();
@@ -0,0 +1,164 @@
+import { changesTargetOrg, findCommand } from '../config/commandRegistry';
+import { displayOrg, getConfigValue, getOrgType, listOrgs } from './sfCli';
+import { orgMetadata, OrgMetadata } from './orgMetadata';
+import { logger } from './logger';
+import type { SfOrg } from '../types/sf';
+
+/**
+ * What the guard knows about an org
+ */
+export interface GuardedOrg {
+  orgId?: string;
+  username: string;
+  alias?: string;
+  instanceUrl?: string;
+  isSandbox?: boolean;
+  isScratch?: boolean;
+  /**
+   * Neither sf nor the org list could tell what kind of org it is,
+   * so commands changing it are confirmed as for production
+   */
+  unknown?: boolean;
+}
+
+type OrgKind = Parameters<typeof getOrgType>[0];
+
+// Orgs already looked up, by the alias or username used to target them.
+// The kind of an org never changes, so lookups are kept for the session.
+const knownOrgs = new Map<string, GuardedOrg>();
+
+/**
+ * Whether an org is production. An environment tag set by the user wins;
+ * otherwise every org that getOrgType sees as neither a sandbox nor a
+ * scratch org is.
+ */
+export function isProductionOrg(org: OrgKind, metadata: OrgMetadata = {}): boolean {
+  if (metadata.environment) {
+    return metadata.environment === 'prod';
+  }
+  const type = getOrgType(org);
+  return type !== 'sandbox' && type !== 'scratch';
+}
+
+/**
+ * Name to type to confirm a command against an org
+ */
+export function getConfirmationName(org: GuardedOrg): string {
+  return org.alias || org.username;
+}
+
+// Whether running the command can change the org it targets
+const isGuarded = (args: string[]): boolean => changesTargetOrg(args) && !args.includes('--dry-run');
+
+/**
+ * Get the org a command changes: its `--target-org`, or nothing when the
+ * command does not change an org or leaves the choice to the default org.
+ * Use resolveGuardedTarget to also resolve the default org.
+ */
+export function getGuardedTargetFromArgs(args: string[]): string | undefined {
+  if (!isGuarded(args)) {
+    return undefined;
+  }
+  const index = args.findIndex(arg => arg === '--target-org' || arg === '-o');
+  const value = index >= 0 ? args[index + 1] : undefined;
+  return value && !value.startsWith('-') ? value : undefined;
+}
+
+/**
+ * Get the org a command changes, falling back to the default org for
+ * registered commands run without `--target-org`
+ */
+export async function resolveGuardedTarget(args: string[]): Promise<string | undefined> {
+  const explicit = getGuardedTargetFromArgs(args);
+  if (explicit || !isGuarded(args) || !findCommand(args)) {
+    return explicit;
+  }
+  return getConfigValue('target-org', { context: 'productionGuard', reportErrors: false }).catch(() => undefined);
+}
+
+/**
+ * Look up an org with `sf org display`, once per session. Older CLI versions
+ * leave out `isSandbox` and `isScratch`, which are then taken from the org list.
+ */
+export async function lookupOrg(targetOrg: string): Promise<GuardedOrg> {
+  const known = knownOrgs.get(targetOrg);
+  if (known) {
+    return known;
+  }
+
+  try {
+    const details = await displayOrg(targetOrg, { context: 'productionGuard', reportErrors: false });
+    const displayed: GuardedOrg = {
+      orgId: details.id,
+      username: details.username,
+      instanceUrl: details.instanceUrl,
+      ...(details.alias ? { alias: details.alias } : {}),
+      ...(details.isSandbox !== undefined ? { isSandbox: details.isSandbox } : {}),
+      ...(details.isScratch !== undefined ? { isScratch: details.isScratch } : {}),
+    };
+    if (displayed.isSandbox !== undefined && displayed.isScratch !== undefined) {
+      knownOrgs.set(targetOrg, displayed);
+      return displayed;
+    }
+
+    const listed = await findListedOrg(details.username);
+    if (!listed) {
+      // Not remembered, so the org list is checked again next time
+      return displayed;
+    }
+    const org = { ...toGuardedOrg(listed), ...displayed };
+    knownOrgs.set(targetOrg, org);
+    return org;
+  } catch (error) {
+    // Not remembered, so the org is looked up again next time
+    logger.warn(`Could not display ${targetOrg}, checking the org list instead`, { error });
+    const listed = await findListedOrg(targetOrg);
+    return listed ? toGuardedOrg(listed) : { username: targetOrg, unknown: true };
+  }
+}
+
+/**
+ * Find an org (alias or username) in the (usually cached) org list
+ */
+async function findListedOrg(targetOrg: string): Promise<SfOrg | undefined> {
+  const orgs = await listOrgs({ context: 'productionGuard', reportErrors: false }).catch(() => []);
+  return orgs.find(org => org.username === targetOrg || org.alias === targetOrg);
+}
+
+// What the guard needs of an org list entry
+const toGuardedOrg = (listed: SfOrg): GuardedOrg => ({
+  orgId: listed.orgId,
+  username: listed.username,
+  instanceUrl: listed.instanceUrl,
+  ...(listed.alias ? { alias: listed.alias } : {}),
+  ...(listed.isSandbox !== undefined ? { isSandbox: listed.isSandbox } : {}),
+  ...(listed.isScratch !== undefined ? { isScratch: listed.isScratch } : {}),
+});
+
+/**
+ * Get the production org a command would change, if any
+ */
+export async function findProductionTarget(args: string[]): Promise<GuardedOrg | undefined> {
+  const targetOrg = await resolveGuardedTarget(args);
+  if (!targetOrg) {
+    return undefined;
+  }
+  const org = await lookupOrg(targetOrg);
+  return isProductionOrg(org, org.orgId ? orgMetadata.get(org.orgId) : {}) ? org : undefined;
+}
+
+/**
+ * Whether an org (alias or username) is known to be production.
+ * Orgs that cannot be looked up are not, though commands changing them are still confirmed.
+ */
+export async function isProductionTarget(targetOrg: string): Promise<boolean> {
+  const org = await lookupOrg(targetOrg);
+  return !org.unknown && isProductionOrg(org, org.orgId ? orgMetadata.get(org.orgId) : {});
+}
+
+/**
+ * Forget the orgs looked up so far (e.g. after logging out)
+ */
+export function clearKnownOrgs(): void {
+  knownOrgs.clear();
+}
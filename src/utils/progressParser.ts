@@ -0,0 +1,318 @@
+import { findCommand } from '../config/commandRegistry';
+
+export type ProgressStageStatus = 'pending' | 'in_progress' | 'completed' | 'error';
+
+/**
+ * One stage of a long-running command, in the shape MultiStageProgress renders
+ */
+export interface ProgressStage {
+  name: string;
+  value: number;
+  maxValue: number;
+  status: ProgressStageStatus;
+}
+
+export interface ProgressCount {
+  done: number;
+  total: number;
+}
+
+export interface CommandProgress {
+  stages: ProgressStage[];
+  /**
+   * Overall progress from 0 to 100
+   */
+  percent: number;
+  /**
+   * Last status the CLI reported while polling (e.g. 'In Progress')
+   */
+  status?: string;
+  components?: ProgressCount;
+  tests?: ProgressCount;
+}
+
+/**
+ * Kinds of command whose progress output can be parsed
+ */
+export type ProgressKind = 'deploy' | 'retrieve' | 'test' | 'scratch';
+
+interface StageDefinition {
+  name: string;
+  /**
+   * Share of the overall progress the stage accounts for
+   */
+  weight: number;
+  /**
+   * Other names the CLI prints for the stage
+   */
+  aliases?: string[];
+  counts?: 'components' | 'tests';
+}
+
+const STAGES: Record<ProgressKind, StageDefinition[]> = {
+  deploy: [
+    { name: 'Preparing', weight: 1 },
+    { name: 'Waiting for the org to respond', weight: 1, aliases: ['Queued', 'Pending'] },
+    { name: 'Deploying Metadata', weight: 6, counts: 'components' },
+    { name: 'Running Tests', weight: 3, counts: 'tests' },
+    { name: 'Done', weight: 0 },
+  ],
+  retrieve: [
+    { name: 'Preparing', weight: 1, aliases: ['Preparing retrieve request'] },
+    {
+      name: 'Waiting for the org to respond',
+      weight: 1,
+      aliases: ['Sending request to org', 'Queued', 'Pending'],
+    },
+    { name: 'Retrieving Metadata', weight: 6, counts: 'components' },
+    { name: 'Done', weight: 0 },
+  ],
+  test: [
+    { name: 'Queued', weight: 1, aliases: ['Pending'] },
+    { name: 'Running Tests', weight: 8, counts: 'tests' },
+    { name: 'Done', weight: 0 },
+  ],
+  scratch: [
+    { name: 'Prepare Request', weight: 1 },
+    { name: 'Send Request', weight: 1 },
+    { name: 'Wait For Org', weight: 5 },
+    { name: 'Available', weight: 1 },
+    { name: 'Authenticate', weight: 1 },
+    { name: 'Deploy Settings', weight: 1 },
+    { name: 'Done', weight: 0 },
+  ],
+};
+
+// Commands whose output can be parsed, by registry id
+const PROGRESS_KINDS: Record<string, ProgressKind> = {
+  'project:deploy:start': 'deploy',
+  'project:deploy:validate': 'deploy',
+  'project:deploy:resume': 'deploy',
+  'project:retrieve:start': 'retrieve',
+  'apex:run:test': 'test',
+  'org:create:scratch': 'scratch',
+};
+
+const COMPONENT_PATTERNS = [/Components:\s*(\d+)\s*\/\s*(\d+)/i, /(\d+)\s*\/\s*(\d+)\s+Components/i];
+const TEST_PATTERNS = [
+  /Tests(?: Completed)?:\s*(\d+)\s*\/\s*(\d+)/i,
+  /Successful:\s*(\d+)\s*\/\s*(\d+)/i,
+  /(\d+)\s*\/\s*(\d+)\s+Tests/i,
+];
+const STATUS_PATTERN = /Status:\s*([A-Za-z][A-Za-z ]*?)\s*(?:\||$)/;
+// Stage lines in the CLI's multi-stage output, e.g. '✔ Deploying Metadata 2.38s'
+const STAGE_LINE_PATTERN = /^\s*([✔✓✘✖✗◯])\s+(.+?)(?:\s+-\s+Skipped)?(?:\s+[\d.]+m?s)?\s*$/;
+
+const FAILED_STATUSES = ['failed', 'canceled', 'cancelled', 'error'];
+const FINISHED_STATUSES = ['succeeded', 'succeeded partial', 'active', 'completed', ...FAILED_STATUSES];
+const WAITING_STATUSES = ['queued', 'pending', 'new'];
+
+// Read the first count matching any of the patterns
+const matchCount = (line: string, patterns: RegExp[]): ProgressCount | undefined => {
+  for (const pattern of patterns) {
+    const match = line.match(pattern);
+    if (match) {
+      return { done: Number(match[1]), total: Number(match[2]) };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Get the kind of progress a command reports, if its output can be parsed
+ */
+export function getProgressKind(args: string[]): ProgressKind | undefined {
+  const definition = findCommand(args);
+  return definition ? PROGRESS_KINDS[definition.id] : undefined;
+}
+
+/**
+ * Turns the human-readable output of sf deploys, retrieves, test runs and
+ * scratch org creation into stage and count based progress.
+ * Output is fed in as it streams; partial lines are kept until they complete.
+ */
+export class ProgressParser {
+  private definitions: StageDefinition[];
+  private stages: ProgressStage[];
+  private status: string | undefined;
+  private components: ProgressCount | undefined;
+  private tests: ProgressCount | undefined;
+  private partialLine = '';
+
+  constructor(kind: ProgressKind) {
+    this.definitions = STAGES[kind];
+    this.stages = this.definitions.map(definition => ({
+      name: definition.name,
+      value: 0,
+      maxValue: 1,
+      status: 'pending',
+    }));
+  }
+
+  /**
+   * Create a parser for a command, or null when its progress is not understood
+   */
+  public static forCommand(args: string[]): ProgressParser | null {
+    const kind = getProgressKind(args);
+    return kind ? new ProgressParser(kind) : null;
+  }
+
+  /**
+   * Feed a chunk of output and get the progress so far
+   */
+  public push(chunk: string): CommandProgress {
+    const lines = (this.partialLine + chunk).split(/\r?\n|\r/);
+    this.partialLine = lines.pop() || '';
+    for (const line of lines) {
+      this.parseLine(line);
+    }
+    return this.getProgress();
+  }
+
+  /**
+   * Mark the command as finished, completing or failing the remaining stages
+   */
+  public finish(succeeded: boolean): CommandProgress {
+    if (this.partialLine) {
+      this.parseLine(this.partialLine);
+      this.partialLine = '';
+    }
+
+    if (succeeded) {
+      this.stages = this.stages.map(stage => ({ ...stage, value: stage.maxValue, status: 'completed' }));
+    } else {
+      const failed = this.stages.findIndex(stage => stage.status !== 'completed');
+      if (failed >= 0) {
+        this.setStatus(failed, 'error');
+      }
+    }
+    return this.getProgress();
+  }
+
+  public getProgress(): CommandProgress {
+    const totalWeight = this.definitions.reduce((total, definition) => total + definition.weight, 0);
+    const doneWeight = this.stages.reduce((total, stage, index) => {
+      const weight = this.definitions[index]?.weight || 0;
+      if (stage.status === 'completed') {
+        return total + weight;
+      }
+      if (stage.status === 'in_progress' || stage.status === 'error') {
+        return total + weight * (stage.value / stage.maxValue);
+      }
+      return total;
+    }, 0);
+
+    return {
+      stages: this.stages.map(stage => ({ ...stage })),
+      percent: totalWeight > 0 ? Math.min(100, Math.round((doneWeight / totalWeight) * 100)) : 0,
+      ...(this.status ? { status: this.status } : {}),
+      ...(this.components ? { components: { ...this.components } } : {}),
+      ...(this.tests ? { tests: { ...this.tests } } : {}),
+    };
+  }
+
+  private parseLine(line: string): void {
+    const stageLine = line.match(STAGE_LINE_PATTERN);
+    if (stageLine) {
+      const index = this.findStage(stageLine[2] || '');
+      if (index >= 0) {
+        const marker = stageLine[1];
+        this.setStatus(index, ['✘', '✖', '✗'].includes(marker || '') ? 'error' : 'completed');
+      }
+    }
+
+    const components = matchCount(line, COMPONENT_PATTERNS);
+    if (components) {
+      this.components = components;
+      this.updateCount('components', components);
+    }
+
+    const tests = matchCount(line, TEST_PATTERNS);
+    if (tests) {
+      this.tests = tests;
+      this.updateCount('tests', tests);
+    }
+
+    const status = line.match(STATUS_PATTERN)?.[1]?.trim();
+    if (status) {
+      this.status = status;
+      this.applyStatus(status);
+    }
+  }
+
+  // Find a stage by the start of its name or one of its aliases
+  private findStage(text: string): number {
+    const normalized = text.toLowerCase();
+    return this.definitions.findIndex(definition =>
+      [definition.name, ...(definition.aliases || [])].some(name =>
+        normalized.startsWith(name.toLowerCase())
+      )
+    );
+  }
+
+  // Set a stage's status; reaching a stage means every earlier one is complete
+  private setStatus(index: number, status: ProgressStageStatus): void {
+    this.stages = this.stages.map((stage, i) => {
+      if (i < index && stage.status !== 'error') {
+        return { ...stage, value: stage.maxValue, status: 'completed' };
+      }
+      if (i === index) {
+        return { ...stage, ...(status === 'completed' ? { value: stage.maxValue } : {}), status };
+      }
+      return stage;
+    });
+  }
+
+  private updateCount(counts: 'components' | 'tests', count: ProgressCount): void {
+    const index = this.definitions.findIndex(definition => definition.counts === counts);
+    const stage = this.stages[index];
+    // Counts of 0/0 (e.g. a deploy without tests) say nothing about progress
+    if (!stage || count.total === 0 || stage.status === 'completed') {
+      return;
+    }
+
+    this.setStatus(index, 'in_progress');
+    this.stages[index] = {
+      ...this.stages[index]!,
+      value: Math.min(count.done, count.total),
+      maxValue: count.total,
+    };
+  }
+
+  // Move through the stages from the polling status the CLI prints
+  private applyStatus(status: string): void {
+    const normalized = status.toLowerCase().replace(/\s+/g, ' ');
+    const countedStage = this.definitions.findIndex(definition => !!definition.counts);
+    const lastStage = this.stages.length - 1;
+
+    if (FAILED_STATUSES.includes(normalized)) {
+      const current = this.stages.findIndex(stage => stage.status !== 'completed');
+      this.setStatus(current >= 0 ? current : lastStage, 'error');
+    } else if (FINISHED_STATUSES.includes(normalized)) {
+      this.setStatus(lastStage, 'completed');
+    } else if (WAITING_STATUSES.includes(normalized)) {
+      const waiting = this.findStage(status);
+      if (waiting >= 0 && this.stages[waiting]?.status === 'pending') {
+        this.setStatus(waiting, 'in_progress');
+      }
+    } else if (countedStage >= 0 && this.stages[countedStage]?.status === 'pending') {
+      // Any other status (e.g. 'In Progress') means the main stage has started
+      this.setStatus(countedStage, 'in_progress');
+    }
+  }
+}
+
+/**
+ * Short description of progress for notifications and job lists,
+ * e.g. '14/42 components · tests 4/12 · In Progress'
+ */
+export function describeProgress(progress: CommandProgress): string {
+  const current = progress.stages.find(stage => stage.status === 'in_progress');
+  return [
+    ...(progress.components ? [`${progress.components.done}/${progress.components.total} components`] : []),
+    ...(progress.tests && progress.tests.total > 0
+      ? [`tests ${progress.tests.done}/${progress.tests.total}`]
+      : []),
+    ...(progress.status ? [progress.status] : current ? [current.name] : []),
+  ].join(' · ');
+}
@@ -0,0 +1,183 @@
+import { runSfCommand } from './sfCli';
+import { logger } from './logger';
+import { config, Config } from '../config';
+import type { SfQueryResult, SfSandboxProcess } from '../types/sf';
+
+/**
+ * Sandbox copy as shown in the status screen
+ */
+export interface SandboxCopy {
+  id: string;
+  name: string;
+  licenseType: string;
+  status: string;
+  /**
+   * Percentage copied, 0-100
+   */
+  progress: number;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface SandboxUpdate {
+  /**
+   * Production org the sandboxes belong to
+   */
+  targetOrg: string;
+  copies: SandboxCopy[];
+  /**
+   * Copies that were in progress at the previous check and have now finished
+   */
+  finished: SandboxCopy[];
+}
+
+type SandboxSubscriber = (update: SandboxUpdate) => void;
+
+// Statuses a copy does not leave by itself; every other status is still changing
+const FINISHED_STATUSES = ['Completed', 'Stopped', 'Suspended', 'Deleted', 'Discarded'];
+
+const SANDBOX_PROCESS_QUERY =
+  'SELECT Id, SandboxName, LicenseType, Status, CopyProgress, StartDate, EndDate, Description ' +
+  'FROM SandboxProcess ORDER BY CreatedDate DESC';
+
+/**
+ * Whether a sandbox copy is still running (queued, copying or activating)
+ */
+export function isCopyInProgress(copy: SandboxCopy): boolean {
+  return !FINISHED_STATUSES.includes(copy.status);
+}
+
+/**
+ * Turn SandboxProcess records, newest first, into the latest copy of each sandbox
+ */
+export function toSandboxCopies(records: SfSandboxProcess[]): SandboxCopy[] {
+  const seen = new Set<string>();
+  return records
+    .filter(record => {
+      if (seen.has(record.SandboxName)) {
+        return false;
+      }
+      seen.add(record.SandboxName);
+      return true;
+    })
+    .map(record => ({
+      id: record.Id,
+      name: record.SandboxName,
+      licenseType: record.LicenseType,
+      status: record.Status,
+      progress: record.CopyProgress ?? 0,
+      ...(record.StartDate ? { startDate: record.StartDate } : {}),
+      ...(record.EndDate ? { endDate: record.EndDate } : {}),
+    }));
+}
+
+/**
+ * Polls the sandbox copies of production orgs while any of them is in
+ * progress, and tells subscribers which copies have finished.
+ */
+class SandboxTracker {
+  private static instance: SandboxTracker;
+  private copies: Map<string, SandboxCopy[]> = new Map(); // Latest copies by production org
+  private timers: Map<string, ReturnType<typeof setTimeout>> = new Map(); // Next check by production org
+  private subscribers: SandboxSubscriber[] = [];
+
+  private constructor() {}
+
+  public static getInstance(): SandboxTracker {
+    if (!SandboxTracker.instance) {
+      SandboxTracker.instance = new SandboxTracker();
+    }
+    return SandboxTracker.instance;
+  }
+
+  // Subscribe to sandbox updates
+  public subscribe(callback: SandboxSubscriber): () => void {
+    this.subscribers.push(callback);
+
+    // Return unsubscribe function
+    return () => {
+      this.subscribers = this.subscribers.filter(sub => sub !== callback);
+    };
+  }
+
+  private notifySubscribers(update: SandboxUpdate): void {
+    for (const subscriber of this.subscribers) {
+      try {
+        subscriber(update);
+      } catch (err) {
+        logger.error('Error in sandbox subscriber', { subscriberError: err });
+      }
+    }
+  }
+
+  /**
+   * Get the copies found at the last check of a production org
+   */
+  public getCopies(targetOrg: string): SandboxCopy[] {
+    return this.copies.get(targetOrg) || [];
+  }
+
+  /**
+   * Check the sandbox copies of a production org now.
+   * Keeps checking at the configured interval while a copy is in progress.
+   */
+  public async refresh(targetOrg: string): Promise<SandboxCopy[]> {
+    this.clearTimer(targetOrg);
+
+    const { result } = await runSfCommand<SfQueryResult<SfSandboxProcess>>(
+      ['data', 'query', '--query', SANDBOX_PROCESS_QUERY, '--use-tooling-api', '--target-org', targetOrg],
+      { context: 'SandboxTracker.refresh', cache: false }
+    );
+    const copies = toSandboxCopies(result?.records || []);
+    const previous = this.copies.get(targetOrg) || [];
+    const finished = copies.filter(
+      copy => !isCopyInProgress(copy) && previous.some(before => before.id === copy.id && isCopyInProgress(before))
+    );
+
+    this.copies.set(targetOrg, copies);
+    this.notifySubscribers({ targetOrg, copies, finished });
+
+    if (copies.some(isCopyInProgress)) {
+      this.scheduleRefresh(targetOrg);
+    }
+    return copies;
+  }
+
+  /**
+   * Start tracking a production org, e.g. after requesting a sandbox copy.
+   * Failures are logged; the status screen reports them when opened.
+   */
+  public watch(targetOrg: string): void {
+    this.refresh(targetOrg).catch(error => {
+      logger.error(`Failed to check sandboxes of ${targetOrg}`, { error });
+    });
+  }
+
+  /**
+   * Stop checking a production org
+   */
+  public stop(targetOrg: string): void {
+    this.clearTimer(targetOrg);
+  }
+
+  private scheduleRefresh(targetOrg: string): void {
+    const interval = config.get<Config['orgManager']>('orgManager')?.sandboxPollInterval || 60 * 1000;
+    const timer = setTimeout(() => {
+      this.timers.delete(targetOrg);
+      this.watch(targetOrg);
+    }, interval);
+    // Polling must not keep the process alive on exit
+    timer.unref?.();
+    this.timers.set(targetOrg, timer);
+  }
+
+  private clearTimer(targetOrg: string): void {
+    const timer = this.timers.get(targetOrg);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(targetOrg);
+    }
+  }
+}
+
+export const sandboxTracker = SandboxTracker.getInstance();
@@ -0,0 +1,684 @@
+import { executeSfCommand, CommandOptions, CommandResult } from './commandExecutor';
+import { errorReporter, ErrorCategory, ErrorSeverity } from './errorReporter';
+import { logger } from './logger';
+import { commandHistory, HistoryStatus } from './commandHistory';
+import { findCommand } from '../config/commandRegistry';
+import { cacheService } from './cache';
+import type {
+  SfJsonResponse,
+  SfResponse,
+  SfOrg,
+  SfOrgListResult,
+  SfOrgDisplayResult,
+  OrgType,
+  SfAlias,
+  SfConfigValue,
+  SfPlugin,
+  SfLimit,
+  SfOrgOpenResult,
+  SfQueryResult,
+  SfUser,
+  SfUserCreateResult,
+  SfGeneratedPassword,
+  SfPermissionAssignmentResult,
+} from '../types/sf';
+
+export interface SfCommandOptions extends CommandOptions {
+  /**
+   * Where the command was issued from (e.g. 'OrgManager.loadOrgs').
+   * Used for logging and error reports.
+   */
+  context?: string;
+
+  /**
+   * Whether failures should be sent to the error reporter
+   * Default: true
+   */
+  reportErrors?: boolean;
+
+  /**
+   * Form values the command was built from. Kept in the command history
+   * so the originating form can be reopened with them.
+   */
+  historyParams?: Record<string, string>;
+}
+
+/**
+ * Error raised when an sf command fails, carrying the details of the
+ * `--json` error envelope when one was available.
+ */
+export class SfCommandError extends Error {
+  /**
+   * Error name reported by the CLI (e.g. `NoOrgFound`)
+   */
+  public readonly sfName: string;
+  public readonly exitCode: number;
+  public readonly args: string[];
+  public readonly warnings: string[];
+  public readonly actions: string[];
+  public readonly output: string;
+  /**
+   * Number of times the command was run before giving up
+   */
+  public readonly attempts: number;
+
+  constructor(
+    message: string,
+    details: {
+      sfName?: string;
+      exitCode?: number;
+      args: string[];
+      warnings?: string[];
+      actions?: string[];
+      output?: string;
+      attempts?: number;
+    }
+  ) {
+    super(message);
+    this.name = 'SfCommandError';
+    this.sfName = details.sfName || 'SfCommandError';
+    this.exitCode = details.exitCode ?? 1;
+    this.args = details.args;
+    this.warnings = details.warnings || [];
+    this.actions = details.actions || [];
+    this.output = details.output || '';
+    this.attempts = details.attempts ?? 1;
+  }
+}
+
+/**
+ * Quote an argument for a POSIX shell when it contains anything but safe characters
+ */
+function quoteShellArg(arg: string): string {
+  if (arg !== '' && /^[\w@%+=:,./-]+$/.test(arg)) {
+    return arg;
+  }
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Format an argument list as the equivalent shell command, quoting
+ * arguments so the result can be pasted into a terminal
+ */
+export function formatSfCommand(args: string[]): string {
+  return ['sf', ...args.map(quoteShellArg)].join(' ');
+}
+
+/**
+ * Parse the `--json` envelope from command output.
+ * `sf plugins --json` returns a bare array, which is wrapped as a successful result.
+ */
+function parseEnvelope<T>(output: string): SfJsonResponse<T> | null {
+  const trimmed = (output || '').trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(trimmed);
+    if (Array.isArray(parsed)) {
+      return { status: 0, result: parsed as T };
+    }
+    return parsed as SfJsonResponse<T>;
+  } catch {
+    return null;
+  }
+}
+
+function reportFailure(error: SfCommandError, options: SfCommandOptions): void {
+  // Cancellations are requested by the user and are not failures
+  if (options.reportErrors === false || error.sfName === 'CommandCancelled') {
+    return;
+  }
+
+  const isAuthError = /auth|token|NoOrgFound|NamedOrgNotFound/i.test(error.sfName);
+  errorReporter.reportError(`Salesforce CLI command failed: ${formatSfCommand(error.args)}`, {
+    error,
+    severity: ErrorSeverity.MEDIUM,
+    category: isAuthError ? ErrorCategory.AUTH : ErrorCategory.COMMAND,
+    context: options.context || 'sfCli',
+    details: {
+      args: error.args,
+      sfName: error.sfName,
+      exitCode: error.exitCode,
+      actions: error.actions,
+      attempts: error.attempts,
+    },
+    userAction: error.actions[0] || 'Please check the command and try again.',
+  });
+}
+
+/**
+ * Add a finished command to the persistent command history
+ */
+function recordHistory(
+  args: string[],
+  options: SfCommandOptions,
+  startedAt: Date,
+  outcome: { status: HistoryStatus; exitCode: number; output: string }
+): void {
+  commandHistory.record({
+    args,
+    panel: (options.context || 'sfCli').split('.')[0] as string,
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+    ...outcome,
+    ...(options.historyParams ? { params: options.historyParams } : {}),
+  });
+}
+
+// Record a failed command in the history
+function recordFailure(error: SfCommandError, options: SfCommandOptions, startedAt: Date): void {
+  recordHistory(error.args, options, startedAt, {
+    status: error.sfName === 'CommandCancelled' ? 'cancelled' : 'failed',
+    exitCode: error.exitCode,
+    output: error.output || error.message,
+  });
+}
+
+/**
+ * Convert anything thrown while spawning the process (e.g. sf not installed)
+ * into an SfCommandError
+ */
+function toSfCommandError(err: unknown, args: string[]): SfCommandError {
+  if (err instanceof SfCommandError) {
+    return err;
+  }
+
+  const cause = err as {
+    message?: string;
+    code?: string;
+    exitCode?: number;
+    timedOut?: boolean;
+    isCanceled?: boolean;
+    attempts?: number;
+  };
+  const sfName = cause.isCanceled
+    ? 'CommandCancelled'
+    : cause.timedOut
+      ? 'CommandTimeout'
+      : cause.code === 'ENOENT'
+        ? 'SfNotInstalled'
+        : undefined;
+  const message =
+    sfName === 'SfNotInstalled'
+      ? 'Salesforce CLI (sf) was not found on your PATH'
+      : cause.message || String(err);
+
+  return new SfCommandError(message, {
+    args,
+    ...(sfName ? { sfName } : {}),
+    exitCode: cause.exitCode ?? 1,
+    ...(cause.attempts ? { attempts: cause.attempts } : {}),
+  });
+}
+
+/**
+ * Run an sf command with `--json` and return its parsed result.
+ * Throws an SfCommandError when the command fails or returns a non-zero status.
+ *
+ * @param args Command arguments (`--json` is appended when missing)
+ * @param options Command options
+ */
+export async function runSfCommand<T = unknown>(
+  args: string[],
+  options: SfCommandOptions = {}
+): Promise<SfResponse<T>> {
+  const {
+    context: _context,
+    reportErrors: _reportErrors,
+    historyParams: _historyParams,
+    ...commandOptions
+  } = options;
+  const startedAt = new Date();
+  const jsonArgs = args.includes('--json') ? args : [...args, '--json'];
+
+  // Commands without --json can only be streamed
+  if (findCommand(args)?.supportsJson === false) {
+    throw new SfCommandError(`sf ${args.join(' ')} does not support --json output`, {
+      sfName: 'JsonNotSupported',
+      args,
+    });
+  }
+
+  try {
+    const result = await executeSfCommand(jsonArgs, { ...commandOptions, throwOnError: false });
+    const envelope = parseEnvelope<T>(result.stdout) || parseEnvelope<T>(result.stderr);
+
+    if (!envelope) {
+      throw new SfCommandError('Unable to parse JSON output from Salesforce CLI', {
+        sfName: 'InvalidJsonOutput',
+        exitCode: result.exitCode,
+        args: jsonArgs,
+        output: result.stderr || result.stdout,
+        ...(result.attempts ? { attempts: result.attempts } : {}),
+      });
+    }
+
+    if (envelope.status !== 0) {
+      throw new SfCommandError(envelope.message || `sf exited with status ${envelope.status}`, {
+        ...(envelope.name ? { sfName: envelope.name } : {}),
+        exitCode: envelope.exitCode ?? envelope.status,
+        args: jsonArgs,
+        warnings: envelope.warnings || [],
+        actions: envelope.actions || [],
+        output: result.stdout || result.stderr,
+        ...(result.attempts ? { attempts: result.attempts } : {}),
+      });
+    }
+
+    for (const warning of envelope.warnings || []) {
+      logger.warn(`[sf] ${warning}`, { args: jsonArgs });
+    }
+    
+    if (!result.fromCache) {
+      recordHistory(jsonArgs, options, startedAt, {
+        status: 'succeeded',
+        exitCode: result.exitCode ?? 0,
+        output: result.stdout,
+      });
+    }
+
+    return {
+      status: envelope.status,
+      result: envelope.result as T,
+      warnings: envelope.warnings || [],
+      fromCache: result.fromCache,
+    };
+  } catch (err) {
+    const error = toSfCommandError(err, jsonArgs);
+    recordFailure(error, options, startedAt);
+    reportFailure(error, options);
+    throw error;
+  }
+}
+
+/**
+ * Run an sf command in human-readable mode, streaming its output.
+ * Used for long-running operations (deploys, logins, test runs) whose progress
+ * is shown to the user as it happens. Results are never cached; the timeout is
+ * the command's configured timeout unless one is given.
+ *
+ * @param args Command arguments
+ * @param options Command options; `onOutput` receives each chunk of output
+ */
+export async function streamSfCommand(
+  args: string[],
+  options: SfCommandOptions = {}
+): Promise<CommandResult> {
+  const {
+    context: _context,
+    reportErrors: _reportErrors,
+    historyParams: _historyParams,
+    ...commandOptions
+  } = options;
+  const startedAt = new Date();
+
+  try {
+    const result = await executeSfCommand(args, {
+      ...commandOptions,
+      cache: false,
+      throwOnError: false,
+    });
+
+    if ((result.exitCode ?? 0) !== 0) {
+      const lastLine = (result.stderr || '').trim().split('\n').pop();
+      throw new SfCommandError(lastLine || `sf exited with code ${result.exitCode}`, {
+        exitCode: result.exitCode,
+        args,
+        output: `${result.stdout || ''}${result.stderr || ''}`,
+        ...(result.attempts ? { attempts: result.attempts } : {}),
+      });
+    }
+
+    recordHistory(args, options, startedAt, {
+      status: 'succeeded',
+      exitCode: result.exitCode ?? 0,
+      output: `${result.stdout || ''}${result.stderr || ''}`,
+    });
+    return result;
+  } catch (err) {
+    const error = toSfCommandError(err, args);
+    recordFailure(error, options, startedAt);
+    reportFailure(error, options);
+    throw error;
+  }
+}
+
+/**
+ * Flatten the org groups returned by `sf org list`, removing duplicates
+ * (dev hubs also appear under nonScratchOrgs)
+ */
+export function flattenOrgList(result: SfOrgListResult): SfOrg[] {
+  const seen = new Set<string>();
+  const scratchOrgs = (result.scratchOrgs || []).map(org => ({ ...org, isScratch: true }));
+  const groups = [
+    result.nonScratchOrgs,
+    result.other,
+    result.sandboxes,
+    result.devHubs,
+    scratchOrgs,
+  ];
+
+  return groups.flatMap(group => group || []).filter(org => {
+    if (seen.has(org.username)) {
+      return false;
+    }
+    seen.add(org.username);
+    return true;
+  });
+}
+
+/**
+ * Get the kind of an org. Sandboxes are also recognised by their
+ * `.sandbox.` My Domain URL, since older CLI versions omit `isSandbox`.
+ */
+export function getOrgType(org: Pick<SfOrg, 'isScratch' | 'isSandbox' | 'isDevHub'> & { instanceUrl?: string }): OrgType {
+  if (org.isScratch) {
+    return 'scratch';
+  }
+  if (org.isSandbox || /\.sandbox\.my\.salesforce\.com/i.test(org.instanceUrl || '')) {
+    return 'sandbox';
+  }
+  return org.isDevHub ? 'devhub' : 'production';
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the days left before a scratch org expires: 0 on its last day,
+ * negative once it has expired.
+ *
+ * @returns The days left, or undefined for orgs without an expiration date
+ */
+export function getDaysUntilExpiration(org: SfOrg, now: Date = new Date()): number | undefined {
+  const match = (org.expirationDate || '').match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) {
+    return undefined;
+  }
+  const expires = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  const today = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((expires - today) / DAY_MS);
+}
+
+/**
+ * Whether a scratch org has expired, by the status the CLI reports or its expiration date
+ */
+export function isOrgExpired(org: SfOrg, now: Date = new Date()): boolean {
+  return /^(expired|deleted)$/i.test(org.status || '') || (getDaysUntilExpiration(org, now) ?? 0) < 0;
+}
+
+export interface ListOrgsOptions extends SfCommandOptions {
+  /**
+   * Include expired and deleted scratch orgs (`--all`)
+   */
+  all?: boolean;
+}
+
+/**
+ * List authenticated orgs (`sf org list`)
+ */
+export async function listOrgs({ all, ...options }: ListOrgsOptions = {}): Promise<SfOrg[]> {
+  const { result } = await runSfCommand<SfOrgListResult>(['org', 'list', ...(all ? ['--all'] : [])], options);
+  return flattenOrgList(result || {});
+}
+
+/**
+ * Remove the local authorizations of expired and deleted scratch orgs (`sf org list --clean`)
+ *
+ * @returns The orgs that are left
+ */
+export async function cleanOrgList(options: SfCommandOptions = {}): Promise<SfOrg[]> {
+  // Registered as the cached `org list`, so the cache is bypassed and cleared here
+  const { result } = await runSfCommand<SfOrgListResult>(['org', 'list', '--clean', '--no-prompt'], {
+    ...options,
+    cache: false,
+  });
+  cacheService.invalidateTags(['orgs', 'aliases']);
+  return flattenOrgList(result || {});
+}
+
+export interface DisplayOrgOptions extends SfCommandOptions {
+  /**
+   * Include the auth URL (`--verbose`)
+   */
+  verbose?: boolean;
+}
+
+/**
+ * Get the details of an org (`sf org display`).
+ * The result holds the access token, so it is never cached.
+ */
+export async function displayOrg(
+  targetOrg: string,
+  { verbose, ...options }: DisplayOrgOptions = {}
+): Promise<SfOrgDisplayResult> {
+  const args = ['org', 'display', '--target-org', targetOrg];
+  if (verbose) {
+    args.push('--verbose');
+  }
+  const { result } = await runSfCommand<SfOrgDisplayResult>(args, { ...options, cache: false });
+  if (!result) {
+    throw new SfCommandError(`No details returned for ${targetOrg}`, { args });
+  }
+  return result;
+}
+
+/**
+ * List aliases (`sf alias list`).
+ * Older CLI versions return an object map, newer ones an array of entries.
+ */
+export async function listAliases(options: SfCommandOptions = {}): Promise<SfAlias[]> {
+  const { result } = await runSfCommand<SfAlias[] | Record<string, string>>(
+    ['alias', 'list'],
+    options
+  );
+
+  if (Array.isArray(result)) {
+    return result.map(entry => ({ alias: entry.alias, value: String(entry.value) }));
+  }
+
+  return Object.entries(result || {}).map(([alias, value]) => ({
+    alias,
+    value: String(value),
+  }));
+}
+
+/**
+ * Read a single config value (`sf config get <name>`)
+ */
+export async function getConfigValue(
+  name: string,
+  options: SfCommandOptions = {}
+): Promise<string | undefined> {
+  const { result } = await runSfCommand<SfConfigValue[]>(['config', 'get', name], options);
+  return result?.[0]?.value;
+}
+
+/**
+ * List installed plugins (`sf plugins`)
+ */
+export async function listPlugins(options: SfCommandOptions = {}): Promise<SfPlugin[]> {
+  const { result } = await runSfCommand<SfPlugin[]>(['plugins'], options);
+  return Array.isArray(result) ? result : [];
+}
+
+export interface OpenOrgOptions extends SfCommandOptions {
+  /**
+   * Page to open, relative to the instance (`--path`), e.g. `/lightning/setup/SetupOneHome/home`
+   */
+  path?: string | undefined;
+  /**
+   * Local flow, Lightning page or LWC source file to open in its builder (`--source-file`)
+   */
+  sourceFile?: string | undefined;
+  /**
+   * Only return the frontdoor URL instead of opening a browser (`--url-only`)
+   */
+  urlOnly?: boolean;
+}
+
+/**
+ * Build the arguments of `sf org open`
+ */
+export function buildOpenOrgArgs(
+  targetOrg: string,
+  { path, sourceFile, urlOnly }: Pick<OpenOrgOptions, 'path' | 'sourceFile' | 'urlOnly'> = {}
+): string[] {
+  const args = ['org', 'open', '--target-org', targetOrg];
+  if (sourceFile) {
+    args.push('--source-file', sourceFile);
+  } else if (path) {
+    args.push('--path', path);
+  }
+  if (urlOnly) {
+    args.push('--url-only');
+  }
+  return args;
+}
+
+/**
+ * Open an org in the browser (`sf org open`), or only get its URL.
+ * The URL logs in with a session id, so it is never cached.
+ */
+export async function openOrg(
+  targetOrg: string,
+  { path, sourceFile, urlOnly, ...options }: OpenOrgOptions = {}
+): Promise<SfOrgOpenResult> {
+  const args = buildOpenOrgArgs(targetOrg, { path, sourceFile, ...(urlOnly ? { urlOnly } : {}) });
+  const { result } = await runSfCommand<SfOrgOpenResult>(args, { ...options, cache: false });
+  if (!result?.url) {
+    throw new SfCommandError(`No URL returned for ${targetOrg}`, { args });
+  }
+  return result;
+}
+
+/**
+ * List the API and storage limits of an org (`sf limits api display`)
+ */
+export async function listLimits(targetOrg: string, options: SfCommandOptions = {}): Promise<SfLimit[]> {
+  const { result } = await runSfCommand<SfLimit[]>(['limits', 'api', 'display', '--target-org', targetOrg], options);
+  return Array.isArray(result) ? result : [];
+}
+
+const USER_QUERY =
+  'SELECT Id, Username, Name, Email, IsActive, LastLoginDate, Profile.Name FROM User ' +
+  "WHERE UserType = 'Standard' ORDER BY Name";
+
+/**
+ * List the standard (licensed) users of an org
+ */
+export async function listUsers(targetOrg: string, options: SfCommandOptions = {}): Promise<SfUser[]> {
+  const { result } = await runSfCommand<SfQueryResult<SfUser>>(
+    ['data', 'query', '--query', USER_QUERY, '--target-org', targetOrg],
+    options
+  );
+  return result?.records || [];
+}
+
+export interface CreateUserOptions extends SfCommandOptions {
+  /**
+   * User definition file (`--definition-file`)
+   */
+  definitionFile: string;
+  /**
+   * Make the username unique by appending the org id, so one definition
+   * file can be used in several orgs (`--set-unique-username`)
+   */
+  setUniqueUsername?: boolean;
+}
+
+/**
+ * Build the arguments of `sf org create user`
+ */
+export function buildCreateUserArgs(
+  targetOrg: string,
+  { definitionFile, setUniqueUsername }: Pick<CreateUserOptions, 'definitionFile' | 'setUniqueUsername'>
+): string[] {
+  const args = ['org', 'create', 'user', '--definition-file', definitionFile, '--target-org', targetOrg];
+  if (setUniqueUsername) {
+    args.push('--set-unique-username');
+  }
+  return args;
+}
+
+/**
+ * Create a user from a definition file (`sf org create user`)
+ */
+export async function createUser(
+  targetOrg: string,
+  { definitionFile, setUniqueUsername, ...options }: CreateUserOptions
+): Promise<SfUserCreateResult> {
+  const args = buildCreateUserArgs(targetOrg, { definitionFile, ...(setUniqueUsername ? { setUniqueUsername } : {}) });
+  const { result } = await runSfCommand<SfUserCreateResult>(args, options);
+  if (!result?.fields) {
+    throw new SfCommandError(`No user returned by ${definitionFile}`, { args });
+  }
+  return result;
+}
+
+/**
+ * Build the arguments of `sf org generate password`
+ */
+export function buildGeneratePasswordArgs(targetOrg: string, usernames: string[]): string[] {
+  return ['org', 'generate', 'password', '--target-org', targetOrg, ...usernames.flatMap(username => ['--on-behalf-of', username])];
+}
+
+/**
+ * Generate a password for users (`sf org generate password`).
+ * Older CLI versions return an object for a single user, newer ones an array.
+ */
+export async function generatePassword(
+  targetOrg: string,
+  usernames: string[],
+  options: SfCommandOptions = {}
+): Promise<SfGeneratedPassword[]> {
+  const args = buildGeneratePasswordArgs(targetOrg, usernames);
+  const { result } = await runSfCommand<SfGeneratedPassword | SfGeneratedPassword[]>(args, options);
+  if (!result) {
+    return [];
+  }
+  return Array.isArray(result) ? result : [result];
+}
+
+export type PermissionKind = 'permset' | 'permsetlicense';
+
+/**
+ * Build the arguments of `sf org assign permset` or `sf org assign permsetlicense`
+ */
+export function buildAssignPermissionsArgs(
+  targetOrg: string,
+  kind: PermissionKind,
+  names: string[],
+  username: string
+): string[] {
+  return [
+    'org', 'assign', kind, '--target-org', targetOrg, '--on-behalf-of', username,
+    ...names.flatMap(name => ['--name', name]),
+  ];
+}
+
+/**
+ * Assign permission sets (`sf org assign permset`) or permission set
+ * licenses (`sf org assign permsetlicense`) to a user
+ */
+export async function assignPermissions(
+  targetOrg: string,
+  kind: PermissionKind,
+  names: string[],
+  username: string,
+  options: SfCommandOptions = {}
+): Promise<SfPermissionAssignmentResult> {
+  const args = buildAssignPermissionsArgs(targetOrg, kind, names, username);
+  let result: SfPermissionAssignmentResult | undefined;
+  try {
+    ({ result } = await runSfCommand<SfPermissionAssignmentResult>(args, options));
+  } catch (error) {
+    // Failed assignments give a non-zero status but still list what was assigned
+    result = error instanceof SfCommandError ? parseEnvelope<SfPermissionAssignmentResult>(error.output)?.result : undefined;
+    if (!result?.failures) {
+      throw error;
+    }
+  }
+  return { successes: result?.successes || [], failures: result?.failures || [] };
+}
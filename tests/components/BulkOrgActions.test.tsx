@@ -0,0 +1,77 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render } from 'ink-testing-library';
+import { BulkOrgActions, buildBulkOrgArgs, getBulkTargets } from '../../src/components/org/BulkOrgActions';
+import type { SfOrg } from '../../src/types/sf';
+import { tick, respond, respondError, fakeSf } from '../testUtils';
+
+const org = (overrides: Partial<SfOrg>): SfOrg => ({
+  username: 'user@example.com',
+  orgId: '00D000000000001',
+  instanceUrl: 'https://example.my.salesforce.com',
+  isDefaultDevHub: false,
+  isDefaultUsername: false,
+  connectedStatus: 'Connected',
+  status: 'Active',
+  ...overrides,
+});
+
+const orgs = [
+  org({ alias: 'feature-a', username: 'a@example.com', isScratch: true }),
+  org({ alias: 'feature-b', username: 'b@example.com', isScratch: true }),
+  org({ alias: 'prod', username: 'admin@acme.com' }),
+];
+
+describe('BulkOrgActions', () => {
+  it('only deletes scratch orgs', () => {
+    expect(getBulkTargets('delete', orgs).map(o => o.alias)).toEqual(['feature-a', 'feature-b']);
+    expect(getBulkTargets('logout', orgs)).toHaveLength(3);
+    expect(buildBulkOrgArgs('delete', orgs[0]!)).toEqual([
+      'org', 'delete', 'scratch', '--target-org', 'a@example.com', '--no-prompt',
+    ]);
+    expect(buildBulkOrgArgs('alias', orgs[2]!, 'acme')).toEqual(['alias', 'set', 'acme=admin@acme.com']);
+  });
+
+  it('runs the action on each org in turn and reports failures', async () => {
+    const targets: string[] = [];
+    await fakeSf(async (command, args) => {
+      const target = args[args.indexOf('--target-org') + 1]!;
+      if (args[1] === 'display') {
+        // Only the last org is production
+        return respond({ id: target, username: target, isSandbox: false, isScratch: target !== 'admin@acme.com' });
+      }
+      targets.push(target);
+      return target === 'b@example.com' ? respondError('NoOrgFound', 'No org found') : respond({});
+    });
+    const onDone = vi.fn();
+
+    const { lastFrame, stdin } = render(<BulkOrgActions orgs={orgs} onDone={onDone} />);
+    await tick();
+    stdin.write('\u001B[B'); // Log Out
+    await tick();
+    stdin.write('\r');
+    await tick();
+    expect(lastFrame()).toContain('Log Out: 3 orgs');
+
+    stdin.write('\u001B[B'); // Confirm
+    await tick();
+    stdin.write('\r');
+    await tick();
+    await tick();
+
+    // The production org waits for its name to be typed
+    expect(lastFrame()).toContain('PRODUCTION: admin@acme.com');
+    stdin.write('admin@acme.com');
+    await tick();
+    stdin.write('\r');
+    await tick();
+    await tick();
+
+    expect(targets).toEqual(['a@example.com', 'b@example.com', 'admin@acme.com']);
+    expect(lastFrame()).toContain('2 succeeded, 1 failed');
+
+    stdin.write('\r');
+    await tick();
+    expect(onDone).toHaveBeenCalledWith(true);
+  });
+});
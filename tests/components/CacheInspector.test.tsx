@@ -0,0 +1,38 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render } from 'ink-testing-library';
+import { CacheInspector } from '../../src/components/settings/CacheInspector';
+
+vi.mock('../../src/utils/cache', () => ({
+  CacheService: vi.fn(),
+  cacheService: {
+    getEntries: vi.fn().mockReturnValue([
+      {
+        key: 'abc123',
+        label: 'sf org display --target-org uat --json',
+        timestamp: Date.now() - 60000,
+        expiresAt: Date.now() + 240000,
+        size: 2048,
+        tags: ['orgs', 'org:uat'],
+      },
+    ]),
+    getStats: vi.fn().mockReturnValue({ hits: 3, misses: 1, size: 0, entries: 0 }),
+    getOptions: vi.fn().mockReturnValue({
+      enabled: true,
+      ttl: 300000,
+      maxSize: 10485760,
+      cacheDir: '/tmp/cache',
+      maxStaleAge: 300000,
+    }),
+  },
+}));
+
+describe('CacheInspector', () => {
+  it('shows hit rate and disk usage', () => {
+    const { lastFrame } = render(<CacheInspector onBack={() => {}} />);
+
+    expect(lastFrame()).toContain('Hit rate: 75%');
+    expect(lastFrame()).toContain('Disk usage: 2 KB of 10 MB');
+    expect(lastFrame()).toContain('Browse entries (1)');
+  });
+});
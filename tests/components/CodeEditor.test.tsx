@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { describe, it, expect } from 'vitest';
+import { render } from 'ink-testing-library';
+import { CodeEditor } from '../../src/components/common/CodeEditor';
+import { tick } from '../testUtils';
+
+// Keeps the edited value in state like a real form does
+const Editor = ({ initial, onValue }: { initial: string; onValue: (value: string) => void }) => {
+  const [value, setValue] = useState(initial);
+  return (
+    <CodeEditor
+      value={value}
+      onChange={next => {
+        setValue(next);
+        onValue(next);
+      }}
+      height={3}
+    />
+  );
+};
+
+describe('CodeEditor', () => {
+  it('shows line numbers and marks the error line', () => {
+    const { lastFrame } = render(
+      <CodeEditor value={'Integer a = 1;\nInteger b = ;'} onChange={() => {}} focus={false} errorLine={2} />
+    );
+
+    expect(lastFrame()).toContain('1 Integer a = 1;');
+    expect(lastFrame()).toContain('2!Integer b = ;');
+  });
+
+  it('inserts new lines on Enter and joins lines on backspace', async () => {
+    let value = '';
+    const { stdin } = render(<Editor initial="if (true) {" onValue={next => (value = next)} />);
+
+    await tick();
+    stdin.write('\r');
+    await tick();
+    stdin.write('x');
+    await tick();
+    expect(value).toBe('if (true) {\nx');
+
+    stdin.write('\x7f');
+    await tick();
+    stdin.write('\x7f');
+    await tick();
+    expect(value).toBe('if (true) {');
+  });
+});
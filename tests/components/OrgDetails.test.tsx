@@ -0,0 +1,56 @@
+import React from 'react';
+import { describe, it, expect } from 'vitest';
+import { render } from 'ink-testing-library';
+import { OrgDetails, getOrgDetailRows } from '../../src/components/org/OrgDetails';
+import type { SfOrgDisplayResult } from '../../src/types/sf';
+import { tick, respond, fakeSf } from '../testUtils';
+
+const details: SfOrgDisplayResult = {
+  id: '00D000000000001',
+  apiVersion: '60.0',
+  accessToken: '00D000000000001!SECRETTOKEN',
+  instanceUrl: 'https://acme.my.salesforce.com',
+  username: 'admin@acme.com',
+  connectedStatus: 'Connected',
+  alias: 'prod',
+  edition: 'Enterprise Edition',
+};
+
+// History of the commands run stays in memory (see tests/setup.ts)
+describe('OrgDetails', () => {
+  it('lists only the fields the org reported', () => {
+    expect(getOrgDetailRows(details).map(row => row.label)).toEqual([
+      'Username',
+      'Org ID',
+      'Instance URL',
+      'API Version',
+      'Edition',
+      'Connected Status',
+      'Access Token',
+    ]);
+  });
+
+  it('masks the access token until it is revealed', async () => {
+    const calls: string[][] = [];
+    await fakeSf(async (command, args) => {
+      calls.push(args);
+      return respond(details);
+    });
+
+    const { lastFrame, stdin } = render(<OrgDetails targetOrg="prod" onBack={() => {}} />);
+    await tick();
+
+    expect(calls[0]).toEqual(expect.arrayContaining(['org', 'display', '--target-org', 'prod', '--verbose']));
+    expect(lastFrame()).toContain('Enterprise Edition');
+    expect(lastFrame()).not.toContain('SECRETTOKEN');
+
+    for (let i = 0; i < 6; i++) {
+      stdin.write('\u001B[B'); // Down to the access token
+      await tick();
+    }
+    stdin.write('v');
+    await tick();
+
+    expect(lastFrame()).toContain('00D000000000001!SECRETTOKEN');
+  });
+});
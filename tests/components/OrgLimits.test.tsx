@@ -0,0 +1,56 @@
+import React from 'react';
+import { describe, it, expect } from 'vitest';
+import { render } from 'ink-testing-library';
+import { OrgLimits, getLimitUsage, getLimitLevel, sortLimits } from '../../src/components/org/OrgLimits';
+import { KeyboardProvider } from '../../src/context/KeyboardShortcuts';
+import type { SfLimit } from '../../src/types/sf';
+import { tick, respond, fakeSf } from '../testUtils';
+
+const thresholds = { warning: 75, error: 90 };
+
+const limits: SfLimit[] = [
+  { name: 'SingleEmail', max: 5000, remaining: 4000 },
+  { name: 'DailyApiRequests', max: 100000, remaining: 5000 },
+  { name: 'DataStorageMB', max: 1024, remaining: 200 },
+  { name: 'PermissionSets', max: 0, remaining: 0 },
+];
+
+describe('OrgLimits', () => {
+  it('measures usage against the thresholds', () => {
+    expect(getLimitUsage(limits[1]!)).toBe(95);
+    expect(getLimitUsage(limits[3]!)).toBe(0);
+    expect(limits.map(limit => getLimitLevel(limit, thresholds))).toEqual(['ok', 'error', 'warning', 'ok']);
+    expect(sortLimits(limits).map(limit => limit.name)).toEqual([
+      'DailyApiRequests',
+      'DataStorageMB',
+      'SingleEmail',
+      'PermissionSets',
+    ]);
+  });
+
+  it('shows each limit and checks again on the refresh shortcut', async () => {
+    const calls: string[][] = [];
+    await fakeSf(async (command, args) => {
+      calls.push(args);
+      return respond(limits);
+    });
+
+    const { lastFrame, stdin } = render(
+      <KeyboardProvider actionHandlers={{}}>
+        <OrgLimits targetOrg="prod" onBack={() => {}} />
+      </KeyboardProvider>
+    );
+    await tick();
+
+    expect(calls[0]).toEqual(expect.arrayContaining(['limits', 'api', 'display', '--target-org', 'prod']));
+    expect(lastFrame()).toContain('DailyApiRequests');
+    expect(lastFrame()).toContain('95,000/100,000 (95%)');
+    expect(lastFrame()).toContain('1 above 90%, 1 above 75%');
+
+    await tick();
+    stdin.write('\x12'); // Ctrl+R
+    await tick();
+
+    expect(calls).toHaveLength(2);
+  });
+});
@@ -0,0 +1,54 @@
+import React from 'react';
+import { describe, it, expect } from 'vitest';
+import { render } from 'ink-testing-library';
+import { OrgOpen, isRecordId, getRecordPath } from '../../src/components/org/OrgOpen';
+import { buildOpenOrgArgs } from '../../src/utils/sfCli';
+import { tick, respond, fakeSf } from '../testUtils';
+
+describe('OrgOpen', () => {
+  it('opens records, paths and source files', () => {
+    expect(isRecordId('001000000000001')).toBe(true);
+    expect(isRecordId('001000000000001AAA')).toBe(true);
+    expect(isRecordId('001-not-an-id')).toBe(false);
+    expect(getRecordPath('001000000000001AAA')).toBe('/lightning/r/001000000000001AAA/view');
+
+    expect(buildOpenOrgArgs('dev', { path: '/lightning/setup/SetupOneHome/home', urlOnly: true })).toEqual([
+      'org', 'open', '--target-org', 'dev', '--path', '/lightning/setup/SetupOneHome/home', '--url-only',
+    ]);
+    expect(buildOpenOrgArgs('dev', { sourceFile: 'flows/Onboarding.flow-meta.xml' })).toEqual([
+      'org', 'open', '--target-org', 'dev', '--source-file', 'flows/Onboarding.flow-meta.xml',
+    ]);
+  });
+
+  it('shows the URL of a record in URL only mode', async () => {
+    const calls: string[][] = [];
+    await fakeSf(async (command, args) => {
+      calls.push(args);
+      return respond({ orgId: '00D000000000001', url: 'https://dev.my.salesforce.com/secur/frontdoor.jsp?sid=abc', username: 'dev@acme.com' });
+    });
+
+    const { lastFrame, stdin } = render(<OrgOpen targetOrg="dev" onBack={() => {}} />);
+    await tick();
+    stdin.write('u');
+    await tick();
+    expect(lastFrame()).toContain('[URL only]');
+
+    // Home, 7 saved pages, Setup Path, then Record ID
+    for (let i = 0; i < 9; i++) {
+      stdin.write('\u001B[B');
+      await tick();
+    }
+    stdin.write('\r');
+    await tick();
+    stdin.write('001000000000001AAA');
+    await tick();
+    stdin.write('\r');
+    await tick();
+    await tick();
+
+    expect(calls[0]).toEqual([
+      'org', 'open', '--target-org', 'dev', '--path', '/lightning/r/001000000000001AAA/view', '--url-only', '--json',
+    ]);
+    expect(lastFrame()).toContain('frontdoor.jsp?sid=abc');
+  });
+});
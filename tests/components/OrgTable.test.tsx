@@ -0,0 +1,128 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render } from 'ink-testing-library';
+import { OrgTable, filterOrgs, sortOrgs, groupOrgs } from '../../src/components/org/OrgTable';
+import { config } from '../../src/config';
+import { orgMetadata } from '../../src/utils/orgMetadata';
+import type { SfOrg } from '../../src/types/sf';
+import { tick } from '../testUtils';
+
+const org = (overrides: Partial<SfOrg>): SfOrg => ({
+  username: 'user@example.com',
+  orgId: '00D000000000001',
+  instanceUrl: 'https://example.my.salesforce.com',
+  isDefaultDevHub: false,
+  isDefaultUsername: false,
+  connectedStatus: 'Connected',
+  status: 'Active',
+  ...overrides,
+});
+
+const orgs = [
+  org({ alias: 'prod', username: 'admin@acme.com', isDevHub: true, isDefaultDevHub: true }),
+  org({
+    alias: 'uat',
+    username: 'admin@acme.com.uat',
+    instanceUrl: 'https://acme--uat.sandbox.my.salesforce.com',
+  }),
+  org({ alias: 'feature', username: 'test-abc@example.com', isScratch: true, expirationDate: '2026-11-02' }),
+  org({ username: 'dev@example.com', isDefaultUsername: true }),
+];
+
+describe('OrgTable', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    orgMetadata.setFile(null);
+  });
+
+  it('filters on any shown value', () => {
+    expect(filterOrgs(orgs, 'sandbox').map(o => o.alias)).toEqual(['uat']);
+    expect(filterOrgs(orgs, 'ACME').map(o => o.alias)).toEqual(['prod', 'uat']);
+    expect(filterOrgs(orgs, '2026-11')).toHaveLength(1);
+  });
+
+  it('sorts by a column and keeps empty values last', () => {
+    expect(sortOrgs(orgs, 'alias', 'asc').map(o => o.username)).toEqual([
+      'test-abc@example.com',
+      'admin@acme.com',
+      'admin@acme.com.uat',
+      'dev@example.com',
+    ]);
+    expect(sortOrgs(orgs, 'alias', 'desc').map(o => o.alias)).toEqual(['uat', 'prod', 'feature', undefined]);
+    expect(sortOrgs(orgs, 'type', 'asc').map(o => o.username)).toEqual([
+      'admin@acme.com', // Dev Hub
+      'dev@example.com', // Production
+      'admin@acme.com.uat', // Sandbox
+      'test-abc@example.com', // Scratch
+    ]);
+  });
+
+  it('groups orgs by their local tags', () => {
+    orgMetadata.update('00D000000000001', { environment: 'prod' });
+    orgMetadata.update('00D000000000002', { environment: 'dev', notes: 'Spring release' });
+    const tagged = orgs.map((o, index) => ({ ...o, orgId: `00D00000000000${index + 1}` }));
+
+    expect(groupOrgs(tagged, 'environment').map(o => o.alias)).toEqual(['uat', 'prod', 'feature', undefined]);
+    expect(filterOrgs(tagged, 'spring').map(o => o.alias)).toEqual(['uat']);
+  });
+
+  it('shows the configured columns and filters as you type', async () => {
+    vi.spyOn(config, 'get').mockReturnValue({ columns: ['alias', 'type'] });
+    const onSelect = vi.fn();
+    const { lastFrame, stdin } = render(<OrgTable orgs={orgs} onSelect={onSelect} onBack={() => {}} />);
+
+    expect(lastFrame()).toContain('Alias ▲');
+    expect(lastFrame()).toContain('Sandbox');
+    expect(lastFrame()).not.toContain('Username');
+
+    await tick();
+    stdin.write('uat');
+    await tick();
+    expect(lastFrame()).toContain('1 of 4 orgs');
+
+    stdin.write('\r');
+    await tick();
+    expect(onSelect).toHaveBeenCalledWith(orgs[1]);
+  });
+
+  it('marks orgs for bulk actions', async () => {
+    vi.spyOn(config, 'get').mockReturnValue({ columns: ['alias', 'type'] });
+    const onSelect = vi.fn();
+    const onSelectMany = vi.fn();
+    const { lastFrame, stdin } = render(
+      <OrgTable orgs={orgs} onSelect={onSelect} onSelectMany={onSelectMany} onBack={() => {}} />
+    );
+
+    await tick();
+    stdin.write('acme');
+    await tick();
+    await tick();
+    stdin.write('\x01'); // Ctrl+A marks both matching orgs
+    await tick();
+    expect(lastFrame()).toContain('2 marked');
+
+    await tick();
+    stdin.write(' '); // Space unmarks the selected one
+    await tick();
+    await tick();
+    stdin.write('\r');
+    await tick();
+
+    expect(onSelect).not.toHaveBeenCalled();
+    expect(onSelectMany).toHaveBeenCalledWith([orgs[1]]);
+  });
+
+  it('saves column visibility to the config', async () => {
+    vi.spyOn(config, 'get').mockReturnValue({ columns: ['alias', 'type'] });
+    const set = vi.spyOn(config, 'set').mockImplementation(() => {});
+    const { stdin } = render(<OrgTable orgs={orgs} onSelect={() => {}} onBack={() => {}} />);
+
+    await tick();
+    stdin.write('\x0f'); // Ctrl+O
+    await tick();
+    stdin.write('\r'); // Toggle the first column (Alias)
+    await tick();
+
+    expect(set).toHaveBeenCalledWith('orgManager', { columns: ['type'] });
+  });
+});
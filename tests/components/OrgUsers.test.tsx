@@ -0,0 +1,65 @@
+import React from 'react';
+import { describe, it, expect } from 'vitest';
+import { render } from 'ink-testing-library';
+import { OrgUsers, parseNames } from '../../src/components/org/OrgUsers';
+import type { SfUser } from '../../src/types/sf';
+import { tick, respond, fakeSf } from '../testUtils';
+
+const users: SfUser[] = [
+  { Id: '005000000000001', Username: 'admin@dev.org', Name: 'Ada Admin', IsActive: true, Profile: { Name: 'System Administrator' } },
+  { Id: '005000000000002', Username: 'qa@dev.org', Name: 'Quinn Tester', IsActive: true, LastLoginDate: null, Profile: { Name: 'Standard User' } },
+];
+
+describe('OrgUsers', () => {
+  it('splits permission names on commas and spaces', () => {
+    expect(parseNames('QA_Access, Reports_Viewer  Extra')).toEqual(['QA_Access', 'Reports_Viewer', 'Extra']);
+    expect(parseNames(' , ')).toEqual([]);
+  });
+
+  it('generates passwords and reports permission sets per user', async () => {
+    const calls: string[][] = [];
+    await fakeSf(async (command, args) => {
+      calls.push(args);
+      const topic = args.slice(0, 3).join(' ');
+      if (topic.startsWith('data query')) return respond({ records: users, totalSize: 2, done: true });
+      if (topic === 'org display --target-org') return respond({ id: '00D1', username: 'admin@dev.org', isScratch: true });
+      if (topic === 'org generate password') return respond({ username: 'qa@dev.org', password: 'Secret-123' });
+      if (topic === 'org assign permset') {
+        return respond(
+          { successes: [{ name: 'QA_Access', value: 'qa@dev.org' }], failures: [{ name: 'Missing', message: 'Permission set not found' }] },
+          1
+        );
+      }
+      return respond({});
+    });
+
+    const { lastFrame, stdin } = render(<OrgUsers targetOrg="dev" onBack={() => {}} />);
+    await tick();
+    expect(lastFrame()).toContain('Quinn Tester');
+
+    stdin.write('\u001B[B'); // Quinn Tester
+    await tick();
+    stdin.write('\r');
+    await tick();
+    expect(lastFrame()).toContain('Username: qa@dev.org');
+
+    stdin.write('\r'); // Generate Password
+    await tick();
+    await tick();
+    expect(calls).toContainEqual(['org', 'generate', 'password', '--target-org', 'dev', '--on-behalf-of', 'qa@dev.org', '--json']);
+    expect(lastFrame()).toContain('✓ Password: Secret-123');
+
+    stdin.write('\u001B[B'); // Assign Permission Sets
+    await tick();
+    stdin.write('\r');
+    await tick();
+    stdin.write('QA_Access, Missing');
+    await tick();
+    stdin.write('\r');
+    await tick();
+    await tick();
+
+    expect(lastFrame()).toContain('✓ Permission Sets: Assigned QA_Access');
+    expect(lastFrame()).toContain('✗ Permission Sets: Missing: Permission set not found');
+  });
+});
@@ -0,0 +1,49 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render } from 'ink-testing-library';
+import { ProductionConfirmDialog } from '../../src/components/org/ProductionConfirmDialog';
+import { tick } from '../testUtils';
+
+const org = { username: 'admin@acme.com', alias: 'prod', isSandbox: false };
+
+describe('ProductionConfirmDialog', () => {
+  it('only confirms once the org alias is typed', async () => {
+    const onConfirm = vi.fn();
+    const { lastFrame, stdin } = render(
+      <ProductionConfirmDialog
+        org={org}
+        args={['project', 'deploy', 'start', '--target-org', 'prod']}
+        onConfirm={onConfirm}
+        onCancel={() => {}}
+      />
+    );
+    await tick();
+
+    expect(lastFrame()).toContain('PRODUCTION: prod');
+    expect(lastFrame()).toContain('sf project deploy start --target-org prod');
+
+    stdin.write('pro');
+    await tick();
+    stdin.write('\r');
+    await tick();
+    expect(onConfirm).not.toHaveBeenCalled();
+
+    stdin.write('d');
+    await tick();
+    stdin.write('\r');
+    await tick();
+    expect(onConfirm).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels on ESC', async () => {
+    const onCancel = vi.fn();
+    const { stdin } = render(
+      <ProductionConfirmDialog org={org} args={['apex', 'run']} onConfirm={() => {}} onCancel={onCancel} />
+    );
+    await tick();
+
+    stdin.write('\u001B');
+    await tick();
+    expect(onCancel).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,26 @@
+import React from 'react';
+import { describe, it, expect } from 'vitest';
+import { render } from 'ink-testing-library';
+import { ProjectGenerator } from '../../src/components/project/ProjectGenerator';
+import { tick } from '../testUtils';
+
+describe('ProjectGenerator', () => {
+  it('updates the command preview while the name and directory are typed', async () => {
+    const { lastFrame, stdin } = render(<ProjectGenerator onBack={() => {}} />);
+    await tick();
+    stdin.write('\u001B[B'); // Empty Project
+    await tick();
+    stdin.write('\r');
+    await tick();
+
+    stdin.write('-x');
+    await tick();
+    expect(lastFrame()).toContain(`$ sf project generate --name my-sfdx-project-x --empty --output-dir ${process.cwd()}`);
+
+    stdin.write('\r');
+    await tick();
+    stdin.write('/apps');
+    await tick();
+    expect(lastFrame()).toContain(`--name my-sfdx-project-x --empty --output-dir ${process.cwd()}/apps`);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { buildSandboxArgs, buildResumeSandboxArgs } from '../../src/components/org/SandboxManager';
+
+const values = {
+  name: 'uat',
+  licenseType: 'Partial' as const,
+  sourceSandbox: '',
+  autoActivate: true,
+  alias: 'acme-uat',
+};
+
+describe('SandboxManager', () => {
+  it('requests sandbox copies without waiting for them', () => {
+    expect(buildSandboxArgs('create', values, 'prod')).toEqual([
+      'org', 'create', 'sandbox', '--name', 'uat', '--license-type', 'Partial', '--alias', 'acme-uat',
+      '--target-org', 'prod', '--async', '--no-prompt',
+    ]);
+    expect(buildSandboxArgs('refresh', { ...values, autoActivate: false }, 'prod')).toEqual([
+      'org', 'refresh', 'sandbox', '--name', 'uat', '--no-auto-activate', '--target-org', 'prod', '--async', '--no-prompt',
+    ]);
+  });
+
+  it('clones a source sandbox instead of using a license type', () => {
+    const args = buildSandboxArgs('create', { ...values, sourceSandbox: 'qa' }, 'prod');
+
+    expect(args).toContain('--source-sandbox-name');
+    expect(args).not.toContain('--license-type');
+  });
+
+  it('resumes a sandbox by name', () => {
+    expect(buildResumeSandboxArgs('uat', 'prod')).toEqual([
+      'org', 'resume', 'sandbox', '--name', 'uat', '--target-org', 'prod',
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  findScratchDefinitions,
+  buildScratchOrgArgs,
+  buildAssignPermsetArgs,
+} from '../../src/components/org/ScratchOrgWizard';
+
+vi.mock('ink-spinner', () => ({ default: () => null }));
+
+describe('ScratchOrgWizard', () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sftui-project-'));
+    fs.mkdirSync(path.join(projectDir, 'config'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('finds the definition files of a project', () => {
+    const config = path.join(projectDir, 'config');
+    fs.writeFileSync(path.join(config, 'project-scratch-def.json'), JSON.stringify({ orgName: 'Acme', edition: 'Developer' }));
+    fs.writeFileSync(path.join(config, 'broken-scratch-def.json'), '{');
+    fs.writeFileSync(path.join(config, 'settings.json'), '{}');
+
+    expect(findScratchDefinitions(projectDir)).toEqual([
+      { file: 'config/broken-scratch-def.json' },
+      { file: 'config/project-scratch-def.json', orgName: 'Acme', edition: 'Developer' },
+    ]);
+    expect(findScratchDefinitions(path.join(projectDir, 'missing'))).toEqual([]);
+  });
+
+  it('builds the create command from the wizard values', () => {
+    expect(
+      buildScratchOrgArgs({
+        definitionFile: 'config/project-scratch-def.json',
+        alias: 'feature',
+        durationDays: '14',
+        devHub: 'hub',
+        setDefault: true,
+        edition: 'enterprise',
+      })
+    ).toEqual([
+      'org', 'create', 'scratch', '--definition-file', 'config/project-scratch-def.json',
+      '--alias', 'feature', '--duration-days', '14', '--target-dev-hub', 'hub', '--set-default',
+      '--edition', 'enterprise',
+    ]);
+
+    // A blank Dev Hub falls back to target-dev-hub
+    expect(
+      buildScratchOrgArgs({
+        definitionFile: 'config/project-scratch-def.json',
+        alias: 'feature',
+        durationDays: '7',
+        devHub: '',
+        setDefault: false,
+        edition: '',
+      })
+    ).not.toContain('--target-dev-hub');
+  });
+
+  it('assigns each listed permission set', () => {
+    expect(buildAssignPermsetArgs('Admin_Tools, Sales ,', 'feature')).toEqual([
+      'org', 'assign', 'permset', '--name', 'Admin_Tools', '--name', 'Sales', '--target-org', 'feature',
+    ]);
+  });
+});
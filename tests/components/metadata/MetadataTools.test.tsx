@@ -1,7 +1,7 @@
 import React from 'react';
 import { describe, it, expect, vi } from 'vitest';
 import { render } from 'ink-testing-library';
-import MetadataTools from '../../../src/components/metadata/MetadataTools';
+import MetadataTools, { buildMetadataToolArgs } from '../../../src/components/metadata/MetadataTools';
 import { execa } from 'execa';
 
 vi.mock('execa', () => ({ execa: vi.fn() }));
@@ -19,4 +19,15 @@ describe('MetadataTools', () => {
     const output = lastFrame();
     expect(output).toContain('Metadata Tools');
   });
+
+  it('builds a dry run deploy command', () => {
+    const args = buildMetadataToolArgs(
+      'deploy',
+      { targetOrg: 'uat', sourceOrg: '', manifestFile: 'manifest/package.xml', metadata: '', directory: '' },
+      true
+    );
+    expect(args).toEqual([
+      'project', 'deploy', 'start', '--manifest', 'manifest/package.xml', '--target-org', 'uat', '--dry-run',
+    ]);
+  });
 });
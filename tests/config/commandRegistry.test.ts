@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import {
+  changesTargetOrg,
+  findCommand,
+  getDestructiveLevel,
+  matchesCommandId,
+} from '../../src/config/commandRegistry';
+
+describe('command registry', () => {
+  it('finds the most specific command for the arguments', () => {
+    expect(findCommand(['org', 'list', '--json'])?.id).toBe('org:list');
+    expect(findCommand(['org', 'list', 'metadata', '-m', 'ApexClass'])?.id).toBe('org:list:metadata');
+    expect(findCommand(['plugins', 'install', 'foo'])?.id).toBe('plugins:install');
+    expect(findCommand(['unknown', 'command'])).toBeUndefined();
+  });
+
+  it('classifies by command id rather than argument contents', () => {
+    const query = findCommand(['data', 'query', '--query', 'SELECT CreatedDate FROM Account']);
+    expect(query?.readOnly).toBe(true);
+    expect(findCommand(['alias', 'set', 'dev=me@acme.com'])?.readOnly).toBe(false);
+  });
+
+  it('reports destructive levels, treating unknown commands with caution', () => {
+    expect(getDestructiveLevel(['org', 'delete', 'scratch', '-o', 'dev'])).toBe('high');
+    expect(getDestructiveLevel(['org', 'list'])).toBe('none');
+    expect(getDestructiveLevel(['unknown'])).toBe('low');
+  });
+
+  it('knows which commands change the org they target', () => {
+    expect(changesTargetOrg(['project', 'deploy', 'start', '-o', 'prod'])).toBe(true);
+    expect(changesTargetOrg(['apex', 'run', '--file', 'script.apex'])).toBe(true);
+    expect(changesTargetOrg(['project', 'retrieve', 'start', '-o', 'prod'])).toBe(false);
+    expect(changesTargetOrg(['org', 'open', '-o', 'prod'])).toBe(false);
+    expect(changesTargetOrg(['auth', 'logout', '-o', 'prod'])).toBe(true);
+  });
+
+  it('matches config exclude patterns against whole topics', () => {
+    expect(matchesCommandId('org:create:scratch', 'org:create')).toBe(true);
+    expect(matchesCommandId('project:deploy:start', 'deploy')).toBe(true);
+    expect(matchesCommandId('org:list', 'org:create')).toBe(false);
+    expect(matchesCommandId('data:query', 'data:export')).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { render } from 'ink-testing-library';
+import { OrgManager } from '../../src/components/org/OrgManager';
+import { AliasManager } from '../../src/components/alias/AliasManager';
+import { PluginsPanel } from '../../src/components/plugins/PluginsPanel';
+import { enableDemoMode, disableDemoMode } from '../../src/utils/sfSimulator';
+import { runSfCommand, streamSfCommand, listOrgs, cleanOrgList } from '../../src/utils/sfCli';
+
+vi.mock('ink-spinner', () => ({ default: () => null }));
+
+const waitFor = async (check: () => boolean, timeout = 2000) => {
+  const start = Date.now();
+  while (!check()) {
+    if (Date.now() - start > timeout) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+describe('Demo mode', () => {
+  beforeAll(() => {
+    enableDemoMode({ latency: 0 });
+  });
+
+  afterAll(() => {
+    disableDemoMode();
+  });
+
+  it('lists simulated orgs in the Org Manager', async () => {
+    const { lastFrame } = render(<OrgManager onBack={() => {}} />);
+    await waitFor(() => (lastFrame() || '').includes('acme-prod'));
+
+    expect(lastFrame()).toContain('spring-feature');
+  });
+
+  it('lists simulated aliases in the Alias Manager', async () => {
+    const { lastFrame } = render(<AliasManager onBack={() => {}} />);
+    await waitFor(() => (lastFrame() || '').includes('acme-uat = admin@acme.com.uat'));
+  });
+
+  it('lists simulated plugins in the Plugins panel', async () => {
+    const { lastFrame } = render(<PluginsPanel onBack={() => {}} />);
+    await waitFor(() => (lastFrame() || '').includes('@salesforce/plugin-apex@3.1.4'));
+  });
+
+  it('keeps state between commands', async () => {
+    await streamSfCommand(['alias', 'set', 'demo=admin@acme.com']);
+    const { result } = await runSfCommand<Array<{ alias: string }>>(['alias', 'list']);
+
+    expect(result.map(entry => entry.alias)).toContain('demo');
+  });
+
+  it('lists expired scratch orgs until they are cleaned up', async () => {
+    const aliases = async () => (await listOrgs({ all: true })).map(org => org.alias);
+
+    expect(await aliases()).toContain('old-spike');
+    await cleanOrgList();
+    expect(await aliases()).not.toContain('old-spike');
+  });
+
+  it('reports unsupported commands with an sf style error', async () => {
+    await expect(
+      runSfCommand(['package', 'version', 'list'], { reportErrors: false })
+    ).rejects.toThrow('not available in demo mode');
+  });
+});
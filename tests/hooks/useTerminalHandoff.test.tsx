@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { describe, it, expect } from 'vitest';
+import { Text, useInput } from 'ink';
+import { render } from 'ink-testing-library';
+import { useTerminalHandoff } from '../../src/hooks/useTerminalHandoff';
+import { tick } from '../testUtils';
+
+// Records the keys it reads, and hands the terminal over on 'e'
+const KeyRecorder = ({ run }: { run: () => Promise<void> }) => {
+  const handOffTerminal = useTerminalHandoff();
+  const [keys, setKeys] = useState('');
+
+  useInput(input => {
+    if (input === 'e') {
+      handOffTerminal(run);
+    } else {
+      setKeys(current => current + input);
+    }
+  });
+
+  return <Text>Keys: {keys}</Text>;
+};
+
+describe('useTerminalHandoff', () => {
+  it('neither reads keys nor draws while the terminal is handed over', async () => {
+    let finish = () => {};
+    const run = () => new Promise<void>(resolve => (finish = resolve));
+    const { stdin, stdout, lastFrame } = render(<KeyRecorder run={run} />);
+    await tick();
+
+    stdin.write('a');
+    await tick();
+    expect(lastFrame()).toBe('Keys: a');
+
+    stdin.write('e');
+    await tick();
+    const frames = stdout.frames.length;
+    stdin.write('b');
+    await tick();
+    expect(stdout.frames.length).toBe(frames);
+
+    finish();
+    await tick();
+    stdin.write('c');
+    await tick();
+    expect(lastFrame()).toBe('Keys: ac');
+  });
+});
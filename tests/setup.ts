@@ -0,0 +1,11 @@
+import { afterAll, vi } from 'vitest';
+// Apply the configured cache options first: loaded later, they would point
+// the cache back at the home directory
+import '../src/utils/cacheWrapper';
+import { isolateUserFiles } from './testUtils';
+
+// Spinners re-render on a timer, so frames would depend on timing
+vi.mock('ink-spinner', () => ({ default: () => null }));
+
+// Runs before each test file
+afterAll(isolateUserFiles());
@@ -1,10 +1,65 @@
-import { vi } from 'vitest';
+import { vi, onTestFinished } from 'vitest';
 import React from 'react';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { commandHistory } from '../src/utils/commandHistory';
+import { orgMetadata } from '../src/utils/orgMetadata';
+import { cacheService } from '../src/utils/cache';
+import type { ProcessRunner } from '../src/utils/commandExecutor';
 
-// Helper function to create mocks for Ink-related functionality
+/**
+ * Keep what tests run out of the developer's own files: command history and
+ * org metadata stay in memory and the response cache moves to a temporary
+ * directory. Called for every test file by tests/setup.ts.
+ *
+ * @returns A function removing the temporary cache
+ */
+export function isolateUserFiles() {
+  commandHistory.setFile(null);
+  orgMetadata.setFile(null);
+  const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sftui-cache-'));
+  cacheService.configure({ cacheDir });
+  return () => fs.rmSync(cacheDir, { recursive: true, force: true });
+}
+
+// Give Ink time to handle input and re-render
+export const tick = () => new Promise(resolve => setTimeout(resolve, 20));
+
+/**
+ * Output of an sf command run with `--json`
+ */
+export const respond = (result: unknown, status = 0) => ({
+  stdout: JSON.stringify({ status, result }),
+  stderr: '',
+  exitCode: status,
+});
+
+/**
+ * Output of an sf command that failed, e.g. `respondError('NoOrgFound', 'No org found')`
+ */
+export const respondError = (name: string, message: string) => ({
+  stdout: JSON.stringify({ status: 1, name, message }),
+  stderr: '',
+  exitCode: 1,
+});
+
+/**
+ * Answer sf commands with `runner` instead of running the CLI, until the test finishes
+ */
+export async function fakeSf(runner: ProcessRunner) {
+  // Imported here: tests/setup.ts imports this file before test files mock
+  // execa, which the executor must not have loaded by then
+  const { setProcessRunner } = await import('../src/utils/commandExecutor');
+  setProcessRunner(runner);
+  onTestFinished(() => setProcessRunner(null));
+}
+
+// Helper function to create mocks for Ink-related functionality.
+// vi.doMock is not hoisted, so importing this file mocks nothing until this is called.
 export function createInkMock() {
   // Mock React and Ink imports
-  vi.mock('react', async () => {
+  vi.doMock('react', async () => {
     const actual = await vi.importActual('react');
     return {
       ...actual as object,
@@ -13,7 +68,7 @@ export function createInkMock() {
   });
   
   // Mock Ink components with a simple implementation
-  vi.mock('ink', () => {
+  vi.doMock('ink', () => {
     const React = require('react');
     
     const Box = ({ children, ...props }: any) => {
@@ -50,7 +105,7 @@ export function createInkMock() {
   });
   
   // Mock remaining Ink components as needed
-  vi.mock('ink-select-input', () => ({
+  vi.doMock('ink-select-input', () => ({
     default: vi.fn(({ items, onSelect }) => 
       React.createElement('div', { 'data-testid': 'select-input' }, 
         items.map((item, i) => 
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import { getApexScriptPath, writeApexScript, parseApexRunOutput } from '../../src/utils/apexScript';
+
+const envelope = (result: Record<string, unknown>) =>
+  JSON.stringify({ status: result.success ? 0 : 1, result }, null, 2);
+
+const baseResult = {
+  success: true,
+  compiled: true,
+  compileProblem: '',
+  exceptionMessage: '',
+  exceptionStackTrace: '',
+  line: -1,
+  column: -1,
+  logs: '60.0 APEX_CODE,DEBUG\nUSER_DEBUG|[1]|DEBUG|hi',
+};
+
+describe('apexScript', () => {
+  it('writes scripts to a file named after their content', () => {
+    const code = "String name = 'it''s';\nSystem.debug(name);";
+    const filePath = writeApexScript(code);
+
+    expect(filePath).toBe(getApexScriptPath(code));
+    expect(getApexScriptPath(`${code} `)).not.toBe(filePath);
+    expect(fs.readFileSync(filePath, 'utf8')).toBe(code);
+  });
+
+  it('reads a successful run and its debug log', () => {
+    expect(parseApexRunOutput(envelope(baseResult))).toEqual({
+      status: 'success',
+      message: '',
+      logs: baseResult.logs,
+    });
+  });
+
+  it('reads compile errors with their position', () => {
+    const output = envelope({
+      ...baseResult,
+      success: false,
+      compiled: false,
+      compileProblem: "Unexpected token '('.",
+      line: 2,
+      column: 13,
+    });
+
+    expect(parseApexRunOutput(output)).toMatchObject({
+      status: 'compile-error',
+      message: "Unexpected token '('.",
+      line: 2,
+      column: 13,
+    });
+  });
+
+  it('reads the position of exceptions from the stack trace', () => {
+    const output = envelope({
+      ...baseResult,
+      success: false,
+      exceptionMessage: 'System.NullPointerException: Attempt to de-reference a null object',
+      exceptionStackTrace: 'AnonymousBlock: line 3, column 1',
+    });
+
+    expect(parseApexRunOutput(output)).toMatchObject({
+      status: 'exception',
+      line: 3,
+      column: 1,
+      stackTrace: 'AnonymousBlock: line 3, column 1',
+    });
+  });
+
+  it('uses the last envelope and ignores other output', () => {
+    const error = JSON.stringify({ status: 1, name: 'NoOrgFound', message: 'No org found' }, null, 2);
+    const output = `Warning: update available\n${envelope(baseResult)}\nRetrying\n${error}\n`;
+
+    expect(parseApexRunOutput(output)).toEqual({ status: 'error', message: 'No org found', logs: '' });
+    expect(parseApexRunOutput('Compiled successfully.')).toBeNull();
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { getCacheTags, getInvalidatedTags } from '../../src/utils/cacheTags';
+
+describe('cache tags', () => {
+  it('tags reads by resource and target org', () => {
+    expect(getCacheTags(['org', 'list', '--json'])).toEqual(['orgs']);
+    expect(getCacheTags(['org', 'display', '-o', 'me@acme.com', '--json'])).toEqual([
+      'orgs',
+      'org:me@acme.com',
+    ]);
+    expect(getCacheTags(['data', 'query', '--query', 'SELECT Id FROM Account', '-o', 'uat'])).toEqual([
+      'org:uat',
+    ]);
+  });
+
+  it('maps mutating commands to the tags they invalidate', () => {
+    expect(getInvalidatedTags(['plugins', 'install', '@salesforce/plugin-foo'])).toEqual(['plugins']);
+    expect(getInvalidatedTags(['org', 'delete', 'scratch', '-o', 'dev', '--no-prompt'])).toEqual([
+      'orgs',
+      'aliases',
+      'config',
+      'org:dev',
+    ]);
+    expect(getInvalidatedTags(['org', 'list', '--json'])).toEqual([]);
+  });
+});
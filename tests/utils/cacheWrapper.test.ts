@@ -0,0 +1,36 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { refreshCacheConfig } from '../../src/utils/cacheWrapper';
+import { cacheService } from '../../src/utils/cache';
+import { config } from '../../src/config';
+
+describe('cacheWrapper', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    cacheService.clear();
+  });
+
+  it('keeps entries and statistics when the cache settings are saved', () => {
+    const { cacheDir } = cacheService.getOptions();
+    const otherDir = path.join(os.tmpdir(), 'sftui-cache-elsewhere');
+    cacheService.set('orgs', ['uat']);
+    cacheService.get('orgs');
+    cacheService.get('aliases');
+    const stats = cacheService.getStats();
+
+    vi.spyOn(config, 'getCacheOptions').mockReturnValue({
+      enabled: true,
+      ttl: 60000,
+      maxSize: 1024 * 1024,
+      cacheDir: otherDir,
+    });
+    refreshCacheConfig();
+    fs.rmSync(otherDir, { recursive: true, force: true });
+
+    expect(cacheService.getStats()).toEqual(stats);
+    expect(cacheService.getOptions()).toMatchObject({ ttl: 60000, maxSize: 1024 * 1024, cacheDir });
+    expect(cacheService.get('orgs')).toEqual(['uat']);
+  });
+});
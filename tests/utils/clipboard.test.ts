@@ -0,0 +1,38 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { copyToClipboard } from '../../src/utils/clipboard';
+
+const createStream = (isTTY: boolean) =>
+  ({ isTTY, write: vi.fn() }) as unknown as NodeJS.WriteStream & { write: ReturnType<typeof vi.fn> };
+
+describe('copyToClipboard', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('writes an OSC 52 sequence with the base64 encoded text', () => {
+    vi.stubEnv('TMUX', '');
+    vi.stubEnv('TERM', 'xterm-256color');
+    const stream = createStream(true);
+
+    expect(copyToClipboard('sf org list', stream)).toBe(true);
+    expect(stream.write).toHaveBeenCalledWith(
+      `\u001b]52;c;${Buffer.from('sf org list').toString('base64')}\u0007`
+    );
+  });
+
+  it('wraps the sequence for tmux', () => {
+    vi.stubEnv('TMUX', '/tmp/tmux-1000/default,1,0');
+    const stream = createStream(true);
+
+    copyToClipboard('sf org list', stream);
+
+    expect(stream.write.mock.calls[0]?.[0]).toMatch(/^\u001bPtmux;\u001b\u001b]52;c;/);
+  });
+
+  it('does nothing when not attached to a terminal', () => {
+    const stream = createStream(false);
+
+    expect(copyToClipboard('sf org list', stream)).toBe(false);
+    expect(stream.write).not.toHaveBeenCalled();
+  });
+});
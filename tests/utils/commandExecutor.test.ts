@@ -0,0 +1,273 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { execa } from 'execa';
+import { executeCommand, subscribeToRevalidation } from '../../src/utils/commandExecutor';
+import { cacheService } from '../../src/utils/cache';
+
+vi.mock('execa', () => ({ execa: vi.fn() }));
+
+// Use a real cache in a temp directory with a short TTL
+vi.mock('../../src/utils/cache', async () => {
+  const actual = await vi.importActual<typeof import('../../src/utils/cache')>('../../src/utils/cache');
+  const fs = await import('fs');
+  const os = await import('os');
+  const path = await import('path');
+  return {
+    ...actual,
+    cacheService: new actual.CacheService({
+      ttl: 1000,
+      maxStaleAge: 60000,
+      cacheDir: fs.mkdtempSync(path.join(os.tmpdir(), 'sftui-cache-')),
+    }),
+  };
+});
+
+const mockExeca = execa as unknown as ReturnType<typeof vi.fn>;
+
+// Resolve the next execa call only when the returned function is called
+const deferExeca = (stdout: string) => {
+  let finish: () => void = () => {};
+  mockExeca.mockImplementationOnce(
+    () =>
+      new Promise(resolve => {
+        finish = () => resolve({ stdout, stderr: '', exitCode: 0 });
+      })
+  );
+  return () => finish();
+};
+
+describe('executeCommand caching', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    cacheService.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('shares one process between identical concurrent calls', async () => {
+    const finish = deferExeca('{"result":[]}');
+
+    const first = executeCommand('sf', ['org', 'list', '--json']);
+    const second = executeCommand('sf', ['org', 'list', '--json']);
+    finish();
+    const results = await Promise.all([first, second]);
+
+    expect(mockExeca).toHaveBeenCalledTimes(1);
+    expect(results[0]).toMatchObject({ stdout: '{"result":[]}', fromCache: false });
+    expect(results[1]).toMatchObject({ stdout: '{"result":[]}', fromCache: true });
+  });
+
+  it('does not share processes between calls that can be cancelled', async () => {
+    mockExeca.mockResolvedValue({ stdout: 'ok', stderr: '', exitCode: 0 });
+    const controller = new AbortController();
+
+    await Promise.all([
+      executeCommand('sf', ['org', 'list', '--json'], { signal: controller.signal }),
+      executeCommand('sf', ['org', 'list', '--json'], { signal: controller.signal }),
+    ]);
+
+    expect(mockExeca).toHaveBeenCalledTimes(2);
+  });
+
+  it('serves stale results while refreshing them in the background', async () => {
+    mockExeca.mockResolvedValueOnce({ stdout: 'old', stderr: '', exitCode: 0 });
+    await executeCommand('sf', ['org', 'list', '--json']);
+
+    // Let the entry expire
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now + 5000);
+
+    const finish = deferExeca('new');
+    const refreshed = new Promise<string>(resolve => {
+      const unsubscribe = subscribeToRevalidation((command, args, result) => {
+        unsubscribe();
+        resolve(result.stdout);
+      });
+    });
+
+    const stale = await executeCommand('sf', ['org', 'list', '--json']);
+    expect(stale).toMatchObject({ stdout: 'old', fromCache: true });
+
+    finish();
+    expect(await refreshed).toBe('new');
+    expect(await executeCommand('sf', ['org', 'list', '--json'])).toMatchObject({
+      stdout: 'new',
+      fromCache: true,
+    });
+    expect(mockExeca).toHaveBeenCalledTimes(2);
+  });
+
+  it('runs the command when the stale entry is too old', async () => {
+    mockExeca.mockResolvedValue({ stdout: 'result', stderr: '', exitCode: 0 });
+    await executeCommand('sf', ['org', 'list', '--json']);
+
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now + 120000);
+
+    const result = await executeCommand('sf', ['org', 'list', '--json']);
+
+    expect(result.fromCache).toBe(false);
+    expect(mockExeca).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('executeCommand cache invalidation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    cacheService.clear();
+    mockExeca.mockResolvedValue({ stdout: 'ok', stderr: '', exitCode: 0 });
+  });
+
+  it('drops cached reads tagged with what a command changed', async () => {
+    await executeCommand('sf', ['alias', 'list', '--json']);
+    await executeCommand('sf', ['plugins', '--json']);
+
+    await executeCommand('sf', ['alias', 'set', 'dev=me@acme.com']);
+    await executeCommand('sf', ['alias', 'list', '--json']);
+    await executeCommand('sf', ['plugins', '--json']);
+
+    // The alias list is read again, the plugin list still comes from the cache
+    expect(mockExeca.mock.calls.map(call => call[1].join(' '))).toEqual([
+      'alias list --json',
+      'plugins --json',
+      'alias set dev=me@acme.com',
+      'alias list --json',
+    ]);
+  });
+
+  it('reads the org list again after logging out of an org', async () => {
+    await executeCommand('sf', ['org', 'list', '--json']);
+
+    await executeCommand('sf', ['auth', 'logout', '-o', 'uat', '--no-prompt']);
+    const result = await executeCommand('sf', ['org', 'list', '--json']);
+
+    expect(result.fromCache).toBe(false);
+    expect(mockExeca.mock.calls.map(call => call[1].join(' '))).toEqual([
+      'org list --json',
+      'auth logout -o uat --no-prompt',
+      'org list --json',
+    ]);
+  });
+
+  it('lists cached entries with the command they came from', async () => {
+    await executeCommand('sf', ['org', 'display', '--target-org', 'uat', '--json']);
+
+    const [entry] = cacheService.getEntries();
+
+    expect(entry?.label).toBe('sf org display --target-org uat --json');
+    expect(entry?.tags).toEqual(['orgs', 'org:uat']);
+    expect(entry!.expiresAt - entry!.timestamp).toBe(1000);
+  });
+
+  it('drops only the reads of the org a deploy targeted', async () => {
+    await executeCommand('sf', ['org', 'display', '--target-org', 'uat', '--json']);
+    await executeCommand('sf', ['org', 'display', '--target-org', 'prod', '--json']);
+
+    await executeCommand('sf', ['project', 'deploy', 'start', '--target-org', 'uat']);
+
+    const displayKey = (org: string) =>
+      cacheService.generateKey('sf', ['org', 'display', '--target-org', org, '--json']);
+    expect(cacheService.get(displayKey('uat'))).toBeNull();
+    expect(cacheService.get(displayKey('prod'))).not.toBeNull();
+  });
+});
+
+describe('executeCommand command classification', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    cacheService.clear();
+    mockExeca.mockResolvedValue({ stdout: 'ok', stderr: '', exitCode: 0 });
+  });
+
+  it('caches read-only commands whatever their arguments contain', async () => {
+    const args = ['data', 'query', '--query', 'SELECT CreatedDate FROM Account', '--json'];
+    await executeCommand('sf', args);
+    const result = await executeCommand('sf', args);
+
+    expect(result.fromCache).toBe(true);
+    expect(mockExeca).toHaveBeenCalledTimes(1);
+  });
+
+  it('never caches mutating or unregistered commands', async () => {
+    await executeCommand('sf', ['config', 'set', 'target-org', 'dev']);
+    await executeCommand('sf', ['config', 'set', 'target-org', 'dev']);
+    await executeCommand('sf', ['unknown', 'command']);
+    await executeCommand('sf', ['unknown', 'command']);
+
+    expect(mockExeca).toHaveBeenCalledTimes(4);
+  });
+
+  it('uses the timeout from the registry unless one is given', async () => {
+    await executeCommand('sf', ['project', 'deploy', 'start']);
+    await executeCommand('sf', ['project', 'deploy', 'start'], { timeout: 1000 });
+
+    expect(mockExeca.mock.calls[0][2].timeout).toBe(30 * 60 * 1000);
+    expect(mockExeca.mock.calls[1][2].timeout).toBe(1000);
+  });
+
+  it('tells sf to wait as long as the timeout allows', async () => {
+    await executeCommand('sf', ['project', 'deploy', 'start'], { timeout: 10 * 60 * 1000 });
+    await executeCommand('sf', ['apex', 'run', 'test', '--wait', '5']);
+    await executeCommand('sf', ['org', 'list']);
+    await executeCommand('sf', ['org', 'create', 'sandbox', '--name', 'uat', '--async']);
+
+    expect(mockExeca.mock.calls[0][1]).toEqual(['project', 'deploy', 'start', '--wait', '10']);
+    expect(mockExeca.mock.calls[1][1]).toEqual(['apex', 'run', 'test', '--wait', '5']);
+    expect(mockExeca.mock.calls[2][1]).toEqual(['org', 'list']);
+    expect(mockExeca.mock.calls[3][1]).toEqual(['org', 'create', 'sandbox', '--name', 'uat', '--async']);
+  });
+});
+
+describe('executeCommand retries', () => {
+  const transientFailure = { stdout: '', stderr: 'Error: socket hang up', exitCode: 1 };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    cacheService.clear();
+  });
+
+  it('retries transient failures of read-only commands with backoff', async () => {
+    mockExeca
+      .mockResolvedValueOnce(transientFailure)
+      .mockResolvedValueOnce({ stdout: 'ok', stderr: '', exitCode: 0 });
+    const onRetry = vi.fn();
+
+    const result = await executeCommand('sf', ['org', 'list', '--json'], {
+      retry: { initialDelay: 1 },
+      onRetry,
+    });
+
+    expect(mockExeca).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ stdout: 'ok', exitCode: 0, attempts: 2 });
+    expect(onRetry).toHaveBeenCalledWith({
+      attempt: 1,
+      maxAttempts: 3,
+      delay: 1,
+      reason: 'socket hang up',
+    });
+  });
+
+  it('gives up after the maximum number of attempts', async () => {
+    mockExeca.mockResolvedValue(transientFailure);
+
+    const result = await executeCommand('sf', ['org', 'list', '--json'], {
+      retry: { initialDelay: 1, maxAttempts: 2 },
+      throwOnError: false,
+    });
+
+    expect(mockExeca).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ exitCode: 1, attempts: 2 });
+  });
+
+  it('does not retry mutating commands or other failures', async () => {
+    mockExeca
+      .mockResolvedValueOnce(transientFailure)
+      .mockResolvedValueOnce({ stdout: '', stderr: 'NoOrgFound', exitCode: 1 });
+
+    await executeCommand('sf', ['project', 'deploy', 'start']);
+    await executeCommand('sf', ['org', 'list', '--json'], { retry: { initialDelay: 1 } });
+
+    expect(mockExeca).toHaveBeenCalledTimes(2);
+  });
+});
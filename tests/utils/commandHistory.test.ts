@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { commandHistory, redactSecrets } from '../../src/utils/commandHistory';
+
+const entry = (args: string[], status: 'succeeded' | 'failed' = 'succeeded') => ({
+  args,
+  panel: 'RunTools',
+  status,
+  exitCode: status === 'succeeded' ? 0 : 1,
+  startedAt: new Date().toISOString(),
+  durationMs: 120,
+  output: 'done',
+});
+
+describe('commandHistory', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sftui-history-'));
+    commandHistory.setFile(path.join(dir, 'history.jsonl'));
+  });
+
+  afterEach(() => {
+    commandHistory.setFile(null);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('persists entries and reads them back most recent first', () => {
+    commandHistory.record(entry(['org', 'list']));
+    commandHistory.record(entry(['data', 'query', '--target-org', 'uat'], 'failed'));
+
+    // Force a reload from disk
+    commandHistory.setFile(path.join(dir, 'history.jsonl'));
+    const entries = commandHistory.getEntries();
+
+    expect(entries.map(e => e.args[0])).toEqual(['data', 'org']);
+    expect(entries[0]?.targetOrg).toBe('uat');
+  });
+
+  it('filters by panel, org and status', () => {
+    commandHistory.record(entry(['org', 'list']));
+    commandHistory.record(entry(['apex', 'run', '-o', 'dev'], 'failed'));
+    commandHistory.record({ ...entry(['project', 'deploy', 'start']), panel: 'MetadataTools' });
+
+    expect(commandHistory.getEntries({ status: 'failed' })).toHaveLength(1);
+    expect(commandHistory.getEntries({ targetOrg: 'dev' })[0]?.args[0]).toBe('apex');
+    expect(commandHistory.getEntries({ panel: 'MetadataTools' })).toHaveLength(1);
+  });
+
+  it('never stores credentials', () => {
+    commandHistory.record({
+      ...entry(['org', 'display', '--verbose']),
+      output: 'Access Token 00D5g000004XyZ1!AQ8AQabc.def\nSfdx Auth Url force://PlatformCLI::5Aep@acme.my.salesforce.com',
+    });
+
+    const stored = fs.readFileSync(path.join(dir, 'history.jsonl'), 'utf8');
+    expect(stored).not.toContain('AQ8AQabc');
+    expect(stored).not.toContain('force://');
+  });
+
+  it('redacts token fields in JSON output', () => {
+    expect(redactSecrets('{"accessToken": "secret", "username": "a@b.com"}')).toBe(
+      '{"accessToken": "[redacted]", "username": "a@b.com"}'
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { setProcessRunner, ProcessRunner } from '../../src/utils/commandExecutor';
+import { jobManager } from '../../src/utils/jobManager';
+import { errorReporter } from '../../src/utils/errorReporter';
+import { commandHistory } from '../../src/utils/commandHistory';
+
+// Runner that streams one line and then waits until it is aborted
+const hangingRunner: ProcessRunner = (command, args, options) =>
+  new Promise((resolve, reject) => {
+    options.onOutput?.('Deploying...\n', 'stdout');
+    options.signal?.addEventListener('abort', () =>
+      reject(Object.assign(new Error('Command was canceled'), { isCanceled: true }))
+    );
+  });
+
+describe('jobManager', () => {
+  beforeEach(() => {
+    vi.spyOn(errorReporter, 'reportError').mockImplementation(() => ({}) as any);
+    commandHistory.setFile(null);
+  });
+
+  afterEach(() => {
+    setProcessRunner(null);
+    jobManager.clearFinished();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps streamed output and the final exit status', async () => {
+    setProcessRunner(async (command, args, options) => {
+      options.onOutput?.('line 1\n', 'stdout');
+      options.onOutput?.('line 2\n', 'stdout');
+      return { stdout: 'line 1\nline 2\n', stderr: '', exitCode: 0 };
+    });
+
+    const job = jobManager.start(['project', 'deploy', 'start'], { label: 'Deploy', origin: 'Test' });
+    expect(jobManager.getRunningCount()).toBe(1);
+
+    const finished = await jobManager.wait(job.id);
+
+    expect(finished?.status).toBe('succeeded');
+    expect(finished?.exitCode).toBe(0);
+    expect(finished?.output).toBe('line 1\nline 2\n');
+    expect(jobManager.getRunningCount()).toBe(0);
+  });
+
+  it('parses progress from the output of commands that report it', async () => {
+    setProcessRunner(async (command, args, options) => {
+      options.onOutput?.('Status: In Progress | 10/20 Components\n', 'stdout');
+      return { stdout: '', stderr: '', exitCode: 0 };
+    });
+    const updates: number[] = [];
+
+    const job = jobManager.start(['project', 'deploy', 'start'], {
+      onProgress: progress => updates.push(progress.percent),
+    });
+    const finished = await jobManager.wait(job.id);
+
+    expect(updates).toEqual([45]);
+    expect(finished?.progress?.components).toEqual({ done: 10, total: 20 });
+    expect(finished?.progress?.percent).toBe(100);
+  });
+
+  it('marks failed commands with their error', async () => {
+    setProcessRunner(async () => ({ stdout: '', stderr: 'Deploy failed', exitCode: 1 }));
+
+    const job = jobManager.start(['project', 'deploy', 'start']);
+    const finished = await jobManager.wait(job.id);
+
+    expect(finished?.status).toBe('failed');
+    expect(finished?.exitCode).toBe(1);
+    expect(finished?.error).toBe('Deploy failed');
+  });
+
+  it('cancels a running job without reporting an error', async () => {
+    setProcessRunner(hangingRunner);
+
+    const job = jobManager.start(['project', 'deploy', 'start']);
+    expect(jobManager.cancel(job.id)).toBe(true);
+    const finished = await jobManager.wait(job.id);
+
+    expect(finished?.status).toBe('cancelled');
+    expect(finished?.output).toBe('Deploying...\n');
+    expect(errorReporter.reportError).not.toHaveBeenCalled();
+  });
+
+  it('cancels the deployment in the org when a deploy is cancelled', async () => {
+    const commands: string[][] = [];
+    setProcessRunner((command, args, options) => {
+      commands.push(args);
+      if (args[2] === 'cancel') {
+        return Promise.resolve({ stdout: 'Status: Canceled', stderr: '', exitCode: 0 });
+      }
+      options.onOutput?.('Deploy ID: 0Af5g00000DemoXYZ\n', 'stdout');
+      return hangingRunner(command, args, options);
+    });
+
+    const job = jobManager.start(['project', 'deploy', 'start', '--target-org', 'uat']);
+    jobManager.cancel(job.id);
+    await jobManager.wait(job.id);
+
+    expect(commands[1]).toEqual([
+      'project',
+      'deploy',
+      'cancel',
+      '--job-id',
+      '0Af5g00000DemoXYZ',
+      '--target-org',
+      'uat',
+    ]);
+    await jobManager.wait(jobManager.getJobs()[0]!.id);
+  });
+
+  it('asks what to do when a job reaches its timeout instead of killing it', async () => {
+    setProcessRunner(hangingRunner);
+
+    const job = jobManager.start(['project', 'deploy', 'start'], { timeout: 5 });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(jobManager.getJob(job.id)?.timedOut).toBe(true);
+    expect(jobManager.getJob(job.id)?.status).toBe('running');
+
+    jobManager.keepWaiting(job.id);
+    expect(jobManager.getJob(job.id)?.timedOut).toBe(false);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(jobManager.getJob(job.id)?.timedOut).toBe(true);
+
+    jobManager.moveToBackground(job.id);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(jobManager.getJob(job.id)?.timedOut).toBe(false);
+
+    jobManager.cancel(job.id, { cancelInOrg: false });
+    const finished = await jobManager.wait(job.id);
+    expect(finished?.status).toBe('cancelled');
+  });
+
+  it('runs jobs concurrently and re-runs finished ones', async () => {
+    setProcessRunner(hangingRunner);
+
+    const first = jobManager.start(['apex', 'run', 'test'], { label: 'Tests' });
+    const second = jobManager.start(['project', 'retrieve', 'start']);
+    expect(jobManager.getRunningCount()).toBe(2);
+
+    jobManager.cancel(first.id);
+    await jobManager.wait(first.id);
+    const rerun = jobManager.rerun(first.id);
+
+    expect(rerun?.label).toBe('Tests');
+    expect(rerun?.args).toEqual(['apex', 'run', 'test']);
+    expect(jobManager.getJobs()[0]?.id).toBe(rerun?.id);
+
+    jobManager.cancel(second.id);
+    jobManager.cancel(rerun!.id);
+    await Promise.all([jobManager.wait(second.id), jobManager.wait(rerun!.id)]);
+  });
+});
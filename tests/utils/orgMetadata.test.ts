@@ -0,0 +1,40 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { orgMetadata, sortFavoritesFirst } from '../../src/utils/orgMetadata';
+
+describe('orgMetadata', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sftui-orgs-'));
+    orgMetadata.setFile(path.join(dir, 'orgs.json'));
+  });
+
+  afterEach(() => {
+    orgMetadata.setFile(null);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores tags by org id and drops cleared fields', () => {
+    orgMetadata.update('00D1', { environment: 'uat', project: 'billing', notes: 'shared with QA' });
+    orgMetadata.update('00D1', { notes: '' });
+    orgMetadata.toggleFavorite('00D2');
+
+    // A fresh load reads the file back
+    orgMetadata.setFile(path.join(dir, 'orgs.json'));
+    expect(orgMetadata.get('00D1')).toEqual({ environment: 'uat', project: 'billing' });
+    expect(orgMetadata.get('00D2')).toEqual({ favorite: true });
+
+    orgMetadata.toggleFavorite('00D2');
+    expect(orgMetadata.getAll()).toEqual({ '00D1': { environment: 'uat', project: 'billing' } });
+  });
+
+  it('lists favorite orgs first', () => {
+    orgMetadata.toggleFavorite('00D3');
+    const orgs = [{ orgId: '00D1' }, { orgId: '00D2' }, { orgId: '00D3' }];
+
+    expect(sortFavoritesFirst(orgs).map(org => org.orgId)).toEqual(['00D3', '00D1', '00D2']);
+  });
+});
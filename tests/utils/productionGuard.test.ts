@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  isProductionOrg,
+  getGuardedTargetFromArgs,
+  resolveGuardedTarget,
+  findProductionTarget,
+  isProductionTarget,
+  clearKnownOrgs,
+} from '../../src/utils/productionGuard';
+import { orgMetadata } from '../../src/utils/orgMetadata';
+import { setProcessRunner } from '../../src/utils/commandExecutor';
+import { cacheService } from '../../src/utils/cache';
+
+const orgs: Record<string, object> = {
+  prod: { id: '00D0000000000P1', username: 'admin@acme.com', alias: 'prod', isSandbox: false, isScratch: false },
+  uat: { id: '00D0000000000U1', username: 'admin@acme.com.uat', alias: 'uat', isSandbox: true, isScratch: false },
+  // As shown by older CLI versions, without isSandbox and isScratch
+  dev: { id: '00D0000000000D1', username: 'admin@acme.com.dev', alias: 'dev', instanceUrl: 'https://acme--dev.sandbox.my.salesforce.com' },
+  feature: { id: '00D0000000000F1', username: 'test-feature@example.com', alias: 'feature', instanceUrl: 'https://ability-dream-1234-dev-ed.my.salesforce.com' },
+};
+
+// Orgs whose tokens expired: listed, but `org display` fails for them
+const listedOrgs = [
+  { orgId: '00D0000000000S1', username: 'admin@acme.com.staging', alias: 'staging', isSandbox: true, connectedStatus: 'Expired' },
+  { orgId: '00D0000000000Q1', username: 'admin@acme.com.qa', alias: 'qa', isSandbox: true, connectedStatus: 'Expired' },
+];
+
+const scratchOrgs = [
+  { orgId: '00D0000000000F1', username: 'test-feature@example.com', alias: 'feature', instanceUrl: 'https://ability-dream-1234-dev-ed.my.salesforce.com' },
+];
+
+describe('productionGuard', () => {
+  let displayed: string[];
+
+  beforeEach(() => {
+    displayed = [];
+    clearKnownOrgs();
+    cacheService.clear();
+    orgMetadata.setFile(null);
+    setProcessRunner(async (command, args) => {
+      if (args[0] === 'config' && args[1] === 'get') {
+        return { stdout: JSON.stringify({ status: 0, result: [{ name: 'target-org', value: 'prod' }] }), stderr: '', exitCode: 0 };
+      }
+      if (args[0] === 'org' && args[1] === 'list') {
+        return { stdout: JSON.stringify({ status: 0, result: { sandboxes: listedOrgs, scratchOrgs } }), stderr: '', exitCode: 0 };
+      }
+      const target = args[args.indexOf('--target-org') + 1]!;
+      displayed.push(target);
+      const result = orgs[target];
+      return result
+        ? { stdout: JSON.stringify({ status: 0, result }), stderr: '', exitCode: 0 }
+        : { stdout: JSON.stringify({ status: 1, name: 'NamedOrgNotFoundError', message: `No org ${target}` }), stderr: '', exitCode: 1 };
+    });
+  });
+
+  afterEach(() => {
+    setProcessRunner(null);
+  });
+
+  it('lets an environment tag override what the org reports', () => {
+    expect(isProductionOrg({ isSandbox: false, isScratch: false })).toBe(true);
+    expect(isProductionOrg({ isSandbox: true })).toBe(false);
+    expect(isProductionOrg({ isSandbox: true }, { environment: 'prod' })).toBe(true);
+    expect(isProductionOrg({ isSandbox: false }, { environment: 'dev' })).toBe(false);
+  });
+
+  it('only guards commands that change the org they target', async () => {
+    expect(getGuardedTargetFromArgs(['project', 'deploy', 'start', '--target-org', 'prod'])).toBe('prod');
+    expect(getGuardedTargetFromArgs(['project', 'deploy', 'start', '-o', 'prod', '--dry-run'])).toBeUndefined();
+    expect(getGuardedTargetFromArgs(['project', 'retrieve', 'start', '-o', 'prod'])).toBeUndefined();
+    // The dev hub is not the org a scratch org command changes
+    expect(getGuardedTargetFromArgs(['org', 'create', 'scratch', '--target-dev-hub', 'prod'])).toBeUndefined();
+
+    // Registered commands without a target change the default org
+    expect(await resolveGuardedTarget(['apex', 'run', '--file', 'script.apex'])).toBe('prod');
+  });
+
+  it('finds production targets and remembers the orgs it looked up', async () => {
+    expect(await findProductionTarget(['apex', 'run', '-o', 'prod'])).toMatchObject({ alias: 'prod' });
+    expect(await findProductionTarget(['apex', 'run', '-o', 'uat'])).toBeUndefined();
+    expect(await findProductionTarget(['apex', 'run', '-o', 'prod'])).toBeDefined();
+    expect(displayed).toEqual(['prod', 'uat']);
+
+    orgMetadata.update('00D0000000000U1', { environment: 'prod' });
+    expect(await findProductionTarget(['apex', 'run', '-o', 'uat'])).toMatchObject({ alias: 'uat' });
+  });
+
+  it('tells sandboxes and scratch orgs apart when sf does not say which they are', async () => {
+    expect(await findProductionTarget(['apex', 'run', '-o', 'dev'])).toBeUndefined();
+    expect(await findProductionTarget(['apex', 'run', '-o', 'feature'])).toBeUndefined();
+    expect(await isProductionTarget('dev')).toBe(false);
+  });
+
+  it('falls back to the org list and its tags when an org cannot be displayed', async () => {
+    expect(await findProductionTarget(['apex', 'run', '-o', 'staging'])).toBeUndefined();
+
+    orgMetadata.update('00D0000000000Q1', { environment: 'prod' });
+    expect(await findProductionTarget(['apex', 'run', '-o', 'qa'])).toMatchObject({ alias: 'qa', isSandbox: true });
+  });
+
+  it('asks for confirmation when an org cannot be looked up at all', async () => {
+    expect(await findProductionTarget(['apex', 'run', '-o', 'missing'])).toMatchObject({ username: 'missing', unknown: true });
+    expect(await isProductionTarget('missing')).toBe(false);
+  });
+});
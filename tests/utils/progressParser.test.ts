@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { ProgressParser, describeProgress, getProgressKind } from '../../src/utils/progressParser';
+
+const statusOf = (parser: ProgressParser, name: string) =>
+  parser.getProgress().stages.find(stage => stage.name === name)?.status;
+
+describe('ProgressParser', () => {
+  it('picks a parser from the command', () => {
+    expect(getProgressKind(['project', 'deploy', 'start', '-o', 'uat'])).toBe('deploy');
+    expect(getProgressKind(['apex', 'run', 'test'])).toBe('test');
+    expect(getProgressKind(['org', 'create', 'scratch', '-f', 'def.json'])).toBe('scratch');
+    expect(ProgressParser.forCommand(['org', 'list'])).toBeNull();
+  });
+
+  it('follows component counts from deploy polling output', () => {
+    const parser = new ProgressParser('deploy');
+
+    parser.push('Deploy ID: 0Af5g00000DemoXYZ\nStatus: In Progress | 0/42 Components\n');
+    const progress = parser.push('Status: In Progress | 21/42 Components\n');
+
+    expect(progress.components).toEqual({ done: 21, total: 42 });
+    expect(progress.status).toBe('In Progress');
+    expect(statusOf(parser, 'Preparing')).toBe('completed');
+    expect(statusOf(parser, 'Deploying Metadata')).toBe('in_progress');
+    expect(progress.percent).toBe(45);
+    expect(describeProgress(progress)).toBe('21/42 components · In Progress');
+
+    expect(parser.push('Status: Succeeded | 42/42 Components\n').percent).toBe(100);
+  });
+
+  it('reads stages from multi-stage output, including lines split across chunks', () => {
+    const parser = new ProgressParser('deploy');
+
+    parser.push(' ✔ Preparing 54ms\n ◯ Waiting for the org to respond - Skipped\n ✔ Deploying Meta');
+    expect(statusOf(parser, 'Deploying Metadata')).toBe('pending');
+
+    parser.push('data 2.38s\n   ▸ Components: 5/5 (100%)\n   ▸ Successful: 3/10 (30%)\n');
+
+    expect(statusOf(parser, 'Waiting for the org to respond')).toBe('completed');
+    expect(statusOf(parser, 'Deploying Metadata')).toBe('completed');
+    expect(statusOf(parser, 'Running Tests')).toBe('in_progress');
+    expect(parser.getProgress().tests).toEqual({ done: 3, total: 10 });
+  });
+
+  it('counts completed tests and marks the failing stage', () => {
+    const parser = new ProgressParser('test');
+
+    expect(parser.push('Test run started.\nTests: 4/12\n').percent).toBe(41);
+    const progress = parser.finish(false);
+
+    expect(statusOf(parser, 'Running Tests')).toBe('error');
+    expect(progress.percent).toBe(41);
+  });
+
+  it('completes scratch org stages as they are reported', () => {
+    const parser = new ProgressParser('scratch');
+
+    parser.push('✔ Prepare Request\n✔ Send Request\n');
+    expect(statusOf(parser, 'Wait For Org')).toBe('pending');
+    expect(parser.getProgress().percent).toBe(20);
+
+    expect(parser.finish(true).percent).toBe(100);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { setProcessRunner } from '../../src/utils/commandExecutor';
+import { sandboxTracker, toSandboxCopies, SandboxUpdate } from '../../src/utils/sandboxTracker';
+import { commandHistory } from '../../src/utils/commandHistory';
+import type { SfSandboxProcess } from '../../src/types/sf';
+
+const processRecord = (overrides: Partial<SfSandboxProcess>): SfSandboxProcess => ({
+  Id: '0GR000000000001',
+  SandboxName: 'uat',
+  LicenseType: 'DEVELOPER',
+  Status: 'Processing',
+  CopyProgress: 40,
+  ...overrides,
+});
+
+// Answer each SandboxProcess query with the next list of records
+const respondWith = (...responses: SfSandboxProcess[][]) => {
+  const queries: string[][] = [];
+  setProcessRunner(async (command, args) => {
+    queries.push(args);
+    const records = responses[Math.min(queries.length - 1, responses.length - 1)];
+    return { stdout: JSON.stringify({ status: 0, result: { records, totalSize: records?.length, done: true } }), stderr: '', exitCode: 0 };
+  });
+  return queries;
+};
+
+describe('sandboxTracker', () => {
+  beforeEach(() => {
+    commandHistory.setFile(null);
+  });
+
+  afterEach(() => {
+    sandboxTracker.stop('prod');
+    setProcessRunner(null);
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the latest copy of each sandbox', () => {
+    const copies = toSandboxCopies([
+      processRecord({ Id: '2', Status: 'Completed', CopyProgress: 100, EndDate: '2026-10-18T10:00:00.000Z' }),
+      processRecord({ Id: '1', Status: 'Completed' }),
+      processRecord({ Id: '3', SandboxName: 'qa', CopyProgress: null }),
+    ]);
+
+    expect(copies).toEqual([
+      { id: '2', name: 'uat', licenseType: 'DEVELOPER', status: 'Completed', progress: 100, endDate: '2026-10-18T10:00:00.000Z' },
+      { id: '3', name: 'qa', licenseType: 'DEVELOPER', status: 'Processing', progress: 0 },
+    ]);
+  });
+
+  it('queries the Tooling API and reports copies that have finished', async () => {
+    const queries = respondWith(
+      [processRecord({ Status: 'Processing' })],
+      [processRecord({ Status: 'Completed', CopyProgress: 100 })]
+    );
+    const updates: SandboxUpdate[] = [];
+    const unsubscribe = sandboxTracker.subscribe(update => updates.push(update));
+
+    await sandboxTracker.refresh('prod');
+    await sandboxTracker.refresh('prod');
+    unsubscribe();
+
+    expect(queries[0]).toEqual(expect.arrayContaining(['data', 'query', '--use-tooling-api', '--target-org', 'prod']));
+    expect(updates[0]?.finished).toEqual([]);
+    expect(updates[1]?.finished.map(copy => copy.name)).toEqual(['uat']);
+    expect(sandboxTracker.getCopies('prod')[0]?.status).toBe('Completed');
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { execa } from 'execa';
+import {
+  runSfCommand,
+  streamSfCommand,
+  listAliases,
+  listOrgs,
+  cleanOrgList,
+  getDaysUntilExpiration,
+  isOrgExpired,
+  SfCommandError,
+  formatSfCommand,
+} from '../../src/utils/sfCli';
+import { errorReporter } from '../../src/utils/errorReporter';
+import { commandHistory } from '../../src/utils/commandHistory';
+import { cacheService } from '../../src/utils/cache';
+import type { SfOrg } from '../../src/types/sf';
+
+vi.mock('execa', () => ({ execa: vi.fn() }));
+
+vi.mock('../../src/utils/cache', () => ({
+  cacheService: {
+    generateKey: vi.fn().mockReturnValue('key'),
+    get: vi.fn().mockReturnValue(null),
+    getStale: vi.fn().mockReturnValue(null),
+    set: vi.fn(),
+    invalidate: vi.fn(),
+    invalidateTags: vi.fn().mockReturnValue(0),
+    clear: vi.fn(),
+  },
+}));
+
+const mockExeca = execa as unknown as ReturnType<typeof vi.fn>;
+
+describe('sfCli gateway', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(errorReporter, 'reportError').mockImplementation(() => ({}) as any);
+    commandHistory.setFile(null);
+  });
+
+  it('appends --json and returns the parsed result', async () => {
+    mockExeca.mockResolvedValueOnce({
+      stdout: JSON.stringify({ status: 0, result: { ok: true }, warnings: ['heads up'] }),
+      stderr: '',
+      exitCode: 0,
+    });
+
+    const response = await runSfCommand<{ ok: boolean }>(['org', 'display']);
+
+    expect(mockExeca).toHaveBeenCalledWith('sf', ['org', 'display', '--json'], expect.anything());
+    expect(response.result).toEqual({ ok: true });
+    expect(response.warnings).toEqual(['heads up']);
+  });
+
+  it('throws an SfCommandError built from the error envelope', async () => {
+    mockExeca.mockResolvedValueOnce({
+      stdout: JSON.stringify({
+        status: 1,
+        name: 'NoOrgFound',
+        message: 'No default org',
+        actions: ['Set a default org'],
+      }),
+      stderr: '',
+      exitCode: 1,
+    });
+
+    const error = await runSfCommand(['org', 'display'], { context: 'Test' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(SfCommandError);
+    expect(error.sfName).toBe('NoOrgFound');
+    expect(error.actions).toEqual(['Set a default org']);
+    expect(errorReporter.reportError).toHaveBeenCalledWith(
+      expect.stringContaining('sf org display --json'),
+      expect.objectContaining({ context: 'Test' })
+    );
+  });
+
+  it('reports how many attempts a retried command took', async () => {
+    mockExeca.mockResolvedValue({
+      stdout: JSON.stringify({ status: 1, name: 'REQUEST_LIMIT_EXCEEDED', message: 'Limit hit' }),
+      stderr: '',
+      exitCode: 1,
+    });
+
+    const error = await runSfCommand(['org', 'display'], {
+      retry: { initialDelay: 1, maxAttempts: 2 },
+    }).catch(e => e);
+
+    expect(mockExeca).toHaveBeenCalledTimes(2);
+    expect(error.attempts).toBe(2);
+    expect(errorReporter.reportError).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ details: expect.objectContaining({ attempts: 2 }) })
+    );
+  });
+
+  it('does not report errors when reportErrors is false', async () => {
+    mockExeca.mockResolvedValueOnce({ stdout: 'not json', stderr: '', exitCode: 1 });
+
+    await expect(runSfCommand(['config', 'get'], { reportErrors: false })).rejects.toThrow(
+      SfCommandError
+    );
+    expect(errorReporter.reportError).not.toHaveBeenCalled();
+  });
+
+  it('streams output and rejects on a non-zero exit code', async () => {
+    mockExeca.mockResolvedValueOnce({ stdout: '', stderr: 'first\nDeploy failed', exitCode: 1 });
+
+    await expect(streamSfCommand(['project', 'deploy', 'start'])).rejects.toThrow('Deploy failed');
+  });
+
+  it('normalizes both alias list formats', async () => {
+    mockExeca.mockResolvedValueOnce({
+      stdout: JSON.stringify({ status: 0, result: { dev: 'dev@example.com' } }),
+    });
+    mockExeca.mockResolvedValueOnce({
+      stdout: JSON.stringify({ status: 0, result: [{ alias: 'qa', value: 'qa@example.com' }] }),
+    });
+
+    expect(await listAliases()).toEqual([{ alias: 'dev', value: 'dev@example.com' }]);
+    expect(await listAliases()).toEqual([{ alias: 'qa', value: 'qa@example.com' }]);
+  });
+
+  it('flattens org groups and flags scratch orgs', async () => {
+    mockExeca.mockResolvedValueOnce({
+      stdout: JSON.stringify({
+        status: 0,
+        result: {
+          nonScratchOrgs: [{ username: 'hub@example.com' }],
+          devHubs: [{ username: 'hub@example.com' }],
+          scratchOrgs: [{ username: 'scratch@example.com' }],
+        },
+      }),
+    });
+
+    const orgs = await listOrgs();
+
+    expect(orgs.map(org => org.username)).toEqual(['hub@example.com', 'scratch@example.com']);
+    expect(orgs[1]?.isScratch).toBe(true);
+  });
+
+  it('counts the days until a scratch org expires', () => {
+    const now = new Date(2026, 9, 19, 23, 30);
+    const scratch = (expirationDate: string, status = 'Active') =>
+      ({ username: 'scratch@example.com', expirationDate, status }) as SfOrg;
+
+    expect(getDaysUntilExpiration(scratch('2026-10-22'), now)).toBe(3);
+    expect(getDaysUntilExpiration(scratch('2026-10-19'), now)).toBe(0);
+    expect(getDaysUntilExpiration({ username: 'prod@example.com' } as SfOrg, now)).toBeUndefined();
+    expect(isOrgExpired(scratch('2026-10-19'), now)).toBe(false);
+    expect(isOrgExpired(scratch('2026-10-18'), now)).toBe(true);
+    expect(isOrgExpired(scratch('2026-10-25', 'Expired'), now)).toBe(true);
+  });
+
+  it('cleans expired orgs without the cache and drops cached org lists', async () => {
+    mockExeca.mockResolvedValueOnce({
+      stdout: JSON.stringify({ status: 0, result: { nonScratchOrgs: [{ username: 'hub@example.com' }] } }),
+    });
+
+    const orgs = await cleanOrgList();
+
+    expect(mockExeca).toHaveBeenCalledWith('sf', ['org', 'list', '--clean', '--no-prompt', '--json'], expect.anything());
+    expect(cacheService.get).not.toHaveBeenCalled();
+    expect(cacheService.invalidateTags).toHaveBeenCalledWith(['orgs', 'aliases']);
+    expect(orgs.map(org => org.username)).toEqual(['hub@example.com']);
+  });
+
+  it('quotes arguments when formatting a command for the shell', () => {
+    expect(formatSfCommand(['data', 'query', '--query', "SELECT Id FROM Account WHERE Name = 'Acme'"])).toBe(
+      `sf data query --query 'SELECT Id FROM Account WHERE Name = '\\''Acme'\\'''`
+    );
+    expect(formatSfCommand(['org', 'list', '--target-org', 'admin@acme.com'])).toBe(
+      'sf org list --target-org admin@acme.com'
+    );
+  });
+});